@@ -0,0 +1,81 @@
+import { createTools as createBonnardTools } from "./tools.js";
+import { toJsonSchema, type JsonSchema } from "./json-schema.js";
+import { runTool, resultText } from "./dispatch.js";
+import type { BonnardClient, CreateToolsOptions } from "./types.js";
+
+// Structural subsets of the `@anthropic-ai/sdk` types, so it isn't a dependency
+
+/** A tool for `messages.create({ tools })`. */
+export interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: JsonSchema & { type: "object" };
+}
+
+/** A Messages API response, or any message with content blocks. */
+export interface AnthropicMessageLike {
+  content: Array<{ type: string; id?: string; name?: string; input?: unknown }>;
+}
+
+export interface ToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content: string;
+  is_error?: true;
+}
+
+export interface ToolResultMessage {
+  role: "user";
+  content: ToolResultBlock[];
+}
+
+export interface AnthropicTools {
+  /** Tool definitions to pass as `tools`. */
+  tools: AnthropicTool[];
+  /**
+   * Run every Bonnard `tool_use` block in a response and build the `user`
+   * message of `tool_result` blocks to send next. Failures become results
+   * with `is_error: true`, never exceptions. Resolves to null when the
+   * response has no Bonnard tool calls; blocks for other tools are skipped.
+   */
+  handleToolCalls(response: AnthropicMessageLike): Promise<ToolResultMessage | null>;
+  /** The `tool_result` blocks alone, to combine with results from other tools. */
+  handleToolUseBlocks(response: AnthropicMessageLike): Promise<ToolResultBlock[]>;
+}
+
+/**
+ * Create Bonnard tools for the Anthropic Messages API.
+ *
+ * ```ts
+ * import { createTools } from "@bonnard/sdk/ai/anthropic"
+ * const bonnard = createTools(bonnardClient)
+ * const message = await anthropic.messages.create({ model, max_tokens, messages, tools: bonnard.tools })
+ * const results = await bonnard.handleToolCalls(message)
+ * if (results) messages.push({ role: "assistant", content: message.content }, results)
+ * ```
+ */
+export function createTools(client: BonnardClient, options?: CreateToolsOptions): AnthropicTools {
+  const bonnardTools = createBonnardTools(client, options);
+  const names = new Set(bonnardTools.map((t) => t.name));
+
+  const tools = bonnardTools.map((t): AnthropicTool => ({
+    name: t.name,
+    description: t.description,
+    input_schema: toJsonSchema(t.schema) as AnthropicTool["input_schema"],
+  }));
+
+  async function handleToolUseBlocks(response: AnthropicMessageLike): Promise<ToolResultBlock[]> {
+    const calls = response.content.filter((block) => block.type === "tool_use" && names.has(block.name ?? ""));
+    return Promise.all(calls.map(async (block): Promise<ToolResultBlock> => {
+      const { result, isError } = await runTool(bonnardTools, block.name!, block.input);
+      return { type: "tool_result", tool_use_id: block.id!, content: resultText(result), ...(isError && { is_error: true as const }) };
+    }));
+  }
+
+  async function handleToolCalls(response: AnthropicMessageLike): Promise<ToolResultMessage | null> {
+    const blocks = await handleToolUseBlocks(response);
+    return blocks.length > 0 ? { role: "user", content: blocks } : null;
+  }
+
+  return { tools, handleToolCalls, handleToolUseBlocks };
+}
@@ -0,0 +1,56 @@
+import { BonnardError } from "../errors.js";
+import type { BonnardTool } from "./types.js";
+
+export interface ToolOutcome {
+  /** What to send back to the model: the tool's result, or `{ error }`. */
+  result: unknown;
+  isError: boolean;
+}
+
+/**
+ * Run one tool call from a model: validate the arguments against the tool's
+ * schema, execute, and turn every failure (unknown tool, bad arguments,
+ * thrown errors, `{ error }` results) into an error outcome the model can
+ * read and act on instead of an exception.
+ */
+export async function runTool(tools: BonnardTool[], name: string, args: unknown): Promise<ToolOutcome> {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) {
+    return { result: { error: `Unknown tool '${name}'. Available tools: ${tools.map((t) => t.name).join(", ")}` }, isError: true };
+  }
+
+  const parsed = tool.schema.safeParse(args ?? {});
+  if (!parsed.success) {
+    const details = parsed.error.issues.map((i) => `${i.path.join(".") || "arguments"}: ${i.message}`).join("; ");
+    return { result: { error: `Invalid arguments: ${details}` }, isError: true };
+  }
+
+  try {
+    const result = await tool.execute(parsed.data);
+    return { result, isError: !!result && typeof result === "object" && "error" in result };
+  } catch (err) {
+    return {
+      result: {
+        error: err instanceof Error ? err.message : String(err),
+        ...(err instanceof BonnardError && { code: err.code }),
+      },
+      isError: true,
+    };
+  }
+}
+
+/** Serialize a tool result for a text content block. */
+export function resultText(result: unknown): string {
+  return typeof result === "string" ? result : JSON.stringify(result);
+}
+
+/** `runTool` for providers that send the arguments as a JSON string. */
+export async function runToolJson(tools: BonnardTool[], name: string, json: string | undefined): Promise<ToolOutcome> {
+  let args: unknown = {};
+  try {
+    if (json) args = JSON.parse(json);
+  } catch {
+    return { result: { error: "Tool arguments are not valid JSON. Retry with a JSON object matching the schema." }, isError: true };
+  }
+  return runTool(tools, name, args);
+}
@@ -1,2 +1,2 @@
 export { createTools } from "./tools.js";
-export type { BonnardTool, BonnardClient } from "./types.js";
+export type { BonnardTool, BonnardClient, CreateToolsOptions, ToolPolicy } from "./types.js";
@@ -0,0 +1,88 @@
+import type { z } from "zod";
+
+export type JsonSchema = { [key: string]: unknown };
+
+/** The parts of zod's internal definitions the conversion reads. */
+interface ZodDef {
+  typeName: string;
+  innerType?: z.ZodTypeAny;
+  schema?: z.ZodTypeAny;
+  type?: z.ZodTypeAny;
+  valueType?: z.ZodTypeAny;
+  options?: z.ZodTypeAny[];
+  values?: string[];
+  value?: unknown;
+  checks?: Array<{ kind: string; value?: number; inclusive?: boolean }>;
+  minLength?: { value: number } | null;
+  maxLength?: { value: number } | null;
+  defaultValue?: () => unknown;
+}
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+  const def = schema._def as ZodDef;
+  return def.typeName === "ZodOptional" || def.typeName === "ZodDefault";
+}
+
+/**
+ * Convert a zod schema to JSON Schema (draft 2020-12 subset) for protocols
+ * that describe tool inputs that way, such as MCP and provider tool APIs.
+ * Covers the types the Bonnard tools use; anything else becomes `{}`.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def as ZodDef;
+  const out = convert(schema, def);
+  if (schema.description) out.description = schema.description;
+  return out;
+}
+
+function convert(schema: z.ZodTypeAny, def: ZodDef): JsonSchema {
+  switch (def.typeName) {
+    case "ZodObject": {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const required = Object.keys(shape).filter((key) => !isOptional(shape[key]!));
+      return {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        ...(required.length > 0 && { required }),
+        additionalProperties: false,
+      };
+    }
+    case "ZodString":
+      return { type: "string" };
+    case "ZodNumber": {
+      const out: JsonSchema = { type: def.checks?.some((c) => c.kind === "int") ? "integer" : "number" };
+      for (const check of def.checks ?? []) {
+        if (check.kind === "min") out[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        if (check.kind === "max") out[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return out;
+    }
+    case "ZodBoolean":
+      return { type: "boolean" };
+    case "ZodEnum":
+      return { type: "string", enum: def.values };
+    case "ZodLiteral":
+      return { const: def.value };
+    case "ZodArray":
+      return {
+        type: "array",
+        items: toJsonSchema(def.type!),
+        ...(def.minLength && { minItems: def.minLength.value }),
+        ...(def.maxLength && { maxItems: def.maxLength.value }),
+      };
+    case "ZodRecord":
+      return { type: "object", additionalProperties: toJsonSchema(def.valueType!) };
+    case "ZodUnion":
+      return { anyOf: def.options!.map(toJsonSchema) };
+    case "ZodNullable":
+      return { anyOf: [toJsonSchema(def.innerType!), { type: "null" }] };
+    case "ZodOptional":
+      return toJsonSchema(def.innerType!);
+    case "ZodDefault":
+      return { ...toJsonSchema(def.innerType!), default: def.defaultValue!() };
+    case "ZodEffects":
+      return toJsonSchema(def.schema!);
+    default:
+      return {};
+  }
+}
@@ -1,6 +1,6 @@
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { createTools as createBonnardTools } from "./tools.js";
-import type { BonnardClient } from "./types.js";
+import type { BonnardClient, CreateToolsOptions } from "./types.js";
 
 /**
  * Create Bonnard tools for LangChain / LangGraph.
@@ -12,8 +12,8 @@ import type { BonnardClient } from "./types.js";
  * const agent = createReactAgent({ llm, tools: [...tools, ...myOtherTools] })
  * ```
  */
-export function createTools(client: BonnardClient) {
-  const bonnardTools = createBonnardTools(client);
+export function createTools(client: BonnardClient, options?: CreateToolsOptions) {
+  const bonnardTools = createBonnardTools(client, options);
 
   return bonnardTools.map(
     (t) =>
@@ -0,0 +1,279 @@
+import { createTools as createBonnardTools } from "./tools.js";
+import { toJsonSchema } from "./json-schema.js";
+import { runTool, resultText } from "./dispatch.js";
+import { BonnardError } from "../errors.js";
+import type { BonnardClient, CreateToolsOptions } from "./types.js";
+
+// Newest first; an unknown client version is answered with the newest
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const DOCS_URI_PREFIX = "bonnard://docs/";
+
+// JSON-RPC and MCP error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpServerOptions {
+  /** Server name reported to clients. Defaults to "bonnard". */
+  name?: string;
+  /** Server version reported to clients. */
+  version?: string;
+  /** Usage hints sent to the client on initialize. */
+  instructions?: string;
+  /** Options for the wrapped tools, e.g. `{ explain: true }`. */
+  tools?: CreateToolsOptions;
+  /**
+   * Browser origins allowed to call the HTTP transport. Requests without an
+   * `Origin` header and from localhost are always allowed.
+   */
+  allowedOrigins?: string[];
+}
+
+export interface McpHttpServerOptions {
+  /** Defaults to 3000. Pass 0 for a random free port. */
+  port?: number;
+  /** Defaults to 127.0.0.1, so the server is not reachable from other machines. */
+  host?: string;
+  /** Endpoint path. Defaults to "/mcp". */
+  path?: string;
+}
+
+export interface McpServer {
+  /**
+   * Handle one JSON-RPC message (or a batch). Resolves to the response, or
+   * null for notifications.
+   */
+  handle(message: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null>;
+  /** Streamable HTTP transport as a fetch handler: POST JSON-RPC, get JSON back. */
+  handleHttp(request: Request): Promise<Response>;
+  /** Serve newline-delimited JSON-RPC on stdin/stdout until the input closes. */
+  serveStdio(options?: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream }): Promise<void>;
+  /** Start a Node HTTP server for the streamable HTTP transport. */
+  serveHttp(options?: McpHttpServerOptions): Promise<{ url: string; close: () => Promise<void> }>;
+}
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+function isLocalOrigin(origin: string): boolean {
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a Model Context Protocol server exposing the Bonnard tools, with
+ * `docs()` topics as `bonnard://docs/{topic}` resources.
+ *
+ * ```ts
+ * import { createMcpServer } from "@bonnard/sdk/ai/mcp"
+ * await createMcpServer(bonnardClient).serveStdio()
+ * ```
+ */
+export function createMcpServer(client: BonnardClient, options: McpServerOptions = {}): McpServer {
+  const tools = createBonnardTools(client, options.tools);
+  const serverInfo = { name: options.name ?? "bonnard", version: options.version ?? "0.0.0" };
+
+  async function callTool(params: { name?: unknown; arguments?: unknown }): Promise<unknown> {
+    if (typeof params.name !== "string" || !tools.some((t) => t.name === params.name)) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool '${String(params.name)}'`);
+    }
+    const { result, isError } = await runTool(tools, params.name, params.arguments);
+    return { content: [{ type: "text", text: resultText(result) }], ...(isError && { isError: true }) };
+  }
+
+  async function listResources(): Promise<unknown> {
+    const result = await client.docs();
+    const topics = "topics" in result ? result.topics : [];
+    return {
+      resources: topics.map((t) => ({
+        uri: `${DOCS_URI_PREFIX}${t.id}`,
+        name: t.id,
+        title: t.title,
+        ...(t.description && { description: t.description }),
+        mimeType: "text/markdown",
+      })),
+    };
+  }
+
+  async function readResource(params: { uri?: unknown }): Promise<unknown> {
+    const uri = typeof params.uri === "string" ? params.uri : "";
+    if (!uri.startsWith(DOCS_URI_PREFIX)) throw new RpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    try {
+      const result = await client.docs({ topic: uri.slice(DOCS_URI_PREFIX.length) });
+      if (!("topic" in result)) throw new RpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+      return { contents: [{ uri, mimeType: "text/markdown", text: result.topic.content }] };
+    } catch (err) {
+      if (err instanceof BonnardError && err.status === 404) throw new RpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+      throw err;
+    }
+  }
+
+  async function dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: typeof requested === "string" && PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo,
+          ...(options.instructions && { instructions: options.instructions }),
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: tools.map((t) => ({ name: t.name, description: t.description, inputSchema: toJsonSchema(t.schema) })),
+        };
+      case "tools/call":
+        return callTool(params);
+      case "resources/list":
+        return listResources();
+      case "resources/templates/list":
+        return { resourceTemplates: [] };
+      case "resources/read":
+        return readResource(params);
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  async function handleOne(message: unknown): Promise<JsonRpcResponse | null> {
+    const msg = (message ?? {}) as { jsonrpc?: unknown; id?: JsonRpcId; method?: unknown; params?: unknown };
+    const id = msg.id ?? null;
+    if (typeof message !== "object" || msg.jsonrpc !== "2.0" || typeof msg.method !== "string") {
+      // Responses to server requests are not expected; ignore them
+      if (msg.jsonrpc === "2.0" && msg.id !== undefined && ("result" in msg || "error" in msg)) return null;
+      return { jsonrpc: "2.0", id, error: { code: INVALID_REQUEST, message: "Invalid request" } };
+    }
+    // Notifications (no id) get no response
+    const isNotification = msg.id === undefined;
+    try {
+      const result = await dispatch(msg.method, (msg.params ?? {}) as Record<string, unknown>);
+      return isNotification ? null : { jsonrpc: "2.0", id, result };
+    } catch (err) {
+      if (isNotification) return null;
+      const code = err instanceof RpcError ? err.code : INTERNAL_ERROR;
+      return { jsonrpc: "2.0", id, error: { code, message: err instanceof Error ? err.message : String(err) } };
+    }
+  }
+
+  async function handle(message: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (!Array.isArray(message)) return handleOne(message);
+    if (message.length === 0) return { jsonrpc: "2.0", id: null, error: { code: INVALID_REQUEST, message: "Empty batch" } };
+    const responses = (await Promise.all(message.map(handleOne))).filter((r): r is JsonRpcResponse => r !== null);
+    return responses.length > 0 ? responses : null;
+  }
+
+  function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+  }
+
+  async function handleHttp(request: Request): Promise<Response> {
+    // Guard against DNS rebinding from browser pages
+    const origin = request.headers.get("origin");
+    if (origin && !isLocalOrigin(origin) && !options.allowedOrigins?.includes(origin)) {
+      return json({ jsonrpc: "2.0", id: null, error: { code: INVALID_REQUEST, message: "Origin not allowed" } }, 403);
+    }
+    // Stateless server: no server-initiated SSE stream and no sessions to delete
+    if (request.method !== "POST") {
+      return new Response(null, { status: 405, headers: { Allow: "POST" } });
+    }
+
+    let message: unknown;
+    try {
+      message = await request.json();
+    } catch {
+      return json({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } }, 400);
+    }
+    const response = await handle(message);
+    return response ? json(response) : new Response(null, { status: 202 });
+  }
+
+  async function serveStdio(stdio: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {}): Promise<void> {
+    const { createInterface } = await import("node:readline");
+    const input = stdio.input ?? process.stdin;
+    const output = stdio.output ?? process.stdout;
+    const write = (response: unknown) => output.write(JSON.stringify(response) + "\n");
+    const pending = new Set<Promise<void>>();
+
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) continue;
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        write({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+        continue;
+      }
+      // Requests run concurrently; each response is written as one line when ready
+      const task = handle(message).then((response) => {
+        if (response) write(response);
+      });
+      pending.add(task);
+      void task.finally(() => pending.delete(task));
+    }
+    await Promise.all(pending);
+  }
+
+  async function serveHttp(http: McpHttpServerOptions = {}): Promise<{ url: string; close: () => Promise<void> }> {
+    const { createServer } = await import("node:http");
+    const host = http.host ?? "127.0.0.1";
+    const path = http.path ?? "/mcp";
+
+    const server = createServer(async (req, res) => {
+      const url = new URL(req.url ?? "/", `http://${req.headers.host ?? host}`);
+      if (url.pathname !== path) {
+        res.writeHead(404).end();
+        return;
+      }
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const headers = new Headers();
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (typeof value === "string") headers.set(key, value);
+        else if (Array.isArray(value)) headers.set(key, value.join(", "));
+      }
+      const response = await handleHttp(new Request(url, {
+        method: req.method,
+        headers,
+        ...(chunks.length > 0 && { body: Buffer.concat(chunks) }),
+      }));
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(await response.text());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(http.port ?? 3000, host, () => resolve());
+    });
+    const address = server.address();
+    const port = typeof address === "object" && address ? address.port : http.port;
+    return {
+      url: `http://${host}:${port}${path}`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+    };
+  }
+
+  return { handle, handleHttp, serveStdio, serveHttp };
+}
@@ -0,0 +1,156 @@
+import type { ExploreMeta, CubeMetaItem, CubeFieldMeta, CubeSegmentMeta } from "../types.js";
+import { editDistance } from "../validate.js";
+import type { BonnardClient, CreateToolsOptions } from "./types.js";
+import type { Policy } from "./policy.js";
+
+const DEFAULT_META_TTL_MS = 5 * 60_000;
+
+/**
+ * Schema metadata for the tools, fetched once per `metaTtlMs` (concurrent
+ * calls share one request) and narrowed to the sources and members the
+ * options and policy let the model see. Every tool lists, validates and
+ * lints against this one copy, so a source hidden from the listing is
+ * unknown to queries too.
+ */
+export function createMetaLoader(client: BonnardClient, options: CreateToolsOptions, policy: Policy): () => Promise<ExploreMeta> {
+  const ttlMs = options.metaTtlMs ?? DEFAULT_META_TTL_MS;
+  let cached: { meta: Promise<ExploreMeta>; expiresAt: number } | null = null;
+
+  // `options.sources` is part of the policy's source check
+  const visible = (cube: CubeMetaItem) => (!options.viewsOnly || cube.type === "view") && policy.sourceAllowed(cube.name);
+  const narrow = (cube: CubeMetaItem): CubeMetaItem => ({
+    ...cube,
+    measures: cube.measures.filter((m) => policy.memberAllowed(m.name)),
+    dimensions: cube.dimensions.filter((d) => policy.memberAllowed(d.name)),
+    segments: cube.segments.filter((s) => policy.memberAllowed(s.name)),
+  });
+
+  return () => {
+    const now = Date.now();
+    if (cached && now < cached.expiresAt) return cached.meta;
+    const meta = client.explore({ viewsOnly: false }).then((m) => ({ cubes: m.cubes.filter(visible).map(narrow) }));
+    cached = { meta, expiresAt: ttlMs > 0 ? now + ttlMs : now };
+    // A failed fetch is retried on the next call rather than cached for the TTL
+    meta.catch(() => {
+      if (cached?.meta === meta) cached = null;
+    });
+    return meta;
+  };
+}
+
+/** Rough token count of a tool output: ~4 characters of JSON per token. */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil((JSON.stringify(value)?.length ?? 0) / 4);
+}
+
+/**
+ * The longest prefix of `items` whose JSON fits in `maxTokens`, after
+ * `overhead` tokens for the surrounding output.
+ */
+export function fitToTokens<T>(items: T[], maxTokens: number, overhead = 0): T[] {
+  let budget = (maxTokens - overhead) * 4;
+  const out: T[] = [];
+  for (const item of items) {
+    budget -= JSON.stringify(item).length + 1;
+    if (budget < 0) break;
+    out.push(item);
+  }
+  return out;
+}
+
+export interface SearchHit {
+  source: string;
+  sourceType: string;
+  field: string;
+  kind: "measure" | "dimension" | "segment";
+  type: string;
+  title?: string;
+  description?: string;
+}
+
+/** `meta.synonyms` as a list; a string is split on commas. */
+function synonymsOf(field: CubeFieldMeta | CubeSegmentMeta): string[] {
+  const synonyms = (field as CubeFieldMeta).meta?.synonyms;
+  if (Array.isArray(synonyms)) return synonyms.filter((s): s is string => typeof s === "string");
+  if (typeof synonyms === "string") return synonyms.split(",").map((s) => s.trim()).filter(Boolean);
+  return [];
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** How well one search term matches a text: exact word > prefix > substring > typo. */
+function termScore(term: string, text: string | undefined, weight: number): number {
+  if (!text) return 0;
+  const lower = text.toLowerCase();
+  const ws = words(lower);
+  if (ws.includes(term)) return weight;
+  if (ws.some((w) => w.startsWith(term))) return weight * 0.8;
+  if (lower.includes(term)) return weight * 0.6;
+  // One typo in a term of five or more characters
+  if (term.length >= 5 && ws.some((w) => Math.abs(w.length - term.length) <= 1 && editDistance(w, term) === 1)) return weight * 0.4;
+  return 0;
+}
+
+/**
+ * Rank every measure, dimension and segment against `query`. Each term is
+ * scored against the short name, title, `meta.synonyms` and description
+ * (weighted in that order) and a field must match every term. Ties keep
+ * views ahead of cubes, then schema order.
+ */
+export function searchFields(meta: ExploreMeta, query: string, limit: number): SearchHit[] {
+  const terms = words(query);
+  if (terms.length === 0) return [];
+  const phrase = terms.join(" ");
+
+  const scored: Array<{ hit: SearchHit; score: number; order: number }> = [];
+  for (const cube of meta.cubes) {
+    const sourceType = cube.type === "view" ? "view" : "cube";
+    const fields: Array<[CubeFieldMeta | CubeSegmentMeta, SearchHit["kind"], string]> = [
+      ...cube.measures.map((m) => [m, "measure", m.type] as [CubeFieldMeta, SearchHit["kind"], string]),
+      ...cube.dimensions.map((d) => [d, "dimension", d.type] as [CubeFieldMeta, SearchHit["kind"], string]),
+      ...cube.segments.map((s) => [s, "segment", "segment"] as [CubeSegmentMeta, SearchHit["kind"], string]),
+    ];
+    for (const [field, kind, type] of fields) {
+      const shortName = field.name.slice(field.name.indexOf(".") + 1);
+      const synonyms = synonymsOf(field).join(" ");
+      let score = 0;
+      let matchedAll = true;
+      for (const term of terms) {
+        const best = Math.max(
+          termScore(term, shortName.replace(/_/g, " "), 10),
+          termScore(term, field.title, 8),
+          termScore(term, synonyms, 7),
+          termScore(term, field.description, 3),
+          termScore(term, cube.name.replace(/_/g, " "), 2)
+        );
+        if (best === 0) matchedAll = false;
+        score += best;
+      }
+      if (!matchedAll) continue;
+      // The whole query naming the field outright beats scattered term matches
+      if (shortName.replace(/_/g, " ").toLowerCase() === phrase || field.title?.toLowerCase() === phrase) score += 10;
+      if (sourceType === "view") score += 0.5;
+
+      scored.push({
+        hit: {
+          source: cube.name,
+          sourceType,
+          field: field.name,
+          kind,
+          type,
+          ...(field.title && { title: field.title }),
+          ...(field.description && { description: field.description }),
+        },
+        score,
+        order: scored.length,
+      });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, limit)
+    .map((s) => s.hit);
+}
@@ -0,0 +1,114 @@
+import { createTools as createBonnardTools } from "./tools.js";
+import { toJsonSchema, type JsonSchema } from "./json-schema.js";
+import { runToolJson, resultText } from "./dispatch.js";
+import type { BonnardClient, CreateToolsOptions } from "./types.js";
+
+// Structural subsets of the `openai` package types, so it isn't a dependency
+
+/** A tool for `chat.completions.create({ tools })`. */
+export interface ChatCompletionTool {
+  type: "function";
+  function: { name: string; description: string; parameters: JsonSchema };
+}
+
+/** A tool for `responses.create({ tools })`. */
+export interface ResponsesFunctionTool {
+  type: "function";
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  strict: false;
+}
+
+export interface ChatCompletionMessageToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** A Chat Completions response, or any message with `tool_calls`. */
+export interface ChatCompletionLike {
+  choices: Array<{ message: { tool_calls?: ChatCompletionMessageToolCall[] | null } }>;
+}
+
+/** A Responses API response, or its `output` items. */
+export interface ResponseLike {
+  output: Array<{ type: string; call_id?: string; name?: string; arguments?: string }>;
+}
+
+export interface ChatCompletionToolMessage {
+  role: "tool";
+  tool_call_id: string;
+  content: string;
+}
+
+export interface FunctionCallOutput {
+  type: "function_call_output";
+  call_id: string;
+  output: string;
+}
+
+export interface OpenAIToolsOptions extends CreateToolsOptions {
+  /** Which API the tool definitions are for. Defaults to "chat" (Chat Completions). */
+  api?: "chat" | "responses";
+}
+
+export interface OpenAITools<T> {
+  /** Tool definitions to pass as `tools`. */
+  tools: T[];
+  /**
+   * Run every Bonnard tool call in a response and build the result
+   * messages to append to the conversation. Failures become results the
+   * model can read (`{"error": ...}`), never exceptions. Calls to tools
+   * not created here are skipped, so other tools can be handled alongside.
+   */
+  handleToolCalls: {
+    (response: ChatCompletionLike): Promise<ChatCompletionToolMessage[]>;
+    (response: ResponseLike): Promise<FunctionCallOutput[]>;
+  };
+}
+
+/**
+ * Create Bonnard tools for the OpenAI API, without the Vercel AI SDK.
+ *
+ * ```ts
+ * import { createTools } from "@bonnard/sdk/ai/openai"
+ * const bonnard = createTools(bonnardClient)
+ * const completion = await openai.chat.completions.create({ model, messages, tools: bonnard.tools })
+ * messages.push(completion.choices[0].message, ...(await bonnard.handleToolCalls(completion)))
+ * ```
+ *
+ * Pass `{ api: "responses" }` for the Responses API; `handleToolCalls` then
+ * returns `function_call_output` items.
+ */
+export function createTools(client: BonnardClient, options: OpenAIToolsOptions & { api: "responses" }): OpenAITools<ResponsesFunctionTool>;
+export function createTools(client: BonnardClient, options?: OpenAIToolsOptions): OpenAITools<ChatCompletionTool>;
+export function createTools(client: BonnardClient, options: OpenAIToolsOptions = {}): OpenAITools<ChatCompletionTool | ResponsesFunctionTool> {
+  const bonnardTools = createBonnardTools(client, options);
+  const names = new Set(bonnardTools.map((t) => t.name));
+
+  const tools = bonnardTools.map((t): ChatCompletionTool | ResponsesFunctionTool => {
+    const parameters = toJsonSchema(t.schema);
+    return options.api === "responses"
+      ? { type: "function", name: t.name, description: t.description, parameters, strict: false }
+      : { type: "function", function: { name: t.name, description: t.description, parameters } };
+  });
+
+  async function handleToolCalls(response: ChatCompletionLike | ResponseLike): Promise<Array<ChatCompletionToolMessage | FunctionCallOutput>> {
+    if ("output" in response) {
+      const calls = response.output.filter((item) => item.type === "function_call" && names.has(item.name ?? ""));
+      return Promise.all(calls.map(async (call): Promise<FunctionCallOutput> => {
+        const { result } = await runToolJson(bonnardTools, call.name!, call.arguments);
+        return { type: "function_call_output", call_id: call.call_id!, output: resultText(result) };
+      }));
+    }
+
+    const calls = (response.choices[0]?.message.tool_calls ?? []).filter((call) => names.has(call.function.name));
+    return Promise.all(calls.map(async (call): Promise<ChatCompletionToolMessage> => {
+      const { result } = await runToolJson(bonnardTools, call.function.name, call.function.arguments);
+      return { role: "tool", tool_call_id: call.id, content: resultText(result) };
+    }));
+  }
+
+  return { tools, handleToolCalls: handleToolCalls as OpenAITools<ChatCompletionTool>["handleToolCalls"] };
+}
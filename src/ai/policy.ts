@@ -0,0 +1,278 @@
+import type { CubeQuery, CubeFilter } from "../types.js";
+import { sqlAccess } from "../sql-lint.js";
+import type { ToolPolicy } from "./types.js";
+
+export const REDACTED = "[redacted]";
+
+export interface PolicyViolation {
+  /** Location in the query (e.g. `dimensions[0]`) or `sql`. */
+  path: string;
+  /** Offending member, source or statement. */
+  value: string;
+  message: string;
+}
+
+const GRANULARITIES = new Set(["second", "minute", "hour", "day", "week", "month", "quarter", "year"]);
+
+// Writes that can hide inside a SELECT or WITH statement (data-modifying CTEs, SELECT INTO)
+const WRITE_KEYWORDS = new Set(["insert", "update", "delete", "merge", "create", "alter", "drop", "truncate", "grant", "revoke", "copy", "into"]);
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function sourceOf(member: string): string {
+  return member.split(".")[0]!;
+}
+
+/** `orders.created_at.month` → `orders.created_at`. */
+function baseMember(key: string): string {
+  const parts = key.split(".");
+  return parts.length > 2 && GRANULARITIES.has(parts[parts.length - 1]!) ? parts.slice(0, -1).join(".") : key;
+}
+
+/** Whether a member pattern can match some member of `source`. */
+function reachesSource(pattern: string, source: string): boolean {
+  const prefix = `${source}.`.toLowerCase();
+  const [head, ...rest] = pattern.toLowerCase().split("*");
+  if (rest.length === 0) return head!.startsWith(prefix);
+  return head!.length <= prefix.length ? prefix.startsWith(head!) : head!.startsWith(prefix);
+}
+
+/** Member names in patterns without wildcards, e.g. `email` from `customers.email`. */
+function literalColumns(patterns: string[]): string[] {
+  return patterns.filter((p) => !p.includes("*") && p.includes(".")).map((p) => p.slice(p.indexOf(".") + 1));
+}
+
+/**
+ * Policy checks bound to one policy, shared by every tool. `sources` is
+ * `createTools`' own allowlist, enforced alongside `allowedSources`.
+ */
+export function createPolicy(policy: ToolPolicy = {}, sources?: string[]) {
+  const compile = (patterns: string[] | undefined) => patterns?.map(globToRegExp);
+  const listedSources = sources && new Set(sources);
+  const allowedSources = compile(policy.allowedSources);
+  const deniedSources = compile(policy.deniedSources) ?? [];
+  const allowedMembers = compile(policy.allowedMembers);
+  const deniedMembers = compile(policy.deniedMembers) ?? [];
+  const redacted = compile(policy.redact) ?? [];
+  const maxRows = policy.maxRows ?? 5000;
+  const readOnlySql = policy.readOnlySql ?? true;
+  const mandatoryFilters = policy.mandatoryFilters ?? [];
+
+  const anyMatch = (patterns: RegExp[], name: string) => patterns.some((p) => p.test(name));
+  // Words to read as column names in SQL even where they are keywords
+  const columnNames = literalColumns([...policy.deniedMembers ?? [], ...policy.redact ?? []]);
+
+  function sourceAllowed(source: string): boolean {
+    return (!listedSources || listedSources.has(source)) &&
+      (!allowedSources || anyMatch(allowedSources, source)) && !anyMatch(deniedSources, source);
+  }
+
+  function memberAllowed(member: string): boolean {
+    return sourceAllowed(sourceOf(member)) &&
+      (!allowedMembers || anyMatch(allowedMembers, member)) && !anyMatch(deniedMembers, member);
+  }
+
+  function isRedacted(key: string): boolean {
+    return anyMatch(redacted, baseMember(key));
+  }
+
+  /** Whether some members of `source` are denied, or left out of `allowedMembers`. */
+  function hidesMembers(source: string): boolean {
+    // A probe name no member pattern names explicitly, so only a wildcard covers it
+    const allAllowed = !allowedMembers || anyMatch(allowedMembers, `${source}.\u0000`);
+    return !allAllowed || (policy.deniedMembers ?? []).some((p) => reachesSource(p, source));
+  }
+
+  function redactsMembers(source: string): boolean {
+    return (policy.redact ?? []).some((p) => reachesSource(p, source));
+  }
+
+  function memberViolation(path: string, member: string): PolicyViolation | null {
+    if (!sourceAllowed(sourceOf(member))) {
+      return { path, value: member, message: `Source '${sourceOf(member)}' is not available to this agent` };
+    }
+    if (!memberAllowed(member)) return { path, value: member, message: `'${member}' is not available to this agent` };
+    return null;
+  }
+
+  /** Members and segments in a query the policy doesn't allow. */
+  function checkQuery(query: CubeQuery): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const check = (path: string, member: string) => {
+      const violation = memberViolation(path, member);
+      if (violation) violations.push(violation);
+    };
+    query.measures?.forEach((m, i) => check(`measures[${i}]`, m));
+    query.dimensions?.forEach((d, i) => check(`dimensions[${i}]`, d));
+    query.timeDimensions?.forEach((td, i) => check(`timeDimensions[${i}].dimension`, td.dimension));
+    query.segments?.forEach((s, i) => check(`segments[${i}]`, s));
+    const orderKeys = Array.isArray(query.order) ? query.order.map(([k]) => k) : Object.keys(query.order ?? {});
+    orderKeys.forEach((key) => check(`order["${key}"]`, baseMember(key)));
+
+    // Filtering or sorting on a redacted member would reveal its values one guess at a time
+    const checkRedacted = (path: string, member: string, use: string) => {
+      if (isRedacted(member) && memberAllowed(member)) {
+        violations.push({ path, value: member, message: `'${member}' is redacted and can't be ${use}` });
+      }
+    };
+    query.timeDimensions?.forEach((td, i) => {
+      if (td.dateRange !== undefined) checkRedacted(`timeDimensions[${i}].dateRange`, td.dimension, "filtered on");
+    });
+    orderKeys.forEach((key) => checkRedacted(`order["${key}"]`, baseMember(key), "sorted on"));
+
+    const checkFilter = (filter: CubeFilter, path: string): void => {
+      if ("and" in filter) return filter.and.forEach((f, i) => checkFilter(f, `${path}.and[${i}]`));
+      if ("or" in filter) return filter.or.forEach((f, i) => checkFilter(f, `${path}.or[${i}]`));
+      check(`${path}.member`, filter.member);
+      checkRedacted(`${path}.member`, filter.member, "filtered on");
+    };
+    query.filters?.forEach((f, i) => checkFilter(f, `filters[${i}]`));
+    return violations;
+  }
+
+  /** The query with the row limit capped and mandatory filters for its sources added. */
+  function enforceQuery(query: CubeQuery): CubeQuery {
+    const sources = new Set([
+      ...(query.measures ?? []),
+      ...(query.dimensions ?? []),
+      ...(query.timeDimensions ?? []).map((td) => td.dimension),
+      ...(query.segments ?? []),
+    ].map(sourceOf));
+    // A group's source is its first member's; an empty group has none and is skipped
+    const filterSource = (filter: CubeFilter | undefined): string | undefined =>
+      !filter ? undefined
+      : "and" in filter ? filterSource(filter.and[0])
+      : "or" in filter ? filterSource(filter.or[0])
+      : sourceOf(filter.member);
+    const required = mandatoryFilters.filter((f) => {
+      const source = filterSource(f);
+      return source !== undefined && sources.has(source);
+    });
+
+    return {
+      ...query,
+      limit: Math.min(query.limit ?? maxRows, maxRows),
+      ...(required.length > 0 && { filters: [...(query.filters ?? []), ...required] }),
+    };
+  }
+
+  /**
+   * Statements, sources and members in a SQL query the policy doesn't
+   * allow. Columns are matched by name, so a denied member's short name
+   * anywhere in a query on its source is rejected. On a source with denied
+   * or redacted members, the query must list its columns in a single
+   * `SELECT` so they can be traced, and redacted members can't be used to
+   * filter or sort.
+   */
+  function checkSql(sql: string): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const add = (violation: PolicyViolation) => {
+      if (!violations.some((v) => v.value === violation.value && v.message === violation.message)) violations.push(violation);
+    };
+    const access = sqlAccess(sql, columnNames);
+
+    if (readOnlySql) {
+      if (access.statements > 1) {
+        add({ path: "sql", value: sql, message: "Only a single statement is allowed; remove the extra statements" });
+      }
+      const write = access.words.find((w) => WRITE_KEYWORDS.has(w));
+      if (!["select", "with"].includes(access.keyword) || write) {
+        add({ path: "sql", value: write ?? access.keyword, message: "Only read-only SELECT queries are allowed" });
+      }
+    }
+
+    // Tables are views or cubes; columns are their members' short names
+    for (const table of access.tables) {
+      if (!sourceAllowed(table)) add({ path: "sql", value: table, message: `Source '${table}' is not available to this agent` });
+      for (const id of access.identifiers) {
+        const member = `${table}.${id.toLowerCase()}`;
+        if (anyMatch(deniedMembers, member)) add({ path: "sql", value: member, message: `'${member}' is not available to this agent` });
+      }
+
+      if (!hidesMembers(table) && !redactsMembers(table)) continue;
+      if (access.star) {
+        add({ path: "sql", value: "*", message: `'*' would return columns of '${table}' that are not available to this agent; list the columns you need` });
+      } else if (!access.projection) {
+        add({
+          path: "sql",
+          value: table,
+          message: `Can't tell which columns of '${table}' this query returns; use a single SELECT on '${table}' that lists its columns, without CTEs, subqueries, UNION or JOIN`,
+        });
+      }
+    }
+
+    // Filtering or sorting on a redacted member would reveal its values
+    const { table, predicates } = access.projection ?? { table: "", predicates: [] };
+    for (const { clause, columns } of predicates) {
+      for (const column of columns) {
+        const member = `${table}.${column}`;
+        if (isRedacted(member)) {
+          add({ path: "sql", value: member, message: `'${member}' is redacted and can't be used in ${clause.toUpperCase()}` });
+        }
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * Keys of SQL result columns computed from a redacted member. Output
+   * columns are traced to their source through the select list, so aliases
+   * and expressions are covered; when they can't be, every column is.
+   */
+  function redactedSqlColumns(keys: string[], sql: string): string[] {
+    const access = sqlAccess(sql, columnNames);
+    if (!access.tables.some(redactsMembers)) return [];
+    const projection = access.projection;
+    if (!projection) return keys;
+
+    const hidden = projection.outputs.map((o) => o.columns.some((c) => isRedacted(`${projection.table}.${c}`)));
+    if (!hidden.includes(true)) return [];
+    // Row keys follow the select list, unless names collide or integer-like keys are reordered
+    const aligned = keys.length === projection.outputs.length && !keys.some((k) => /^\d+$/.test(k)) &&
+      projection.outputs.every((o, i) => o.name === undefined || o.name.toLowerCase() === keys[i]!.toLowerCase());
+    return aligned ? keys.filter((_, i) => hidden[i]) : keys;
+  }
+
+  /**
+   * Replace redacted values. Query rows are keyed by member; SQL rows are
+   * traced through the select list of `sql`.
+   */
+  function redactRows<R extends Record<string, unknown>>(rows: R[], sql?: string): R[] {
+    if (redacted.length === 0 || rows.length === 0) return rows;
+    const keys = Object.keys(rows[0]!);
+    const hidden = sql ? redactedSqlColumns(keys, sql) : keys.filter(isRedacted);
+    if (hidden.length === 0) return rows;
+    return rows.map((row) => {
+      const out: Record<string, unknown> = { ...row };
+      for (const key of hidden) if (out[key] !== null && out[key] !== undefined) out[key] = REDACTED;
+      return out as R;
+    });
+  }
+
+  return {
+    sourceAllowed,
+    memberAllowed,
+    checkQuery,
+    enforceQuery,
+    checkSql,
+    redactRows,
+    /** Most rows a query or SQL call may return. */
+    maxRows,
+    toolEnabled: (name: string) => !policy.tools || policy.tools.includes(name),
+    hasMandatoryFilters: mandatoryFilters.length > 0,
+  };
+}
+
+export type Policy = ReturnType<typeof createPolicy>;
+
+/** Tool error for a call the policy rejected, listing each violation. */
+export function policyErrorResponse(violations: PolicyViolation[]): Record<string, unknown> {
+  return {
+    error: "Blocked by policy. Change the request to avoid the items below; retrying it unchanged will fail again.",
+    code: "policy_violation",
+    violations: violations.map((v) => ({ path: v.path, value: v.value, message: v.message })),
+  };
+}
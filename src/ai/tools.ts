@@ -1,39 +1,160 @@
 import { z } from "zod";
-import type { BonnardClient, BonnardTool } from "./types.js";
+import { BonnardError, QueryValidationError } from "../errors.js";
+import { parseRows, toNumber } from "../parse.js";
+import { stripPrefixes } from "../results.js";
+import { toMarkdownTable } from "../export.js";
+import { suggestChart } from "../chart.js";
+import { lintSql } from "../sql-lint.js";
+import { createMetaLoader, searchFields, estimateTokens, fitToTokens } from "./meta.js";
+import { createPolicy, policyErrorResponse, type Policy } from "./policy.js";
+import { validateQuery } from "../validate.js";
+import type { QueryAnnotation, CubeQuery, ExploreMeta } from "../types.js";
+import type { ValidationIssue } from "../validate.js";
+import type { SqlLintResult } from "../sql-lint.js";
+import type { BonnardClient, BonnardTool, CreateToolsOptions } from "./types.js";
 
 // --- Shared helpers ---
 
 const MAX_ROWS = 250;
+const MAX_SEARCH = 50;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4000;
 
+function roundNumber(num: number): number {
+  return Number.isInteger(num) ? num : Math.round(num * 100) / 100;
+}
+
+// Without an annotation (SQL results), any numeric-looking string is treated as a number
 function normalizeValue(val: unknown): unknown {
   if (val === null || val === undefined) return null;
-  if (typeof val === "number") {
-    if (!Number.isInteger(val)) return Math.round(val * 100) / 100;
-    return val;
-  }
-  if (typeof val === "string" && val !== "" && !isNaN(Number(val))) {
-    const num = Number(val);
-    if (!Number.isInteger(num)) return Math.round(num * 100) / 100;
-    return num;
+  if (typeof val === "number") return roundNumber(val);
+  if (typeof val === "string") {
+    const num = toNumber(val, false);
+    if (typeof num === "number") return roundNumber(num);
   }
   return val;
 }
 
-function stripPrefixes(rows: Record<string, unknown>[]): Record<string, unknown>[] {
-  if (rows.length === 0) return rows;
-  const keys = Object.keys(rows[0]);
-  return rows.map((row) => {
-    const cleaned: Record<string, unknown> = {};
-    for (const key of keys) {
-      const shortKey = key.split(".").pop() || key;
-      cleaned[shortKey] = normalizeValue(row[key]);
-    }
-    return cleaned;
-  });
+/**
+ * Shorten keys to the field name and normalize values for the model. With an
+ * annotation, values are coerced by member type first (so numeric-looking
+ * string dimensions such as zip codes stay strings); dates stay ISO strings.
+ */
+function toModelRows(rows: Record<string, unknown>[], annotation?: QueryAnnotation): Record<string, unknown>[] {
+  const normalized = annotation
+    ? parseRows(rows, annotation, { bigint: false, dates: false }).map((row) => mapValues(row, (val) =>
+      typeof val === "number" ? roundNumber(val) : (val ?? null)))
+    : rows.map((row) => mapValues(row, normalizeValue));
+  return stripPrefixes(normalized);
+}
+
+function mapValues(row: Record<string, unknown>, fn: (val: unknown) => unknown): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(row)) out[key] = fn(row[key]);
+  return out;
+}
+
+/**
+ * Tool error for a query rejected by schema validation, with suggested fixes
+ * per issue. Suggestions naming members the policy hides are left out.
+ */
+function validationErrorResponse(issues: ValidationIssue[], policy: Policy): Record<string, unknown> {
+  return {
+    error: "Invalid query. Fix the issues below and retry; use explore_schema if no suggestion fits.",
+    code: "query_validation",
+    issues: issues.map((i) => {
+      const suggestions = i.suggestions.filter((s) => !s.includes(".") || policy.memberAllowed(s));
+      if (suggestions.length === i.suggestions.length) return { path: i.path, message: i.message, suggestions };
+      const message = i.message.replace(/\. Did you mean .*$/, "") +
+        (suggestions.length > 0 ? `. Did you mean ${suggestions.map((s) => `'${s}'`).join(" or ")}?` : "");
+      return { path: i.path, message, suggestions };
+    }),
+  };
+}
+
+/** Tool error for SQL rejected by the linter, with the corrected query when there is one. */
+function sqlLintErrorResponse(lint: SqlLintResult): Record<string, unknown> {
+  return {
+    error: lint.fixedSql
+      ? "Invalid SQL. Run suggested_sql if it matches what you meant, or fix the issues below."
+      : "Invalid SQL. Fix the issues below and retry; use explore_schema if no suggestion fits.",
+    code: "query_validation",
+    issues: lint.issues.map((i) => ({ clause: i.clause, value: i.value, message: i.message, suggestions: i.suggestions })),
+    ...(lint.fixedSql && { suggested_sql: lint.fixedSql }),
+  };
+}
+
+type QueryArgs = z.infer<typeof querySchema>;
+
+/** Build a Cube query from tool arguments, accepting the aliases the schema allows. */
+function buildCubeQuery(args: Omit<QueryArgs, "format">): CubeQuery {
+  // Normalize singular timeDimension → timeDimensions array
+  const timeDims = args.timeDimensions
+    || (args.timeDimension ? [args.timeDimension] : undefined);
+
+  // Normalize filter dimension → member
+  const filters = args.filters?.map((f) => ({
+    member: (f.member || f.dimension)!,
+    operator: f.operator,
+    values: f.values,
+  })).filter((f) => f.member);
+
+  const cubeQuery: CubeQuery = {};
+  if (args.measures && args.measures.length > 0) cubeQuery.measures = args.measures;
+  if (args.dimensions) cubeQuery.dimensions = args.dimensions;
+  if (timeDims) cubeQuery.timeDimensions = timeDims as CubeQuery["timeDimensions"];
+  if (filters && filters.length > 0) cubeQuery.filters = filters;
+  if (args.segments) cubeQuery.segments = args.segments;
+  cubeQuery.limit = args.limit || MAX_ROWS;
+  if (args.offset) cubeQuery.offset = args.offset;
+  if (args.order) {
+    cubeQuery.order = Object.fromEntries(args.order.map((o) => [o.field, o.direction]));
+  }
+  return cubeQuery;
+}
+
+/**
+ * Run a query-shaped tool call under the policy: rejected queries and
+ * validation failures become tool errors, and `run` gets the query with the
+ * policy's row cap and mandatory filters applied.
+ */
+async function withQueryValidation(
+  loadMeta: () => Promise<ExploreMeta>,
+  policy: Policy,
+  cubeQuery: CubeQuery,
+  run: (cubeQuery: CubeQuery) => Promise<Record<string, unknown>>
+): Promise<Record<string, unknown>> {
+  const violations = policy.checkQuery(cubeQuery);
+  if (violations.length > 0) return policyErrorResponse(violations);
+  const enforced = policy.enforceQuery(cubeQuery);
+
+  // Catch typos before the round trip and hand the model concrete fixes,
+  // checked against the schema the model can see
+  const meta = await loadMeta().catch(() => null);
+  const validation = meta && validateQuery(enforced, meta);
+  if (validation && !validation.valid) return validationErrorResponse(validation.issues, policy);
+
+  try {
+    return await run(enforced);
+  } catch (err) {
+    if (!(err instanceof QueryValidationError)) throw err;
+    return err.issues ? validationErrorResponse(err.issues, policy) : { error: err.message, code: err.code };
+  }
 }
 
-function generateSqlErrorHints(error: string, sql: string): string {
+function generateSqlErrorHints(err: unknown, sql: string): string {
   const hints: string[] = [];
+  const error = err instanceof Error ? err.message : String(err);
+  const code = err instanceof BonnardError ? err.code : undefined;
+
+  if (code === "auth") {
+    return "- Authentication failed: the API key or token is invalid or expired. Retrying the same SQL will not help.";
+  }
+  if (code === "rate_limit") {
+    return "- Rate limited: wait before retrying the same query";
+  }
+  if (code === "network" || code === "server") {
+    return "- The semantic layer is unavailable: this is not a problem with the SQL, retry later";
+  }
 
   if (error.includes("Table or CTE with name") && error.includes("not found")) {
     hints.push("- Table not found: use explore_schema to list available views/cubes");
@@ -86,6 +207,9 @@ const timeDimensionObject = z.object({
   dateRange: z.array(z.string()).min(2).max(2).optional().describe("Date range as [start, end] in YYYY-MM-DD format"),
 });
 
+const resultFormatSchema = z.enum(["json", "markdown"]).optional()
+  .describe("Result format: \"json\" rows (default) or a \"markdown\" table");
+
 const querySchema = z.object({
   measures: z.array(z.string()).optional().describe("Measures to query (e.g. [\"orders.revenue\", \"orders.count\"])"),
   dimensions: z.array(z.string()).optional().describe("Dimensions to group by (e.g. [\"orders.status\"])"),
@@ -104,69 +228,48 @@ const querySchema = z.object({
   })).optional().describe("Sort order"),
   limit: z.number().optional().describe("Maximum rows to return (default: 250, max: 5000)"),
   offset: z.number().optional().describe("Number of rows to skip for pagination"),
+  format: resultFormatSchema,
+});
+
+const explainQuerySchema = querySchema.omit({ format: true });
+
+const visualizeSchema = querySchema.omit({ format: true }).extend({
+  chart_type: z.enum(["line", "bar", "kpi", "table"]).optional()
+    .describe("Preferred chart type. Omit to pick one from the result: line for time series, bar for categories, kpi for single values"),
 });
 
 const sqlQuerySchema = z.object({
   sql: z.string().describe("SQL query using Cube SQL syntax with MEASURE() for aggregations"),
+  format: resultFormatSchema,
 });
 
 const describeFieldSchema = z.object({
   field: z.string().describe("Fully qualified field name (e.g. \"orders.revenue\")"),
 });
 
-export function createTools(client: BonnardClient): BonnardTool[] {
+export function createTools(client: BonnardClient, options: CreateToolsOptions = {}): BonnardTool[] {
+  const policy = createPolicy(options.policy, options.sources);
+  const loadMeta = createMetaLoader(client, options, policy);
+  const maxOutputTokens = options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+
   const exploreSchema: BonnardTool = {
     name: "explore_schema",
     description:
       "Discover available data sources (views), their measures, dimensions, and segments. " +
       "No arguments returns a summary of all sources. Use 'name' to get full field listings for one source. " +
-      "Use 'search' to find fields by keyword across all sources.",
+      "Use 'search' to find fields by keyword across all sources, best matches first.",
     schema: exploreSchemaSchema,
     execute: async (args) => {
-      const meta = await client.explore({ viewsOnly: false });
-      const cubes = meta.cubes;
+      const { cubes } = await loadMeta();
 
       if (args.search) {
-        const keyword = args.search.toLowerCase();
-        const results: Array<{ source: string; sourceType: string; field: string; kind: string; type: string; description?: string }> = [];
-        const MAX_SEARCH = 50;
-
-        for (const cube of cubes) {
-          if (results.length >= MAX_SEARCH) break;
-          const sourceType = cube.type === "view" ? "view" : "cube";
-
-          for (const m of cube.measures) {
-            if (results.length >= MAX_SEARCH) break;
-            if (
-              m.name.toLowerCase().includes(keyword) ||
-              m.description?.toLowerCase().includes(keyword) ||
-              m.title?.toLowerCase().includes(keyword)
-            ) {
-              results.push({ source: cube.name, sourceType, field: m.name, kind: "measure", type: m.type, description: m.description });
-            }
-          }
-          for (const d of cube.dimensions) {
-            if (results.length >= MAX_SEARCH) break;
-            if (
-              d.name.toLowerCase().includes(keyword) ||
-              d.description?.toLowerCase().includes(keyword) ||
-              d.title?.toLowerCase().includes(keyword)
-            ) {
-              results.push({ source: cube.name, sourceType, field: d.name, kind: "dimension", type: d.type, description: d.description });
-            }
-          }
-          for (const s of cube.segments) {
-            if (results.length >= MAX_SEARCH) break;
-            if (
-              s.name.toLowerCase().includes(keyword) ||
-              s.description?.toLowerCase().includes(keyword) ||
-              s.title?.toLowerCase().includes(keyword)
-            ) {
-              results.push({ source: cube.name, sourceType, field: s.name, kind: "segment", type: "segment", description: s.description });
-            }
-          }
-        }
-        return results;
+        const hits = searchFields({ cubes }, args.search, MAX_SEARCH);
+        const shown = fitToTokens(hits, maxOutputTokens, 50);
+        if (shown.length === hits.length) return hits;
+        return {
+          results: shown,
+          truncated: `Showing the ${shown.length} best of ${hits.length} matches. Use a more specific search or 'name' for one source.`,
+        };
       }
 
       if (args.name) {
@@ -174,20 +277,39 @@ export function createTools(client: BonnardClient): BonnardTool[] {
         if (!cube) {
           return { error: `Source '${args.name}' not found. Available sources: ${cubes.map((c) => c.name).join(", ")}` };
         }
-        const dims = cube.dimensions.filter((d) => d.type !== "time");
-        const timeDims = cube.dimensions.filter((d) => d.type === "time");
-        return {
+        const detail = {
           name: cube.name,
           type: cube.type,
           description: cube.description,
           measures: cube.measures,
-          dimensions: dims,
-          timeDimensions: timeDims,
+          dimensions: cube.dimensions.filter((d) => d.type !== "time"),
+          timeDimensions: cube.dimensions.filter((d) => d.type === "time"),
           segments: cube.segments,
         };
+        if (estimateTokens(detail) <= maxOutputTokens) return detail;
+
+        // Too long: drop formats and meta, then cut each list to an equal share of the budget
+        const compact = <F extends { name: string; title?: string; description?: string; type?: string }>(fields: F[]) =>
+          fields.map((f) => ({ name: f.name, ...(f.type && { type: f.type }), ...(f.title && { title: f.title }), ...(f.description && { description: f.description }) }));
+        const lists = {
+          measures: compact(detail.measures),
+          dimensions: compact(detail.dimensions),
+          timeDimensions: compact(detail.timeDimensions),
+          segments: compact(detail.segments),
+        };
+        const compacted = { ...detail, ...lists };
+        if (estimateTokens(compacted) <= maxOutputTokens) return compacted;
+        const share = Math.max(0, (maxOutputTokens - 100) / 4);
+        const cut = Object.fromEntries(Object.entries(lists).map(([key, fields]) => [key, fitToTokens(fields, share)]));
+        const omitted = Object.keys(lists).reduce((n, key) => n + lists[key as keyof typeof lists].length - cut[key]!.length, 0);
+        return {
+          ...detail,
+          ...cut,
+          truncated: `${omitted} fields omitted. Use 'search' to find specific fields in this source.`,
+        };
       }
 
-      return cubes.map((c) => ({
+      const summary = cubes.map((c) => ({
         name: c.name,
         type: c.type,
         description: c.description,
@@ -196,6 +318,12 @@ export function createTools(client: BonnardClient): BonnardTool[] {
         timeDimensions: c.dimensions.filter((d) => d.type === "time").length,
         segments: c.segments.length,
       }));
+      const shown = fitToTokens(summary, maxOutputTokens, 50);
+      if (shown.length === summary.length) return summary;
+      return {
+        sources: shown,
+        truncated: `Showing ${shown.length} of ${summary.length} sources. Use 'search' to find fields by keyword.`,
+      };
     },
   };
 
@@ -208,52 +336,77 @@ export function createTools(client: BonnardClient): BonnardTool[] {
       "If data_completeness is \"partial\", use offset to fetch the next page.",
     schema: querySchema,
     execute: async (args) => {
-      // Normalize singular timeDimension → timeDimensions array
-      const timeDims = args.timeDimensions
-        || (args.timeDimension ? [args.timeDimension] : undefined);
-
-      // Normalize filter dimension → member
-      const filters = args.filters?.map((f: { member?: string; dimension?: string; operator: string; values?: string[] }) => ({
-        member: f.member || f.dimension,
-        operator: f.operator,
-        values: f.values,
-      })).filter((f: { member?: string }) => f.member);
-
-      const requestLimit = Math.min(args.limit || MAX_ROWS, 5000);
-
-      const cubeQuery: Record<string, unknown> = {};
-      if (args.measures && args.measures.length > 0) cubeQuery.measures = args.measures;
-      if (args.dimensions) cubeQuery.dimensions = args.dimensions;
-      if (timeDims) cubeQuery.timeDimensions = timeDims;
-      if (filters && filters.length > 0) cubeQuery.filters = filters;
-      if (args.segments) cubeQuery.segments = args.segments;
-      cubeQuery.limit = requestLimit;
-      if (args.offset) cubeQuery.offset = args.offset;
-      if (args.order) {
-        cubeQuery.order = Object.fromEntries(args.order.map((o: { field: string; direction: string }) => [o.field, o.direction]));
-      }
+      return withQueryValidation(loadMeta, policy, buildCubeQuery(args), async (cubeQuery) => {
+        const result = await client.rawQuery(cubeQuery, { parse: false });
+        const data = policy.redactRows((result.data || []) as Record<string, unknown>[]);
 
-      const result = await client.rawQuery(cubeQuery);
-      const data = (result.data || []) as Record<string, unknown>[];
+        if (data.length === 0) return { data_completeness: "complete", rows_shown: 0, results: [] };
 
-      if (data.length === 0) return { data_completeness: "complete", rows_shown: 0, results: [] };
+        const capped = data.slice(0, MAX_ROWS);
+        const isPartial = data.length > MAX_ROWS || data.length >= cubeQuery.limit!;
+        const rows = toModelRows(capped, result.annotation);
 
-      const capped = data.slice(0, MAX_ROWS);
-      const isPartial = data.length > MAX_ROWS || data.length >= requestLimit;
-      const rows = stripPrefixes(capped);
+        const response: Record<string, unknown> = {
+          data_completeness: isPartial ? "partial" : "complete",
+          rows_shown: rows.length,
+          results: args.format === "markdown" ? toMarkdownTable({ data: rows }) : rows,
+        };
 
-      const response: Record<string, unknown> = {
-        data_completeness: isPartial ? "partial" : "complete",
-        rows_shown: rows.length,
-        results: rows,
-      };
+        if (isPartial) {
+          const nextOffset = (args.offset || 0) + rows.length;
+          response.warning = `Partial results — do not sum or average these rows for totals. Use measures for accurate aggregations. To fetch more rows, use offset: ${nextOffset}.`;
+        }
 
-      if (isPartial) {
-        const nextOffset = (args.offset || 0) + rows.length;
-        response.warning = `Partial results — do not sum or average these rows for totals. Use measures for accurate aggregations. To fetch more rows, use offset: ${nextOffset}.`;
-      }
+        return response;
+      });
+    },
+  };
+
+  const explainQuery: BonnardTool = {
+    name: "explain_query",
+    description:
+      "Show the SQL a query compiles to and the query as the server normalizes it (default order, limit, timezone), " +
+      "without running it. Takes the same arguments as the query tool. Use it to check how filters and time " +
+      "dimensions are applied, or why a query returns unexpected results.",
+    schema: explainQuerySchema,
+    execute: async (args) => {
+      return withQueryValidation(loadMeta, policy, buildCubeQuery(args), async (cubeQuery) => {
+        const [explained, dryRun] = await Promise.all([client.explain(cubeQuery), client.dryRun(cubeQuery)]);
+        return {
+          sql: explained.sql,
+          params: explained.params,
+          members: explained.members,
+          normalized_query: dryRun.normalizedQueries[0] ?? cubeQuery,
+        };
+      });
+    },
+  };
 
-      return response;
+  const visualize: BonnardTool = {
+    name: "visualize",
+    description:
+      "Run a query and return a chart for it: a Vega-Lite spec and a Chart.js config with the data inlined. " +
+      "Takes the same arguments as the query tool. Uses a line chart for a time dimension with a granularity, " +
+      "a bar chart for one or two categorical dimensions and a KPI for measures without dimensions.",
+    schema: visualizeSchema,
+    execute: async (args) => {
+      return withQueryValidation(loadMeta, policy, buildCubeQuery(args), async (cubeQuery) => {
+        const [raw, meta] = await Promise.all([
+          client.rawQuery(cubeQuery, { parse: false }),
+          loadMeta().catch(() => undefined),
+        ]);
+        const result = { ...raw, data: policy.redactRows(raw.data) };
+        const chart = suggestChart(result, meta, { type: args.chart_type });
+        return {
+          chart_type: chart.type,
+          title: chart.title,
+          reason: chart.reason,
+          rows_plotted: result.data.length,
+          ...(chart.kpi && { kpi: chart.kpi.map((k) => ({ field: k.key, title: k.title, value: k.value, formatted: k.formatted })) }),
+          vega_lite: chart.vegaLite,
+          chartjs: chart.chartJs,
+        };
+      });
     },
   };
 
@@ -261,34 +414,50 @@ export function createTools(client: BonnardClient): BonnardTool[] {
     name: "sql_query",
     description:
       "Execute raw SQL against the semantic layer. Only use when the query tool cannot express what you need " +
-      "(CTEs, UNIONs, custom arithmetic, CASE expressions). Use MEASURE() for aggregations.",
+      "(CTEs, UNIONs, custom arithmetic, CASE expressions). Use MEASURE() for aggregations. " +
+      "The SQL is checked against the schema first; problems come back with a suggested_sql fix where there is one.",
     schema: sqlQuerySchema,
     execute: async (args) => {
+      const violations = policy.checkSql(args.sql);
+      if (violations.length > 0) return policyErrorResponse(violations);
+
+      // Check against the schema the model can see, so suggestions stay within it
+      const meta = await loadMeta().catch(() => null);
+      const lint = meta && lintSql(args.sql, meta);
+      if (lint && !lint.valid) return sqlLintErrorResponse(lint);
+
       try {
         const result = await client.sql(args.sql);
-        const data = (result.data || []) as Record<string, unknown>[];
+        // The policy's row limit applies to SQL too; rows past it are dropped
+        const all = (result.data || []) as Record<string, unknown>[];
+        const overLimit = all.length > policy.maxRows;
+        const data = policy.redactRows(overLimit ? all.slice(0, policy.maxRows) : all, args.sql);
 
         if (data.length === 0) return { data_completeness: "complete", rows_shown: 0, results: [] };
 
         const capped = data.slice(0, MAX_ROWS);
-        const isPartial = data.length > MAX_ROWS;
-        const rows = stripPrefixes(capped);
+        const isPartial = data.length > MAX_ROWS || overLimit;
+        const rows = toModelRows(capped);
 
         const response: Record<string, unknown> = {
           data_completeness: isPartial ? "partial" : "complete",
           rows_shown: rows.length,
-          results: rows,
+          results: args.format === "markdown" ? toMarkdownTable({ data: rows }) : rows,
         };
 
         if (isPartial) {
-          response.warning = `Partial results (${data.length} total). Do not sum or average these rows. Add LIMIT/OFFSET to your SQL to page through results.`;
+          response.warning = `Partial results (${overLimit ? `over the ${policy.maxRows}-row limit` : `${data.length} total`}). Do not sum or average these rows. Add LIMIT/OFFSET to your SQL to page through results.`;
         }
 
         return response;
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
-        const hints = generateSqlErrorHints(message, args.sql);
-        return { error: message, hints };
+        const hints = generateSqlErrorHints(err, args.sql);
+        return {
+          error: message,
+          ...(err instanceof BonnardError && { code: err.code }),
+          hints,
+        };
       }
     },
   };
@@ -307,7 +476,7 @@ export function createTools(client: BonnardClient): BonnardTool[] {
       const sourceName = args.field.substring(0, dotIndex);
       const fieldName = args.field;
 
-      const meta = await client.explore({ viewsOnly: false });
+      const meta = await loadMeta();
       const cube = meta.cubes.find((c) => c.name === sourceName);
       if (!cube) {
         return { error: `Source '${sourceName}' not found. Available sources: ${meta.cubes.map((c) => c.name).join(", ")}` };
@@ -352,5 +521,9 @@ export function createTools(client: BonnardClient): BonnardTool[] {
     },
   };
 
-  return [exploreSchema, query, sqlQuery, describeField];
+  // explain_query is opt-in, either directly or by naming it in the policy's tools
+  const explain = options.explain || options.policy?.tools?.includes("explain_query");
+  // Mandatory filters can't be added to free-form SQL, so it isn't offered under them
+  return [exploreSchema, query, ...(explain ? [explainQuery] : []), visualize, ...(policy.hasMandatoryFilters ? [] : [sqlQuery]), describeField]
+    .filter((tool) => policy.toolEnabled(tool.name));
 }
@@ -1,7 +1,8 @@
 import type { z } from "zod";
-import type { createClient } from "../client.js";
+import type { BonnardClient } from "../client.js";
+import type { CubeFilter } from "../types.js";
 
-export type BonnardClient = ReturnType<typeof createClient>;
+export type { BonnardClient };
 
 export interface BonnardTool<T = any> {
   name: string;
@@ -9,3 +10,73 @@ export interface BonnardTool<T = any> {
   schema: z.ZodType<T>;
   execute: (args: T) => Promise<unknown>;
 }
+
+export interface CreateToolsOptions {
+  /**
+   * Add the `explain_query` tool, which shows the SQL a query compiles to
+   * and the query as the server normalizes it, without running it.
+   * Defaults to false.
+   */
+  explain?: boolean;
+  /**
+   * How long the tools reuse fetched schema metadata for listings, query
+   * validation and SQL checks, in milliseconds. Defaults to 5 minutes; 0
+   * fetches every call.
+   */
+  metaTtlMs?: number;
+  /**
+   * Approximate token budget (~4 characters each) for one `explore_schema`
+   * output. Longer listings are cut and say how to narrow them down.
+   * Defaults to 4000.
+   */
+  maxOutputTokens?: number;
+  /**
+   * Show only views to the model, hiding the cubes they are built on.
+   * Queries on hidden cubes fail validation as unknown members.
+   */
+  viewsOnly?: boolean;
+  /**
+   * Show only these views and cubes to the model. Queries and SQL on any
+   * other source are rejected, as with `policy.allowedSources`.
+   */
+  sources?: string[];
+  /** Limits on what the tools let the model see and run. */
+  policy?: ToolPolicy;
+}
+
+/**
+ * Guardrails for `createTools`. Member and source patterns are fully
+ * qualified names where `*` matches any run of characters, e.g.
+ * `orders.*` or `*.email`. Violations come back to the model as tool errors
+ * with `code: "policy_violation"`.
+ */
+export interface ToolPolicy {
+  /** Tools to offer, by name. Defaults to all. */
+  tools?: string[];
+  /** Views and cubes the model may use. Defaults to all. */
+  allowedSources?: string[];
+  /** Views and cubes the model may not use; wins over `allowedSources`. */
+  deniedSources?: string[];
+  /** Members the model may use. Defaults to all. */
+  allowedMembers?: string[];
+  /** Members the model may not use; wins over `allowedMembers`. */
+  deniedMembers?: string[];
+  /** Most rows one query may return. Larger limits are lowered and SQL results cut off. Defaults to 5000. */
+  maxRows?: number;
+  /**
+   * Reject SQL that isn't a single `SELECT` (or `WITH … SELECT`) statement.
+   * Defaults to true.
+   */
+  readOnlySql?: boolean;
+  /**
+   * Filters added to every query on their member's view or cube, e.g. a
+   * date window. Because SQL can't be rewritten reliably, `sql_query` is not
+   * offered while mandatory filters are set.
+   */
+  mandatoryFilters?: CubeFilter[];
+  /**
+   * Members whose values are replaced with `"[redacted]"` in results. They
+   * can still be grouped by, but not filtered or sorted on.
+   */
+  redact?: string[];
+}
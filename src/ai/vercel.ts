@@ -1,6 +1,6 @@
 import { tool, type Tool } from "ai";
 import { createTools as createBonnardTools } from "./tools.js";
-import type { BonnardClient } from "./types.js";
+import type { BonnardClient, CreateToolsOptions } from "./types.js";
 
 /**
  * Create Bonnard tools for the Vercel AI SDK.
@@ -12,8 +12,8 @@ import type { BonnardClient } from "./types.js";
  * const result = await generateText({ model, tools: { ...tools, ...myOtherTools } })
  * ```
  */
-export function createTools(client: BonnardClient): Record<string, Tool> {
-  const bonnardTools = createBonnardTools(client);
+export function createTools(client: BonnardClient, options?: CreateToolsOptions): Record<string, Tool> {
+  const bonnardTools = createBonnardTools(client, options);
 
   const tools: Record<string, Tool> = {};
   for (const t of bonnardTools) {
@@ -0,0 +1,149 @@
+/**
+ * Bonnard SDK — Apache Arrow IPC export (requires the optional `apache-arrow` peer dependency)
+ */
+
+import {
+  Bool,
+  Field,
+  Float64,
+  RecordBatch,
+  RecordBatchStreamWriter,
+  Schema,
+  Struct,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  makeData,
+  tableToIPC,
+  vectorFromArray,
+} from 'apache-arrow';
+import type { DataType } from 'apache-arrow';
+import { resolveExportColumns } from './export.js';
+import type { ExportColumn, ExportOptions, StreamExportOptions } from './export.js';
+import { toBoolean, toDate, toNumber } from './parse.js';
+import type { AnyResult } from './results.js';
+
+type Row = Record<string, unknown>;
+
+export interface ArrowOptions extends ExportOptions {
+  /** IPC `stream` (default) or `file` format. */
+  format?: 'stream' | 'file';
+}
+
+function arrowType(column: ExportColumn, rows: Row[]): DataType {
+  const type = column.type?.toLowerCase();
+  if (type === 'time' || type?.startsWith('timestamp') || type === 'date') return new TimestampMillisecond();
+  if (type === 'boolean' || type === 'bool') return new Bool();
+  if (type === 'string' || type === 'utf8' || type === 'varchar' || type === 'text') return new Utf8();
+  if (column.kind === 'measure' || type === 'number' || /^(int|bigint|float|double|decimal|numeric)/.test(type ?? '')) {
+    return new Float64();
+  }
+  // No metadata: infer from the first non-null value
+  const sample = rows.find((r) => r[column.key] !== null && r[column.key] !== undefined)?.[column.key];
+  if (typeof sample === 'number' || typeof sample === 'bigint') return new Float64();
+  if (typeof sample === 'boolean') return new Bool();
+  if (sample instanceof Date) return new TimestampMillisecond();
+  return new Utf8();
+}
+
+function arrowValue(value: unknown, type: DataType): unknown {
+  if (value === null || value === undefined) return null;
+  if (type instanceof Float64) {
+    const num = toNumber(value, false);
+    return typeof num === 'number' ? num : null;
+  }
+  if (type instanceof TimestampMillisecond) return toDate(value)?.getTime() ?? null;
+  if (type instanceof Bool) return toBoolean(value);
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Arrow field names for the columns: their headers, with a repeated header
+ * (e.g. two measures titled "Count") disambiguated by its member key.
+ */
+function fieldNames(columns: ExportColumn[]): string[] {
+  const used = new Set<string>();
+  return columns.map((column) => {
+    let name = used.has(column.header) ? `${column.header} (${column.key})` : column.header;
+    for (let n = 2; used.has(name); n++) name = `${column.header} (${column.key}) ${n}`;
+    used.add(name);
+    return name;
+  });
+}
+
+function buildSchema(columns: ExportColumn[], types: DataType[]): Schema {
+  const names = fieldNames(columns);
+  return new Schema(columns.map((_, i) => new Field(names[i]!, types[i]!, true)));
+}
+
+/** One record batch per page, with each vector read from its member's key in the rows. */
+function buildBatch(rows: Row[], columns: ExportColumn[], schema: Schema): RecordBatch {
+  const children = columns.map((column, i) => {
+    const type = schema.fields[i]!.type;
+    return vectorFromArray(rows.map((r) => arrowValue(r[column.key], type)), type).data[0]!;
+  });
+  return new RecordBatch(schema, makeData({ type: new Struct(schema.fields), length: rows.length, nullCount: 0, children }));
+}
+
+/**
+ * Serialize a result as Apache Arrow IPC bytes, ready for DuckDB, Polars or
+ * pyarrow. Column types come from the annotation or SQL schema; numeric
+ * measures are `Float64` and time dimensions millisecond timestamps (UTC).
+ */
+export function toArrow(result: AnyResult<unknown>, options: ArrowOptions = {}): Uint8Array {
+  const rows = result.data as Row[];
+  const columns = resolveExportColumns(
+    rows,
+    {
+      annotation: 'annotation' in result ? result.annotation : undefined,
+      schema: 'schema' in result ? result.schema : undefined,
+    },
+    { ...options, header: options.header || 'key' }
+  );
+  const schema = buildSchema(columns, columns.map((c) => arrowType(c, rows)));
+  return tableToIPC(new Table(schema, buildBatch(rows, columns, schema)), options.format ?? 'stream');
+}
+
+/**
+ * Stream Arrow IPC (stream format) from pages of rows, one record batch per
+ * page. The schema is fixed by the first page. Stopping early (e.g. `break`)
+ * stops `pages` too, so no further pages are fetched.
+ */
+export async function* streamArrow(
+  pages: AsyncIterable<Row[]>,
+  options: StreamExportOptions = {}
+): AsyncGenerator<Uint8Array> {
+  const writer = new RecordBatchStreamWriter();
+  const iterator = pages[Symbol.asyncIterator]();
+  let stopped = false;
+
+  // Encode pages as they arrive while the loop below drains the writer's output
+  const producer = (async () => {
+    let columns: ExportColumn[] | undefined;
+    let schema: Schema | undefined;
+    try {
+      for (;;) {
+        const { done, value: page } = await iterator.next();
+        if (done || stopped) break;
+        if (!columns || !schema) {
+          columns = resolveExportColumns(page, options, { ...options, header: options.header || 'key' });
+          schema = buildSchema(columns, columns.map((c) => arrowType(c, page)));
+        }
+        writer.write(buildBatch(page, columns, schema));
+      }
+      if (!stopped) writer.finish();
+    } catch (err) {
+      if (!stopped) writer.abort(err);
+    }
+  })();
+
+  try {
+    for await (const chunk of writer) yield chunk;
+  } finally {
+    stopped = true;
+    // Leaving the loop early already closed the writer's output
+    if (!writer.closed) writer.close();
+    // Ends the page source once its pending page, if any, has arrived
+    await Promise.all([producer, iterator.return?.()]);
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Bonnard SDK — Query batching helpers
+ */
+
+import type { BatchResult, CubeQuery, QueryResult } from './types.js';
+
+export const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_BATCH_SIZE = 20;
+
+/**
+ * Run `tasks` with at most `limit` in flight, settling every one.
+ * Results keep the order of `tasks`.
+ */
+export async function settleWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  limit = DEFAULT_CONCURRENCY,
+): Promise<Array<BatchResult<T>>> {
+  const results = new Array<BatchResult<T>>(tasks.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]!() };
+      } catch (error) {
+        results[index] = { status: 'rejected', error };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+type Flush = (queries: CubeQuery[]) => Promise<Array<BatchResult<QueryResult<unknown>>>>;
+
+interface Pending {
+  query: CubeQuery;
+  resolve: (result: QueryResult<unknown>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesce queries enqueued within the same tick into batches of at most
+ * `maxBatchSize`, sent through `flush`.
+ */
+export function createAutoBatcher(flush: Flush, maxBatchSize = DEFAULT_MAX_BATCH_SIZE) {
+  let queue: Pending[] = [];
+  let scheduled = false;
+
+  function drain() {
+    scheduled = false;
+    const pending = queue;
+    queue = [];
+
+    for (let i = 0; i < pending.length; i += maxBatchSize) {
+      const chunk = pending.slice(i, i + maxBatchSize);
+      flush(chunk.map(p => p.query)).then(
+        (results) => chunk.forEach((p, j) => {
+          const result = results[j]!;
+          if (result.status === 'fulfilled') p.resolve(result.value);
+          else p.reject(result.error);
+        }),
+        (error) => chunk.forEach(p => p.reject(error)),
+      );
+    }
+  }
+
+  return {
+    enqueue<T>(query: CubeQuery): Promise<QueryResult<T>> {
+      return new Promise<QueryResult<T>>((resolve, reject) => {
+        queue.push({ query, resolve: resolve as Pending['resolve'], reject });
+        if (!scheduled) {
+          scheduled = true;
+          setTimeout(drain, 0);
+        }
+      });
+    },
+  };
+}
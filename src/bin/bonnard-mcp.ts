@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * Bonnard SDK — `bonnard-mcp`: run the Bonnard tools as an MCP server
+ *
+ *   BONNARD_API_KEY=bon_pk_... bonnard-mcp              # stdio
+ *   BONNARD_API_KEY=bon_pk_... bonnard-mcp --http --port 3000
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { createClient } from '../client.js';
+import { createMcpServer } from '../ai/mcp.js';
+
+const USAGE = `Usage: bonnard-mcp [--http] [--port <port>] [--host <host>] [--explain]
+
+Serves the Bonnard tools over MCP, on stdio by default.
+
+Environment:
+  BONNARD_API_KEY    API key (required)
+  BONNARD_BASE_URL   API base URL (default: https://app.bonnard.dev)
+
+Options:
+  --http             Serve streamable HTTP on /mcp instead of stdio
+  --port <port>      HTTP port (default: 3000)
+  --host <host>      HTTP host (default: 127.0.0.1)
+  --explain          Enable the explain_query tool
+  -h, --help         Show this help
+`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      http: { type: 'boolean' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      explain: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const apiKey = process.env.BONNARD_API_KEY;
+  if (!apiKey) {
+    process.stderr.write(`BONNARD_API_KEY is not set.\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const pkg = JSON.parse(await readFile(new URL('../../package.json', import.meta.url), 'utf8')) as { version: string };
+  const client = createClient({ apiKey, baseUrl: process.env.BONNARD_BASE_URL });
+  const server = createMcpServer(client, { version: pkg.version, tools: { explain: values.explain } });
+
+  if (values.http) {
+    const port = values.port === undefined ? undefined : Number(values.port);
+    if (port !== undefined && !Number.isInteger(port)) throw new Error(`Invalid --port '${values.port}'`);
+    const { url } = await server.serveHttp({ port, host: values.host });
+    // stdout is reserved for the protocol in stdio mode, so log to stderr in both
+    process.stderr.write(`Bonnard MCP server listening on ${url}\n`);
+    return;
+  }
+  await server.serveStdio();
+}
+
+main().catch((err: unknown) => {
+  process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+  process.exitCode = 1;
+});
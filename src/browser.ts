@@ -1,2 +1,23 @@
+import { defineElements } from './elements.js';
+
 export { createClient } from './client.js';
 export { toCubeQuery } from './query.js';
+export { createMemoryStorage, createWebStorage } from './cache.js';
+export { stripPrefixes, toColumns, pivot, toSeries, totals } from './results.js';
+export { toCSV, toJSONL, toMarkdownTable } from './export.js';
+export { createFormatter } from './format.js';
+export { suggestChart } from './chart.js';
+export { defineElements };
+export {
+  BonnardError,
+  AuthError,
+  QueryValidationError,
+  RateLimitError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  AbortError,
+} from './errors.js';
+
+// Register the <bonnard-*> elements as soon as the bundle loads
+if (typeof customElements !== 'undefined') defineElements();
@@ -0,0 +1,146 @@
+/**
+ * Bonnard SDK — Fluent query builder (zero IO)
+ */
+
+import type {
+  QueryOptions,
+  QueryResult,
+  QueryFilter,
+  CubeQuery,
+  Granularity,
+  ValueFilterOperator,
+  RequestOptions,
+} from './types.js';
+import { toCubeQuery } from './query.js';
+import { BonnardError } from './errors.js';
+
+type Value = string | number;
+
+export type RunQuery = <T>(cubeQuery: CubeQuery, requestOptions?: RequestOptions) => Promise<QueryResult<T>>;
+
+/**
+ * Immutable query builder. Every method returns a new builder, so a base
+ * query can be forked into several variants safely.
+ *
+ * Member names without a dot are resolved against the builder's view:
+ * `bon.from('orders').measures('revenue')` selects `orders.revenue`.
+ */
+export interface QueryBuilder {
+  /** View the builder resolves short member names against. */
+  readonly view: string;
+  measures(...names: string[]): QueryBuilder;
+  /** Group by one or more dimensions. */
+  by(...names: string[]): QueryBuilder;
+  where(member: string): FilterBuilder;
+  /** Add a filter object as-is, e.g. an `{ or: [...] }` group. Members must be fully qualified. */
+  filter(filter: QueryFilter): QueryBuilder;
+  segments(...names: string[]): QueryBuilder;
+  /** Set the time dimension, optionally grouped at `granularity`. */
+  over(dimension: string, granularity?: Granularity): QueryBuilder;
+  /** Restrict the time dimension to a relative range, e.g. `last('90 days')`. */
+  last(range: string): QueryBuilder;
+  /** Restrict the time dimension to an absolute range (inclusive). */
+  between(start: string, end: string): QueryBuilder;
+  /** Restrict the time dimension to any Cube date range expression. */
+  during(dateRange: string | [string, string]): QueryBuilder;
+  orderBy(member: string, direction?: 'asc' | 'desc'): QueryBuilder;
+  limit(limit: number): QueryBuilder;
+  offset(offset: number): QueryBuilder;
+  toQueryOptions(): QueryOptions;
+  toCubeQuery(): Record<string, unknown>;
+  run<T = Record<string, unknown>>(requestOptions?: RequestOptions): Promise<QueryResult<T>>;
+}
+
+/** Filter conditions on one member; each returns the builder `B` with the filter added. */
+export interface FilterBuilder<B = QueryBuilder> {
+  equals(...values: Value[]): B;
+  notEquals(...values: Value[]): B;
+  contains(...values: Value[]): B;
+  notContains(...values: Value[]): B;
+  startsWith(...values: Value[]): B;
+  notStartsWith(...values: Value[]): B;
+  endsWith(...values: Value[]): B;
+  notEndsWith(...values: Value[]): B;
+  gt(value: Value): B;
+  gte(value: Value): B;
+  lt(value: Value): B;
+  lte(value: Value): B;
+  set(): B;
+  notSet(): B;
+  inDateRange(start: string, end: string): B;
+  notInDateRange(start: string, end: string): B;
+  beforeDate(date: string): B;
+  beforeOrOnDate(date: string): B;
+  afterDate(date: string): B;
+  afterOrOnDate(date: string): B;
+}
+
+/**
+ * Create a builder for `view`. `run` executes the compiled Cube query —
+ * the client passes its own `rawQuery`.
+ */
+export function createQueryBuilder(view: string, run: RunQuery, options: QueryOptions = {}): QueryBuilder {
+  const qualify = (name: string) => (name.includes('.') ? name : `${view}.${name}`);
+  const next = (patch: Partial<QueryOptions>) => createQueryBuilder(view, run, { ...options, ...patch });
+
+  const withDateRange = (dateRange: string | [string, string]) => {
+    if (!options.timeDimension) {
+      throw new BonnardError('Call over(dimension) before setting a date range', 'config');
+    }
+    return next({ timeDimension: { ...options.timeDimension, dateRange } });
+  };
+
+  const addFilter = (filter: QueryFilter) => next({ filters: [...(options.filters ?? []), filter] });
+
+  const filterBuilder = (member: string): FilterBuilder => {
+    const add = (operator: ValueFilterOperator, values: Value[]) =>
+      addFilter({ dimension: member, operator, values });
+    return {
+      equals: (...values) => add('equals', values),
+      notEquals: (...values) => add('notEquals', values),
+      contains: (...values) => add('contains', values),
+      notContains: (...values) => add('notContains', values),
+      startsWith: (...values) => add('startsWith', values),
+      notStartsWith: (...values) => add('notStartsWith', values),
+      endsWith: (...values) => add('endsWith', values),
+      notEndsWith: (...values) => add('notEndsWith', values),
+      gt: (value) => add('gt', [value]),
+      gte: (value) => add('gte', [value]),
+      lt: (value) => add('lt', [value]),
+      lte: (value) => add('lte', [value]),
+      set: () => addFilter({ dimension: member, operator: 'set' }),
+      notSet: () => addFilter({ dimension: member, operator: 'notSet' }),
+      inDateRange: (start, end) => add('inDateRange', [start, end]),
+      notInDateRange: (start, end) => add('notInDateRange', [start, end]),
+      beforeDate: (date) => add('beforeDate', [date]),
+      beforeOrOnDate: (date) => add('beforeOrOnDate', [date]),
+      afterDate: (date) => add('afterDate', [date]),
+      afterOrOnDate: (date) => add('afterOrOnDate', [date]),
+    };
+  };
+
+  return {
+    view,
+    measures: (...names) => next({ measures: [...(options.measures ?? []), ...names.map(qualify)] }),
+    by: (...names) => next({ dimensions: [...(options.dimensions ?? []), ...names.map(qualify)] }),
+    where: (member) => filterBuilder(qualify(member)),
+    filter: (filter) => addFilter(filter),
+    segments: (...names) => next({ segments: [...(options.segments ?? []), ...names.map(qualify)] }),
+    over: (dimension, granularity) => next({
+      timeDimension: {
+        dimension: qualify(dimension),
+        ...(granularity && { granularity }),
+        ...(options.timeDimension?.dateRange && { dateRange: options.timeDimension.dateRange }),
+      },
+    }),
+    last: (range) => withDateRange(`last ${range}`),
+    between: (start, end) => withDateRange([start, end]),
+    during: (dateRange) => withDateRange(dateRange),
+    orderBy: (member, direction = 'asc') => next({ orderBy: { ...options.orderBy, [qualify(member)]: direction } }),
+    limit: (limit) => next({ limit }),
+    offset: (offset) => next({ offset }),
+    toQueryOptions: () => structuredClone(options),
+    toCubeQuery: () => toCubeQuery(options),
+    run: (requestOptions) => run(toCubeQuery(options) as CubeQuery, requestOptions),
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Bonnard SDK — Client-side query cache
+ */
+
+import type { CacheOptions, CacheEntry, QueryCacheStorage } from './types.js';
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-memory storage, evicting the oldest entry once `maxEntries` is reached.
+ * This is the default backend.
+ */
+export function createMemoryStorage(maxEntries = DEFAULT_MAX_ENTRIES): QueryCacheStorage {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: (key) => entries.get(key),
+    set: (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    clear: () => entries.clear(),
+  };
+}
+
+/**
+ * Storage backed by a Web Storage object such as `localStorage` or
+ * `sessionStorage`. Entries are JSON-serialized under `prefix`.
+ */
+export function createWebStorage(storage: Storage, prefix = 'bonnard:'): QueryCacheStorage {
+  return {
+    get: (key) => {
+      const raw = storage.getItem(prefix + key);
+      if (!raw) return undefined;
+      try {
+        return JSON.parse(raw) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+    },
+    set: (key, entry) => {
+      try {
+        storage.setItem(prefix + key, JSON.stringify(entry));
+      } catch {
+        // quota exceeded — caching is best effort
+      }
+    },
+    delete: (key) => storage.removeItem(prefix + key),
+    clear: () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key?.startsWith(prefix)) keys.push(key);
+      }
+      keys.forEach(key => storage.removeItem(key));
+    },
+  };
+}
+
+/**
+ * JSON.stringify with object keys sorted recursively, so semantically equal
+ * queries produce the same cache key.
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(Object.keys(val).sort().map(k => [k, val[k]]));
+    }
+    return val;
+  });
+}
+
+/**
+ * 32-bit FNV-1a hash, hex encoded. Fast but not collision resistant: use it
+ * for non-security keys only, never to tell credentials apart.
+ */
+export function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * SHA-256 of `input`, hex encoded, or `undefined` where Web Crypto is
+ * unavailable (browser pages served over plain HTTP).
+ */
+export async function sha256(input: string): Promise<string | undefined> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return undefined;
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const VOLATILE_CLAIMS = ['exp', 'iat', 'nbf', 'jti'];
+
+/**
+ * Stable identity for a credential: the SHA-256 of a JWT's claims minus the
+ * ones that change on every refresh, or of the raw key otherwise. Refreshed
+ * tokens for the same security context share cache entries, and different
+ * contexts never collide in practice. `undefined` where SHA-256 is
+ * unavailable.
+ */
+export async function tokenIdentity(token: string): Promise<string | undefined> {
+  const parts = token.split('.');
+  if (parts.length === 3) {
+    try {
+      const claims = JSON.parse(atob(parts[1]!.replace(/-/g, '+').replace(/_/g, '/')));
+      for (const claim of VOLATILE_CLAIMS) delete claims[claim];
+      return await sha256(stableStringify(claims));
+    } catch {
+      // not a JWT — fall through
+    }
+  }
+  return sha256(token);
+}
+
+export interface QueryCache {
+  /**
+   * Return the cached value for `key`, loading it with `load` on a miss.
+   * Concurrent misses for the same key share one `load` call.
+   */
+  get<T>(key: string, load: () => Promise<T>): Promise<T>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export function createQueryCache(options: CacheOptions = {}): QueryCache {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const staleMs = options.staleWhileRevalidateMs ?? 0;
+  const storage = options.storage ?? createMemoryStorage();
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  function load<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = loader()
+      .then(async (value) => {
+        const now = Date.now();
+        await storage.set(key, { value, expiresAt: now + ttlMs, staleUntil: now + ttlMs + staleMs });
+        return value;
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+    inFlight.set(key, promise);
+    return promise;
+  }
+
+  return {
+    async get<T>(key: string, loader: () => Promise<T>): Promise<T> {
+      const entry = await storage.get(key);
+      const now = Date.now();
+
+      if (entry && now < entry.expiresAt) return entry.value as T;
+
+      if (entry && now < entry.staleUntil) {
+        // Serve stale, refresh in the background
+        load(key, loader).catch(() => {});
+        return entry.value as T;
+      }
+
+      return load(key, loader);
+    },
+    async delete(key) {
+      await storage.delete(key);
+    },
+    async clear() {
+      await storage.clear();
+    },
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * Bonnard SDK — Chart suggestions with Vega-Lite and Chart.js output (zero IO)
+ */
+
+import type { QueryResult, ExploreMeta, ColumnMeta, CubeMetaItem, Granularity } from './types.js';
+import { columnsFromAnnotation, toDate, toNumber } from './parse.js';
+import { createFormatter } from './format.js';
+import type { FormatterOptions } from './format.js';
+
+export type ChartType = 'line' | 'bar' | 'kpi' | 'table';
+
+export interface ChartOptions extends Pick<FormatterOptions, 'locale' | 'currency' | 'timezone'> {
+  /** Preferred chart type. Ignored when the result can't be drawn that way. */
+  type?: ChartType;
+  /** Most series drawn when a second dimension splits the data. Defaults to 10. */
+  maxSeries?: number;
+  /** Series colors, in order. Defaults to the palette of `examples/dashboard.html`. */
+  palette?: string[];
+}
+
+export interface ChartField {
+  key: string;
+  title: string;
+  granularity?: Granularity;
+}
+
+export interface KpiValue extends ChartField {
+  value: number | null;
+  /** The value formatted by the field's `format` and `meta`. */
+  formatted: string;
+}
+
+/** A Chart.js configuration; pass it to `new Chart(ctx, config)`. Plain JSON, no callbacks. */
+export interface ChartJsConfig {
+  type: 'bar' | 'line';
+  data: {
+    labels: string[];
+    datasets: Array<Record<string, unknown> & { label: string; data: Array<number | null> }>;
+  };
+  options: Record<string, unknown>;
+}
+
+export interface ChartSuggestion {
+  type: ChartType;
+  title: string;
+  /** Why this type was chosen. */
+  reason: string;
+  /** Category or time axis. */
+  x?: ChartField;
+  /** Second dimension splitting the data into series. */
+  series?: ChartField;
+  /** Plotted measures. */
+  y: ChartField[];
+  /** Values for a `kpi` chart. */
+  kpi?: KpiValue[];
+  /** Vega-Lite v5 spec with the data inlined; null for tables. */
+  vegaLite: Record<string, unknown> | null;
+  /** Chart.js config; null for KPIs and tables. */
+  chartJs: ChartJsConfig | null;
+}
+
+const PALETTE = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#a855f7', '#06b6d4', '#ec4899', '#84cc16'];
+const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+const GRANULARITIES = new Set<string>(['second', 'minute', 'hour', 'day', 'week', 'month', 'quarter', 'year']);
+
+const TIME_UNITS: Record<Granularity, string> = {
+  year: 'year',
+  quarter: 'yearquarter',
+  month: 'yearmonth',
+  week: 'yearweek',
+  day: 'yearmonthdate',
+  hour: 'yearmonthdatehours',
+  minute: 'yearmonthdatehoursminutes',
+  second: 'yearmonthdatehoursminutesseconds',
+};
+
+// Axis and grid colors of the dashboard example's dark theme
+const TICK_COLOR = '#888';
+const GRID_COLOR = '#333';
+
+type Row = Record<string, unknown>;
+
+/** Annotation fields as a pseudo-cube, so the formatter sees their `format` and `meta`. */
+export function annotationCube(result: QueryResult<unknown>): CubeMetaItem | undefined {
+  const annotation = result.annotation;
+  if (!annotation) return undefined;
+  const fields = (section: Record<string, { title: string; type: string }> | undefined) =>
+    Object.entries(section ?? {}).map(([name, field]) => ({ ...field, name }));
+  return {
+    name: '',
+    measures: fields(annotation.measures),
+    dimensions: [...fields(annotation.dimensions), ...fields(annotation.timeDimensions)],
+    segments: [],
+  };
+}
+
+/** Columns from the annotation, else from `meta`, else guessed from the values. */
+export function columnsOf(result: QueryResult<unknown>, meta: ExploreMeta | undefined): ColumnMeta[] {
+  const rows = (result.data ?? []) as Row[];
+  const columns = result.annotation ? columnsFromAnnotation(result.annotation, rows) : (rows[0] ? Object.keys(rows[0]) : []).map((key) => {
+    const parts = key.split('.');
+    const granularity = parts.length > 2 && GRANULARITIES.has(parts[parts.length - 1]!) ? parts.pop() as Granularity : undefined;
+    const name = parts.join('.');
+    const cube = meta?.cubes.find(c => c.name === parts[0]);
+    const measure = cube?.measures.find(m => m.name === name);
+    const dimension = cube?.dimensions.find(d => d.name === name);
+    const field = measure ?? dimension;
+    const sample = rows.find(r => r[key] !== null && r[key] !== undefined)?.[key];
+    const kind = measure ? 'measure'
+      : dimension ? (dimension.type === 'time' ? 'timeDimension' : 'dimension')
+      : typeof sample === 'number' || (typeof sample === 'string' && toNumber(sample) !== null) ? 'measure' : 'dimension';
+    const column: ColumnMeta = { key, title: field?.title ?? parts[parts.length - 1]!, type: field?.type ?? (kind === 'measure' ? 'number' : 'string'), kind };
+    if (field?.shortTitle) column.shortTitle = field.shortTitle;
+    if (granularity) column.granularity = granularity;
+    return column;
+  });
+  // A time dimension comes back under both `member` and `member.granularity`; keep the latter
+  return columns.filter(c => c.kind !== 'segment' &&
+    !(c.kind === 'timeDimension' && !c.granularity && columns.some(o => o.key.startsWith(`${c.key}.`))));
+}
+
+function fieldOf(column: ColumnMeta): ChartField {
+  return {
+    key: column.key,
+    title: column.shortTitle ?? column.title,
+    ...(column.granularity && { granularity: column.granularity }),
+  };
+}
+
+function numeric(value: unknown): number | null {
+  const num = toNumber(value, false);
+  return typeof num === 'number' ? num : typeof num === 'bigint' ? Number(num) : null;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Pick a chart for a query result and build it for Vega-Lite and Chart.js:
+ *
+ * - `line` when there is a time dimension with a granularity (plus at most
+ *   one other dimension, drawn as series)
+ * - `bar` for one or two categorical dimensions (the second as series)
+ * - `kpi` for measures without dimensions
+ * - `table` for anything else
+ *
+ * Members are classified by the result's annotation, falling back to `meta`
+ * and then to the values. Labels and KPI values use the field formats.
+ */
+export function suggestChart(result: QueryResult<unknown>, meta?: ExploreMeta, options: ChartOptions = {}): ChartSuggestion {
+  const rows = (result.data ?? []) as Row[];
+  const palette = options.palette ?? PALETTE;
+  const maxSeries = options.maxSeries ?? 10;
+  const extra = annotationCube(result);
+  const formatter = createFormatter({ cubes: [...(extra ? [extra] : []), ...(meta?.cubes ?? [])] }, options);
+
+  const columns = columnsOf(result, meta);
+  const measures = columns.filter(c => c.kind === 'measure');
+  const times = columns.filter(c => c.kind === 'timeDimension');
+  const dimensions = columns.filter(c => c.kind === 'dimension' || (c.kind === 'timeDimension' && !c.granularity));
+  const y = measures.map(fieldOf);
+  const measureTitle = y.map(m => m.title).join(' and ');
+
+  const table = (reason: string): ChartSuggestion =>
+    ({ type: 'table', title: measureTitle || columns.map(c => fieldOf(c).title).join(', '), reason, y, vegaLite: null, chartJs: null });
+
+  if (measures.length === 0) return table('No measures to plot');
+
+  // --- KPI ---
+  const timeSeries = times.find(c => c.granularity);
+  if ((times.length === 0 && dimensions.length === 0 && rows.length <= 1) || (options.type === 'kpi' && rows.length === 1)) {
+    const row = rows[0] ?? {};
+    const kpi = y.map(m => ({ ...m, value: numeric(row[m.key]), formatted: formatter.format(m.key, row[m.key]) }));
+    // One big number per measure, side by side when there are several
+    const cards = kpi.map(k => ({
+      title: k.title,
+      data: { values: [{ value: k.formatted }] },
+      mark: { type: 'text', fontSize: 40, fontWeight: 'bold' },
+      encoding: { text: { field: 'value', type: 'nominal' } },
+    }));
+    return {
+      type: 'kpi',
+      title: measureTitle,
+      reason: 'Measures without dimensions',
+      y,
+      kpi,
+      vegaLite: cards.length === 1
+        ? { $schema: VEGA_LITE_SCHEMA, ...cards[0] }
+        : { $schema: VEGA_LITE_SCHEMA, hconcat: cards },
+      chartJs: null,
+    };
+  }
+
+  // --- Axes ---
+  let type: 'line' | 'bar';
+  let xColumn: ColumnMeta;
+  let seriesColumn: ColumnMeta | undefined;
+  if (timeSeries && times.filter(c => c.granularity).length === 1 && dimensions.length <= 1 && options.type !== 'bar') {
+    type = 'line';
+    xColumn = timeSeries;
+    seriesColumn = dimensions[0];
+  } else if (!timeSeries && dimensions.length >= 1 && dimensions.length <= 2) {
+    type = 'bar';
+    xColumn = dimensions[0]!;
+    seriesColumn = dimensions[1];
+  } else if (timeSeries && dimensions.length === 0 && options.type === 'bar') {
+    type = 'bar';
+    xColumn = timeSeries;
+  } else {
+    return table('Too many dimensions to chart');
+  }
+  // A series split plots one measure; extra measures would multiply the series
+  if (seriesColumn && measures.length > 1) return table('Several measures split by a second dimension');
+
+  const x = fieldOf(xColumn);
+  const series = seriesColumn && fieldOf(seriesColumn);
+  const xLabel = (value: unknown) => formatter.format(x.key, value, x.granularity ? { granularity: x.granularity } : {});
+  const xValue = (value: unknown) => type === 'line' ? toDate(value)?.toISOString() ?? null : xLabel(value);
+
+  // Long-format points: one per x value and series (measure or second dimension value)
+  const labels: string[] = [];
+  const xs = new Map<string, number>();
+  for (const row of rows) {
+    const label = xLabel(row[x.key]);
+    if (!xs.has(label)) {
+      xs.set(label, labels.length);
+      labels.push(label);
+    }
+  }
+  const seriesNames = series
+    ? [...new Set(rows.map(r => formatter.format(series.key, r[series.key])))].slice(0, maxSeries)
+    : y.map(m => m.title);
+  const values = seriesNames.map(() => new Array<number | null>(labels.length).fill(null));
+  const points: Row[] = [];
+  for (const row of rows) {
+    const i = xs.get(xLabel(row[x.key]))!;
+    if (series) {
+      const s = seriesNames.indexOf(formatter.format(series.key, row[series.key]));
+      if (s === -1) continue;
+      const value = numeric(row[y[0]!.key]);
+      values[s]![i] = value;
+      points.push({ x: xValue(row[x.key]), series: seriesNames[s], value });
+    } else {
+      y.forEach((m, s) => {
+        const value = numeric(row[m.key]);
+        values[s]![i] = value;
+        points.push({ x: xValue(row[x.key]), series: m.title, value });
+      });
+    }
+  }
+  const truncated = series && new Set(rows.map(r => r[series.key])).size > maxSeries;
+
+  const dualAxis = !series && y.length === 2;
+  const horizontal = type === 'bar' && !series && y.length === 1;
+  const multiSeries = seriesNames.length > 1;
+
+  // --- Chart.js, shaped like examples/dashboard.html ---
+  const datasets = seriesNames.map((name, s) => {
+    const color = palette[s % palette.length]!;
+    return {
+      label: name,
+      data: values[s]!,
+      ...(type === 'bar'
+        ? { backgroundColor: color, borderRadius: 4 }
+        : { borderColor: color, backgroundColor: color, tension: 0.3, pointRadius: 2 }),
+      ...(dualAxis && { yAxisID: s === 0 ? 'y' : 'y1' }),
+    };
+  });
+  const valueAxis = (color: string) => ({ ticks: { color }, grid: { color: GRID_COLOR } });
+  const scales: Record<string, unknown> = horizontal
+    ? {
+      x: valueAxis(TICK_COLOR),
+      y: { ticks: { color: TICK_COLOR }, grid: { display: false } },
+    }
+    : dualAxis
+      ? {
+        x: { ticks: { color: TICK_COLOR, maxRotation: 45 }, grid: { display: false } },
+        y: { type: 'linear', position: 'left', ...valueAxis(palette[0]!) },
+        y1: { type: 'linear', position: 'right', ticks: { color: palette[1 % palette.length] }, grid: { display: false } },
+      }
+      : {
+        x: { ticks: { color: TICK_COLOR, maxRotation: 45 }, grid: { display: false } },
+        y: valueAxis(TICK_COLOR),
+      };
+  const chartJs: ChartJsConfig = {
+    type,
+    data: { labels, datasets },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      ...(horizontal && { indexAxis: 'y' }),
+      plugins: { legend: multiSeries ? { labels: { color: TICK_COLOR } } : { display: false } },
+      scales,
+    },
+  };
+
+  // --- Vega-Lite ---
+  const valueTitle = series ? y[0]!.title : y.length === 1 ? y[0]!.title : 'Value';
+  const category = {
+    field: 'x',
+    title: x.title,
+    ...(type === 'line'
+      ? { type: 'temporal', ...(x.granularity && { timeUnit: TIME_UNITS[x.granularity] }) }
+      : { type: 'nominal', sort: null }),
+  };
+  const quantity = { field: 'value', type: 'quantitative', title: valueTitle };
+  const color = multiSeries
+    ? { color: { field: 'series', type: 'nominal', title: series?.title ?? 'Measure', sort: seriesNames, scale: { range: palette } } }
+    : {};
+  const offset = type === 'bar' && multiSeries ? { [horizontal ? 'yOffset' : 'xOffset']: { field: 'series', sort: seriesNames } } : {};
+  const vegaLite = {
+    $schema: VEGA_LITE_SCHEMA,
+    data: { values: points },
+    mark: type === 'line' ? { type: 'line', point: true } : { type: 'bar', cornerRadius: 4 },
+    encoding: horizontal
+      ? { y: category, x: quantity, ...color, ...offset }
+      : { x: category, y: quantity, ...color, ...offset },
+  };
+
+  const over = x.granularity ? `by ${capitalize(x.granularity)}` : `by ${x.title}`;
+  return {
+    type,
+    title: `${measureTitle} ${over}${series ? ` and ${series.title}` : ''}`,
+    reason: (type === 'line' ? 'Time series' : 'Categorical dimension') +
+      (truncated ? `; showing the first ${maxSeries} ${series!.title} values` : ''),
+    x,
+    ...(series && { series }),
+    y,
+    vegaLite,
+    chartJs,
+  };
+}
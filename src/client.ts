@@ -13,8 +13,30 @@ import type {
   DocsOptions,
   DocsTopicListResult,
   DocsTopicResult,
+  RequestOptions,
+  PaginationOptions,
+  BatchOptions,
+  BatchResult,
+  BonnardRequest,
+  ExplainResult,
+  DryRunResult,
 } from './types.js';
-import { toCubeQuery } from './query.js';
+import type { BonnardSchema, ParseSetting, TypedBonnardClient } from './schema.js';
+import type { QueryBuilder } from './builder.js';
+import { toCubeQuery, asCubeQuery } from './query.js';
+import { createQueryBuilder } from './builder.js';
+import { paginate, collectPages, toSqlPage } from './pagination.js';
+import { createAutoBatcher, settleWithConcurrency } from './batch.js';
+import { parseRows, columnsFromAnnotation } from './parse.js';
+import { BonnardError, NetworkError, TimeoutError, QueryValidationError, errorFromResponse } from './errors.js';
+import { resolveRetryOptions, isRetryable, backoffDelay, isContinueWait, sleep } from './retry.js';
+import { createCallSignal, raceSignal } from './signal.js';
+import { createQueryCache, stableStringify, tokenIdentity } from './cache.js';
+import { validateQuery } from './validate.js';
+import type { ValidationResult } from './validate.js';
+import { lintSql } from './sql-lint.js';
+import type { SqlLintResult } from './sql-lint.js';
+import { composeMiddleware, requestEvent, rowCountOf, notify, startHttpSpan, recordSpanError } from './middleware.js';
 
 /**
  * Parse JWT expiry from the payload (base64url-decoded middle segment).
@@ -35,15 +57,22 @@ function parseJwtExpiry(token: string): number {
 
 const REFRESH_BUFFER_MS = 60_000; // refresh 60s before expiry
 
-/**
- * Create a Bonnard client.
- *
- * When `fetchToken` is provided, the returned token is cached automatically
- * and refreshed 60 seconds before its JWT `exp` claim. Concurrent calls are
- * deduplicated so your callback is never invoked more than once at a time.
- */
-export function createClient(config: BonnardConfig) {
+/** Response of `/api/cube/sql`, in Cube's `/v1/sql` shape. */
+type CubeSqlResponse = {
+  sql: {
+    sql: [string, unknown[]?];
+    aliasNameToMember?: Record<string, string>;
+    dataSource?: string;
+    preAggregations?: unknown[];
+  };
+};
+
+function buildClient(config: BonnardConfig) {
   const baseUrl = config.baseUrl || 'https://app.bonnard.dev';
+  const retry = resolveRetryOptions(config.retry);
+  const cache = config.cache ? createQueryCache(config.cache === true ? {} : config.cache) : null;
+  // Resolve the global lazily so it can be replaced after the client is created
+  const fetchImpl: typeof fetch = config.fetch ?? ((input, init) => fetch(input, init));
 
   // Token cache for fetchToken mode
   let cachedToken: string | null = null;
@@ -66,11 +95,16 @@ export function createClient(config: BonnardConfig) {
       // Deduplicate concurrent calls — share a single in-flight promise
       if (pendingFetch) return pendingFetch;
 
+      const started = Date.now();
       pendingFetch = config.fetchToken()
         .then((token) => {
           cachedToken = token;
           cachedExpiry = parseJwtExpiry(token);
+          notify(config.onTokenRefresh, { durationMs: Date.now() - started, expiresAt: cachedExpiry || undefined });
           return token;
+        }, (err) => {
+          notify(config.onTokenRefresh, { durationMs: Date.now() - started, error: err });
+          throw err;
         })
         .finally(() => {
           pendingFetch = null;
@@ -79,87 +113,425 @@ export function createClient(config: BonnardConfig) {
       return pendingFetch;
     }
 
-    throw new Error('BonnardConfig requires either apiKey or fetchToken');
+    throw new BonnardError('BonnardConfig requires either apiKey or fetchToken', 'config');
   }
 
-  async function request<T>(endpoint: string, body: unknown): Promise<T> {
-    const token = await getToken();
-    const res = await fetch(`${baseUrl}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!res.ok) {
-      const error = await res.json().catch(() => ({ error: res.statusText }));
-      throw new Error(error.error || 'Query failed');
+  const dispatch = composeMiddleware(config.middleware ?? [], (req) => fetchImpl(req.url, {
+    method: req.method,
+    headers: req.headers,
+    body: req.body === undefined ? undefined : JSON.stringify(req.body),
+    signal: req.signal,
+  }));
+
+  async function send<T>(req: BonnardRequest, fallback: string): Promise<T> {
+    const { endpoint, signal } = req;
+    const span = config.tracer ? startHttpSpan(config.tracer, req) : undefined;
+    try {
+      let res: Response;
+      try {
+        res = await dispatch(req);
+      } catch (err) {
+        if (signal.aborted) throw signal.reason;
+        if (err instanceof BonnardError) throw err;
+        const message = err instanceof Error ? err.message : String(err);
+        throw new NetworkError(`Request to ${endpoint} failed: ${message}`, { endpoint, cause: err });
+      }
+
+      span?.setAttribute('http.response.status_code', res.status);
+      if (!res.ok) {
+        throw await errorFromResponse(res, endpoint, fallback);
+      }
+
+      let body: T;
+      try {
+        body = await res.json();
+      } catch (err) {
+        if (signal.aborted) throw signal.reason;
+        throw err;
+      }
+      const rowCount = rowCountOf(body);
+      if (rowCount !== undefined) span?.setAttribute('bonnard.row_count', rowCount);
+      return body;
+    } catch (err) {
+      if (span) recordSpanError(span, err);
+      throw err;
+    } finally {
+      span?.end();
     }
+  }
+
+  /**
+   * Run one request attempt repeatedly until it succeeds: transient errors are
+   * retried with backoff, and `Continue wait` responses are re-polled, all
+   * within the configured deadline.
+   */
+  async function withRetry<T>(endpoint: string, signal: AbortSignal, attempt: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + retry.deadlineMs;
+    let failures = 0;
+    let polls = 0;
+
+    for (;;) {
+      let body: T;
+      try {
+        body = await attempt();
+      } catch (err) {
+        failures++;
+        if (!isRetryable(err) || failures >= retry.maxAttempts) throw err;
+        const delay = backoffDelay(failures - 1, retry, err);
+        if (Date.now() + delay > deadline) throw err;
+        await sleep(delay, signal);
+        continue;
+      }
+
+      if (!isContinueWait(body)) return body;
+
+      if (!retry.pollContinueWait) {
+        throw new TimeoutError('Query is still running (Continue wait)', { endpoint, body });
+      }
+      const delay = backoffDelay(polls++, retry);
+      if (Date.now() + delay > deadline) {
+        throw new TimeoutError(`Query did not complete within ${retry.deadlineMs}ms`, { endpoint, body });
+      }
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Make one API call with retries, reporting it to the lifecycle hooks.
+   * Each HTTP attempt passes through the middleware chain.
+   */
+  async function callApi<T>(endpoint: string, method: 'GET' | 'POST', body: unknown, options?: RequestOptions): Promise<T> {
+    const event = requestEvent(endpoint, method, body);
+    notify(config.onRequest, event);
+    const started = Date.now();
+    let attempts = 0;
+
+    const call = createCallSignal(options, config.timeoutMs);
+    try {
+      const result = await withRetry(endpoint, call.signal, async () => {
+        const token = await raceSignal(getToken(), call.signal);
+        const headers: Record<string, string> = { 'Authorization': `Bearer ${token}` };
+        if (method === 'POST') headers['Content-Type'] = 'application/json';
+        return send<T>({
+          endpoint,
+          url: `${baseUrl}${endpoint}`,
+          method,
+          headers,
+          body,
+          signal: call.signal,
+          attempt: ++attempts,
+        }, method === 'POST' ? 'Query failed' : 'Request failed');
+      });
+      notify(config.onResponse, { ...event, durationMs: Date.now() - started, attempts, rowCount: rowCountOf(result) });
+      return result;
+    } catch (err) {
+      notify(config.onError, { ...event, durationMs: Date.now() - started, attempts, error: err });
+      throw err;
+    } finally {
+      call.dispose();
+    }
+  }
+
+  function request<T>(endpoint: string, body: unknown, options?: RequestOptions): Promise<T> {
+    return callApi<T>(endpoint, 'POST', body, options);
+  }
+
+  function requestGet<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return callApi<T>(endpoint, 'GET', undefined, options);
+  }
+
+  /**
+   * Serve `load` through the client cache, if enabled. The shared load runs
+   * without the caller's signal so one caller aborting never cancels the
+   * request for others; each caller only stops waiting. Without Web Crypto
+   * the token can't be identified safely, so the cache is bypassed.
+   */
+  async function cached<T>(
+    endpoint: string,
+    body: unknown,
+    options: RequestOptions | undefined,
+    load: (options: RequestOptions | undefined) => Promise<T>
+  ): Promise<T> {
+    if (!cache || options?.cache === false) return load(options);
 
-    return res.json();
+    const call = createCallSignal({ signal: options?.signal }, undefined);
+    try {
+      const key = await raceSignal(cacheKeyFor(endpoint, body), call.signal);
+      if (key === undefined) return await load(options);
+      return await raceSignal(cache.get(key, () => load({ timeoutMs: options?.timeoutMs })), call.signal);
+    } finally {
+      call.dispose();
+    }
   }
 
-  async function requestGet<T>(endpoint: string): Promise<T> {
+  // Identity of the last token seen, so each refresh is hashed once
+  let identity: { token: string; id: Promise<string | undefined> } | null = null;
+
+  async function cacheKeyFor(endpoint: string, body: unknown): Promise<string | undefined> {
     const token = await getToken();
-    const res = await fetch(`${baseUrl}${endpoint}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    if (!res.ok) {
-      const error = await res.json().catch(() => ({ error: res.statusText }));
-      throw new Error(error.error || 'Request failed');
+    if (identity?.token !== token) identity = { token, id: tokenIdentity(token) };
+    const id = await identity.id;
+    return id === undefined ? undefined : `${id}:${endpoint}:${stableStringify(body)}`;
+  }
+
+  type QueryResponse<T> = { data: T[]; annotation?: QueryResult['annotation'] };
+
+  // Whether the server accepts an array of queries in one request; unknown until tried
+  let arrayQueriesSupported: boolean | undefined;
+
+  /**
+   * Send several Cube queries, preferring one array request. Falls back to
+   * parallel single requests when the server rejects or does not understand
+   * the array form, so each query still gets its own outcome.
+   */
+  async function executeBatch<T>(cubeQueries: CubeQuery[], options?: BatchOptions): Promise<Array<BatchResult<QueryResult<T>>>> {
+    const single = (cubeQuery: CubeQuery) => async () => {
+      const result = await request<QueryResponse<T>>('/api/cube/query', { query: cubeQuery }, options);
+      return { data: result.data, annotation: result.annotation };
+    };
+
+    let arrayRejected = false;
+    if (cubeQueries.length > 1 && arrayQueriesSupported !== false) {
+      try {
+        const result = await request<{ results?: QueryResponse<T>[] }>('/api/cube/query', { query: cubeQueries }, options);
+        if (Array.isArray(result.results) && result.results.length === cubeQueries.length) {
+          arrayQueriesSupported = true;
+          return result.results.map(r => ({ status: 'fulfilled', value: { data: r.data, annotation: r.annotation } }));
+        }
+        arrayQueriesSupported = false;
+      } catch (err) {
+        // One invalid query fails the whole array — retry individually to isolate it.
+        // Anything else (auth, abort, timeout) would fail every query the same way.
+        if (!(err instanceof QueryValidationError)) {
+          return cubeQueries.map(() => ({ status: 'rejected', error: err }));
+        }
+        arrayRejected = arrayQueriesSupported === undefined;
+      }
     }
 
-    return res.json();
+    const results = await settleWithConcurrency(cubeQueries.map(single), options?.concurrency);
+    // A 400 for an array whose queries are each valid means the server does not take arrays
+    if (arrayRejected && !results.some(r => r.status === 'rejected' && r.error instanceof QueryValidationError)) {
+      arrayQueriesSupported = false;
+    }
+    return results;
   }
 
-  return {
+  const autoBatchOptions = config.autoBatch === true ? {} : config.autoBatch || null;
+  const autoBatcher = autoBatchOptions
+    ? createAutoBatcher(
+      (queries) => executeBatch(queries, { concurrency: autoBatchOptions.concurrency }),
+      autoBatchOptions.maxBatchSize
+    )
+    : null;
+
+  /** Apply the client or per-call `parse` setting to a query response. */
+  function toQueryResult<T>(result: QueryResponse<T>, options?: RequestOptions): QueryResult<T> {
+    const parse = options?.parse ?? config.parse;
+    if (!parse || !result.annotation) return { data: result.data, annotation: result.annotation };
+
+    const rows = result.data as Record<string, unknown>[];
+    return {
+      data: parseRows<T>(rows, result.annotation, parse === true ? {} : parse),
+      annotation: result.annotation,
+      columns: columnsFromAnnotation(result.annotation, rows),
+    };
+  }
+
+  /** Run one Cube query, through the auto-batcher when enabled. */
+  async function runQuery<T>(cubeQuery: CubeQuery, options?: RequestOptions): Promise<QueryResponse<T>> {
+    if (!autoBatcher) return request<QueryResponse<T>>('/api/cube/query', { query: cubeQuery }, options);
+
+    const call = createCallSignal(options, config.timeoutMs);
+    try {
+      return await raceSignal(autoBatcher.enqueue<T>(cubeQuery), call.signal);
+    } finally {
+      call.dispose();
+    }
+  }
+
+  // Schema metadata for `validate` and `lintSql`, fetched on first use
+  let validationMeta: Promise<ExploreMeta> | null = null;
+
+  async function loadValidationMeta(options?: RequestOptions): Promise<ExploreMeta> {
+    const call = createCallSignal(options, config.timeoutMs);
+    try {
+      validationMeta ??= client.explore({ viewsOnly: false }, { timeoutMs: options?.timeoutMs })
+        .catch((err) => {
+          validationMeta = null;
+          throw err;
+        });
+      return await raceSignal(validationMeta, call.signal);
+    } finally {
+      call.dispose();
+    }
+  }
+
+  /** In `validate: 'strict'` mode, reject an invalid query before it is sent. */
+  async function assertValid(query: QueryOptions | CubeQuery, options?: RequestOptions): Promise<void> {
+    if (config.validate !== 'strict') return;
+    const { valid, issues } = await client.validate(query, options);
+    if (!valid) {
+      throw new QueryValidationError(`Invalid query: ${issues.map(i => i.message).join('; ')}`, { issues });
+    }
+  }
+
+  const client = {
     /**
      * Execute a JSON query against the semantic layer.
      * All field names must be fully qualified (e.g. "orders.revenue").
      */
-    async query<T = Record<string, unknown>>(options: QueryOptions): Promise<QueryResult<T>> {
+    async query<T = Record<string, unknown>>(options: QueryOptions, requestOptions?: RequestOptions): Promise<QueryResult<T>> {
+      await assertValid(options, requestOptions);
       const cubeQuery = toCubeQuery(options);
 
-      const result = await request<{ data: T[]; annotation?: QueryResult['annotation'] }>(
-        '/api/cube/query',
-        { query: cubeQuery }
+      const result = await cached('/api/cube/query', { query: cubeQuery }, requestOptions, (opts) =>
+        runQuery<T>(cubeQuery as CubeQuery, opts)
       );
 
-      return { data: result.data, annotation: result.annotation };
+      return toQueryResult(result, requestOptions);
     },
 
     /**
      * Execute a raw Cube-native JSON query against the semantic layer.
      * Use this when you already have a Cube API query object.
      */
-    async rawQuery<T = Record<string, unknown>>(cubeQuery: CubeQuery): Promise<QueryResult<T>> {
-      const result = await request<{ data: T[]; annotation?: QueryResult['annotation'] }>(
-        '/api/cube/query',
-        { query: cubeQuery }
+    async rawQuery<T = Record<string, unknown>>(cubeQuery: CubeQuery, requestOptions?: RequestOptions): Promise<QueryResult<T>> {
+      await assertValid(cubeQuery, requestOptions);
+      const result = await cached('/api/cube/query', { query: cubeQuery }, requestOptions, (opts) =>
+        runQuery<T>(cubeQuery, opts)
       );
 
-      return { data: result.data, annotation: result.annotation };
+      return toQueryResult(result, requestOptions);
     },
 
     /**
      * Execute a SQL query against the semantic layer
      */
-    async sql<T = Record<string, unknown>>(query: string): Promise<SqlResult<T>> {
-      return request<SqlResult<T>>('/api/cube/query', { sql: query });
+    async sql<T = Record<string, unknown>>(query: string, requestOptions?: RequestOptions): Promise<SqlResult<T>> {
+      return request<SqlResult<T>>('/api/cube/query', { sql: query }, requestOptions);
+    },
+
+    /**
+     * Execute several JSON queries in one round trip where the server allows
+     * it, otherwise as parallel requests limited to `options.concurrency`.
+     * Results are in input order, each either fulfilled or rejected, so one
+     * failing query does not hide the others.
+     */
+    async batch<T = Record<string, unknown>>(
+      queries: QueryOptions[],
+      options?: BatchOptions
+    ): Promise<Array<BatchResult<QueryResult<T>>>> {
+      // In strict mode invalid queries are rejected locally and only the rest are sent
+      const rejections = await Promise.all(queries.map(q => assertValid(q, options).then(() => null, (err: unknown) => err)));
+      const sendable = queries.filter((_, i) => rejections[i] === null);
+      const sent = await executeBatch<T>(sendable.map(q => toCubeQuery(q) as CubeQuery), options);
+
+      let next = 0;
+      return rejections.map((error): BatchResult<QueryResult<T>> => {
+        if (error !== null) return { status: 'rejected', error };
+        const r = sent[next++]!;
+        return r.status === 'fulfilled' ? { ...r, value: toQueryResult(r.value, options) } : r;
+      });
+    },
+
+    /**
+     * Iterate over a JSON query page by page using `limit`/`offset`.
+     * `options.limit` caps the total rows and `options.offset` sets the start.
+     * Include an `orderBy` so pages are stable across round trips.
+     */
+    queryPages<T = Record<string, unknown>>(options: QueryOptions, pagination?: PaginationOptions): AsyncIterable<T[]> {
+      const maxRows = Math.min(options.limit || Infinity, pagination?.maxRows ?? Infinity);
+      return paginate(
+        async (limit, offset) => (await client.query<T>({ ...options, limit, offset }, pagination)).data,
+        { ...pagination, maxRows },
+        options.offset ?? 0
+      );
+    },
+
+    /**
+     * Fetch every row of a JSON query, page by page, into a single result.
+     * Use `pagination.maxRows` to cap the total.
+     */
+    async queryAll<T = Record<string, unknown>>(options: QueryOptions, pagination?: PaginationOptions): Promise<QueryResult<T>> {
+      let annotation: QueryResult['annotation'];
+      let columns: QueryResult['columns'];
+      const maxRows = Math.min(options.limit || Infinity, pagination?.maxRows ?? Infinity);
+      const data = await collectPages(paginate(
+        async (limit, offset) => {
+          const page = await client.query<T>({ ...options, limit, offset }, pagination);
+          annotation ??= page.annotation;
+          columns ??= page.columns;
+          return page.data;
+        },
+        { ...pagination, maxRows },
+        options.offset ?? 0
+      ));
+      return columns ? { data, annotation, columns } : { data, annotation };
+    },
+
+    /**
+     * Iterate over a SQL query page by page by adding `LIMIT`/`OFFSET`.
+     * Include an `ORDER BY` so pages are stable across round trips; page a
+     * statement that has its own `LIMIT` with `maxRows` instead.
+     */
+    sqlPages<T = Record<string, unknown>>(query: string, pagination?: PaginationOptions): AsyncIterable<T[]> {
+      return paginate(
+        async (limit, offset) => (await client.sql<T>(toSqlPage(query, limit, offset), pagination)).data,
+        pagination
+      );
+    },
+
+    /**
+     * Fetch every row of a SQL query, page by page, into a single result.
+     */
+    async sqlAll<T = Record<string, unknown>>(query: string, pagination?: PaginationOptions): Promise<SqlResult<T>> {
+      let schema: SqlResult['schema'];
+      const data = await collectPages(paginate(
+        async (limit, offset) => {
+          const page = await client.sql<T>(toSqlPage(query, limit, offset), pagination);
+          schema ??= page.schema;
+          return page.data;
+        },
+        pagination
+      ));
+      return { data, schema };
+    },
+
+    /**
+     * Compile a query to SQL without running it. Returns the SQL, its bound
+     * parameters and which member each selected column resolves to.
+     * Accepts `QueryOptions` or a Cube query.
+     */
+    async explain(query: QueryOptions | CubeQuery, requestOptions?: RequestOptions): Promise<ExplainResult> {
+      const { sql } = await request<CubeSqlResponse>('/api/cube/sql', { query: asCubeQuery(query) }, requestOptions);
+      const [text, params] = sql.sql;
+      return {
+        sql: text,
+        params: params ?? [],
+        members: sql.aliasNameToMember ?? {},
+        ...(sql.dataSource !== undefined && { dataSource: sql.dataSource }),
+        preAggregations: sql.preAggregations ?? [],
+      };
+    },
+
+    /**
+     * Have the server validate a query without running it and return it
+     * normalized, with the default order, limit and timezone filled in.
+     * Invalid queries fail with a `QueryValidationError`.
+     */
+    async dryRun(query: QueryOptions | CubeQuery, requestOptions?: RequestOptions): Promise<DryRunResult> {
+      return request<DryRunResult>('/api/cube/dry-run', { query: asCubeQuery(query) }, requestOptions);
     },
 
     /**
      * Discover available cubes, measures, dimensions, and segments.
      * By default returns only views (viewsOnly: true).
      */
-    async explore(options?: ExploreOptions): Promise<ExploreMeta> {
-      const meta = await requestGet<{ cubes: ExploreMeta['cubes'] }>('/api/cube/meta');
+    async explore(options?: ExploreOptions, requestOptions?: RequestOptions): Promise<ExploreMeta> {
+      const meta = await cached('/api/cube/meta', null, requestOptions, (opts) =>
+        requestGet<{ cubes: ExploreMeta['cubes'] }>('/api/cube/meta', opts)
+      );
       const viewsOnly = options?.viewsOnly ?? true;
 
       if (viewsOnly) {
@@ -175,12 +547,84 @@ export function createClient(config: BonnardConfig) {
      * - `docs({ category: 'dashboards' })` — list topics in a category
      * - `docs({ topic: 'dashboards.components' })` — get full markdown content
      */
-    async docs(options?: DocsOptions): Promise<DocsTopicListResult | DocsTopicResult> {
+    async docs(options?: DocsOptions, requestOptions?: RequestOptions): Promise<DocsTopicListResult | DocsTopicResult> {
       const params = new URLSearchParams();
       if (options?.topic) params.set('topic', options.topic);
       else if (options?.category) params.set('category', options.category);
       const qs = params.toString();
-      return requestGet(`/api/docs${qs ? `?${qs}` : ''}`);
+      return requestGet(`/api/docs${qs ? `?${qs}` : ''}`, requestOptions);
+    },
+
+    /**
+     * Check a query against the schema without running it. Reports unknown
+     * members, misplaced measures and dimensions, non-time time dimensions,
+     * operators that don't fit the field type and foreign segments, each
+     * with "did you mean" suggestions. The schema is fetched once per client.
+     */
+    async validate(query: QueryOptions | CubeQuery, requestOptions?: RequestOptions): Promise<ValidationResult> {
+      return validateQuery(query, await loadValidationMeta(requestOptions));
+    },
+
+    /**
+     * Check a Cube SQL query against the schema without running it. Reports
+     * unknown views and columns, measures outside `MEASURE()`, dimensions
+     * inside it, GROUP BY mistakes and JOINs, with "did you mean"
+     * suggestions and, where every issue has a likely fix, `fixedSql`.
+     * The schema is shared with `validate`.
+     */
+    async lintSql(query: string, requestOptions?: RequestOptions): Promise<SqlLintResult> {
+      return lintSql(query, await loadValidationMeta(requestOptions));
+    },
+
+    /**
+     * Drop cached results. With no argument the whole cache (and the schema
+     * used for validation) is cleared;
+     * with a Cube query only that query's entry for the current token is.
+     * Pass `toCubeQuery(options)` to invalidate a `query()` call.
+     */
+    async invalidate(cubeQuery?: CubeQuery | Record<string, unknown>): Promise<void> {
+      if (!cubeQuery) validationMeta = null;
+      if (!cache) return;
+      if (!cubeQuery) return cache.clear();
+      const key = await cacheKeyFor('/api/cube/query', { query: cubeQuery });
+      if (key !== undefined) await cache.delete(key);
+    },
+
+    /**
+     * Start an immutable fluent query against a view.
+     * Short member names resolve against the view (e.g. `'revenue'` → `'orders.revenue'`).
+     */
+    from(view: string): QueryBuilder {
+      return createQueryBuilder(view, (cubeQuery, requestOptions) => client.rawQuery(cubeQuery, requestOptions));
     },
   };
+
+  return client;
+}
+
+export type BonnardClient = ReturnType<typeof buildClient>;
+
+/**
+ * Create a Bonnard client.
+ *
+ * When `fetchToken` is provided, the returned token is cached automatically
+ * and refreshed 60 seconds before its JWT `exp` claim. Concurrent calls are
+ * deduplicated so your callback is never invoked more than once at a time.
+ *
+ * Every method accepts a trailing `RequestOptions` with an `AbortSignal` and
+ * a `timeoutMs`; aborting only abandons the caller's wait on a shared token
+ * fetch, never the fetch itself.
+ *
+ * Pass a schema generated by `generateSchemaTypes` as a type argument —
+ * `createClient<Schema>(config)` — to make misspelled members compile errors
+ * and get precisely typed result rows. Rows are typed as unparsed; with a
+ * client-wide `parse`, pass its value as a second type argument, e.g.
+ * `createClient<Schema, true>({ ...config, parse: true })`.
+ */
+export function createClient(config: BonnardConfig): BonnardClient;
+export function createClient<S extends BonnardSchema, const P extends ParseSetting = undefined>(
+  config: BonnardConfig & { parse?: P }
+): TypedBonnardClient<S, P>;
+export function createClient(config: BonnardConfig): BonnardClient | TypedBonnardClient<BonnardSchema, ParseSetting> {
+  return buildClient(config);
 }
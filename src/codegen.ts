@@ -0,0 +1,124 @@
+/**
+ * Bonnard SDK — Schema type generation (zero IO)
+ */
+
+import type { ExploreMeta, CubeFieldMeta } from './types.js';
+import type { ViewSchema } from './schema.js';
+
+export interface GenerateSchemaOptions {
+  /**
+   * `'d.ts'` emits declarations only. `'ts'` additionally emits a
+   * `createClient` wrapper bound to the generated schema. Defaults to `'ts'`.
+   */
+  format?: 'ts' | 'd.ts';
+  /** Module to import the SDK from. Defaults to `@bonnard/sdk`. */
+  importPath?: string;
+  /** Name of the exported schema type. Defaults to `Schema`. */
+  typeName?: string;
+}
+
+// Parsed value types; `TypedRow` maps them to what an unparsed result holds
+const MEASURE_VALUE_TYPES: Record<string, string> = {
+  string: 'string',
+  time: 'Date',
+  boolean: 'boolean',
+};
+
+const DIMENSION_VALUE_TYPES: Record<string, string> = {
+  number: 'number',
+  time: 'Date',
+  boolean: 'boolean',
+};
+
+function measureValueType(field: CubeFieldMeta): string {
+  return MEASURE_VALUE_TYPES[field.type] ?? 'number';
+}
+
+function dimensionValueType(field: CubeFieldMeta): string {
+  return DIMENSION_VALUE_TYPES[field.type] ?? 'string';
+}
+
+function pascalCase(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const joined = words.map(w => w[0]!.toUpperCase() + w.slice(1)).join('');
+  return /^[0-9]/.test(joined) ? `_${joined}` : joined;
+}
+
+function fieldBlock(fields: CubeFieldMeta[], valueType: (f: CubeFieldMeta) => string): string {
+  if (fields.length === 0) return '{}';
+  const lines = fields.map((f) => {
+    const doc = f.description ? `    /** ${f.description.replace(/\*\//g, '*\\/')} */\n` : '';
+    return `${doc}    ${JSON.stringify(f.name)}: ${valueType(f)};`;
+  });
+  return `{\n${lines.join('\n')}\n  }`;
+}
+
+/**
+ * Generate a TypeScript module describing the members of every cube or view
+ * in `meta`, for use with `createClient<Schema>()`.
+ *
+ * ```ts
+ * const meta = await bon.explore();
+ * fs.writeFileSync('src/bonnard-schema.ts', generateSchemaTypes(meta));
+ * ```
+ */
+export function generateSchemaTypes(meta: ExploreMeta, options: GenerateSchemaOptions = {}): string {
+  const format = options.format ?? 'ts';
+  const importPath = options.importPath ?? '@bonnard/sdk';
+  const typeName = options.typeName ?? 'Schema';
+  const out: string[] = [];
+
+  out.push('// Generated by @bonnard/sdk generateSchemaTypes — do not edit by hand.');
+  out.push('');
+  if (format === 'ts') {
+    out.push(`import { createClient as createBonnardClient } from ${JSON.stringify(importPath)};`);
+    out.push(`import type { BonnardConfig, ParseSetting, TypedBonnardClient } from ${JSON.stringify(importPath)};`);
+    out.push('');
+  }
+
+  const viewTypes: Array<[string, string]> = [];
+  for (const cube of meta.cubes) {
+    const viewType = `${pascalCase(cube.name)}View`;
+    viewTypes.push([cube.name, viewType]);
+
+    const timeDims = cube.dimensions.filter(d => d.type === 'time');
+    const segments = cube.segments.length > 0
+      ? cube.segments.map(s => JSON.stringify(s.name)).join(' | ')
+      : 'never';
+
+    if (cube.description) out.push(`/** ${cube.description.replace(/\*\//g, '*\\/')} */`);
+    out.push(`export type ${viewType} = {`);
+    out.push(`  measures: ${fieldBlock(cube.measures, measureValueType)};`);
+    out.push(`  dimensions: ${fieldBlock(cube.dimensions, dimensionValueType)};`);
+    out.push(`  timeDimensions: ${fieldBlock(timeDims, dimensionValueType)};`);
+    out.push(`  segments: ${segments};`);
+    out.push('};');
+    out.push('');
+  }
+
+  out.push(`export type ${typeName} = {`);
+  for (const [name, viewType] of viewTypes) {
+    out.push(`  ${JSON.stringify(name)}: ${viewType};`);
+  }
+  out.push('};');
+  out.push('');
+
+  const unionOf = (key: keyof ViewSchema) => viewTypes.length > 0
+    ? `{ [V in keyof ${typeName}]: ${key === 'segments' ? `${typeName}[V]['segments']` : `keyof ${typeName}[V]['${key}']`} }[keyof ${typeName}]`
+    : 'never';
+  out.push(`export type Measure = ${unionOf('measures')};`);
+  out.push(`export type Dimension = ${unionOf('dimensions')};`);
+  out.push(`export type TimeDimension = ${unionOf('timeDimensions')};`);
+  out.push(`export type Segment = ${unionOf('segments')};`);
+  out.push('');
+
+  if (format === 'ts') {
+    out.push(`/** \`createClient\` bound to \`${typeName}\`. Row types follow \`config.parse\`. */`);
+    out.push(`export function createClient<const P extends ParseSetting = undefined>(config: BonnardConfig & { parse?: P }): TypedBonnardClient<${typeName}, P> {`);
+    out.push(`  return createBonnardClient<${typeName}, P>(config);`);
+    out.push('}');
+    out.push('');
+  }
+
+  return out.join('\n');
+}
@@ -0,0 +1,415 @@
+/**
+ * Bonnard SDK — Custom elements for dashboards written in HTML (browser only)
+ */
+
+import { createClient } from './client.js';
+import type { BonnardClient } from './client.js';
+import { suggestChart, annotationCube, columnsOf } from './chart.js';
+import type { ChartType, ChartJsConfig, KpiValue } from './chart.js';
+import { createFormatter } from './format.js';
+import type {
+  QueryOptions,
+  QueryResult,
+  QueryFilter,
+  MemberFilter,
+  TimeDimension,
+  Granularity,
+  AnnotationField,
+} from './types.js';
+
+type Row = Record<string, unknown>;
+
+/** What a `<bonnard-*>` element dispatches as `bonnard-load`. */
+export interface BonnardLoadDetail {
+  query: QueryOptions;
+  result: QueryResult;
+}
+
+// Attributes every data element reads to build its query
+const QUERY_ATTRIBUTES = ['measures', 'dimensions', 'time-dimension', 'granularity', 'date-range', 'filters', 'segments', 'order', 'limit'];
+const DISPLAY_ATTRIBUTES = ['format', 'label', 'locale', 'currency'];
+
+const SYMBOL_OPERATORS: Record<string, MemberFilter['operator']> = {
+  '=': 'equals',
+  '!=': 'notEquals',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  in: 'equals',
+};
+
+const STYLES = `
+:where(bonnard-metric, bonnard-table, bonnard-chart) { display: block; }
+:where(bonnard-chart) { position: relative; height: 300px; }
+:where(bonnard-metric, bonnard-table, bonnard-chart)[state="loading"] { opacity: 0.6; }
+:where(.bonnard-label) { font-size: 14px; color: #888; margin-bottom: 8px; }
+:where(.bonnard-value) { font-size: 32px; font-weight: 600; }
+:where(.bonnard-error) { color: #e00; }
+:where(.bonnard-table) { width: 100%; border-collapse: collapse; }
+:where(.bonnard-table th, .bonnard-table td) { padding: 6px 8px; text-align: left; border-bottom: 1px solid #333; }
+:where(.bonnard-table .bonnard-number) { text-align: right; font-variant-numeric: tabular-nums; }
+`;
+
+function list(value: string | null): string[] {
+  return value ? value.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+const JSON_FILTER_EXAMPLE = '[{"dimension": "orders.status", "operator": "equals", "values": ["paid"]}]';
+
+/** Check one JSON filter, or a nested `and`/`or` group, against the `QueryFilter` shape. */
+function assertFilter(filter: unknown, path: string): asserts filter is QueryFilter {
+  const invalid = (problem: string) => new Error(`Invalid filter at ${path} in 'filters': ${problem}; use e.g. ${JSON_FILTER_EXAMPLE}`);
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) throw invalid('expected an object');
+  const f = filter as Record<string, unknown>;
+  for (const group of ['and', 'or'] as const) {
+    if (!(group in f)) continue;
+    if (!Array.isArray(f[group])) throw invalid(`'${group}' must be an array of filters`);
+    return (f[group] as unknown[]).forEach((inner, i) => assertFilter(inner, `${path}.${group}[${i}]`));
+  }
+  if (typeof f.dimension !== 'string' || !f.dimension) throw invalid("'dimension' must be a member name");
+  if (typeof f.operator !== 'string' || !f.operator) throw invalid("'operator' must be a filter operator");
+  if (f.operator === 'set' || f.operator === 'notSet') return;
+  if (!Array.isArray(f.values) || !f.values.every((v) => typeof v === 'string' || typeof v === 'number')) {
+    throw invalid("'values' must be an array of strings or numbers");
+  }
+}
+
+/**
+ * Parse a `filters` attribute: JSON (an array of `QueryOptions` filters) or
+ * `;`-separated conditions such as `orders.status = paid; orders.city in
+ * Berlin, Paris; orders.amount >= 100; orders.email set`.
+ */
+export function parseFilters(value: string | null): QueryFilter[] {
+  if (!value?.trim()) return [];
+  if (/^\s*[[{]/.test(value)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (err) {
+      throw new Error(`Invalid JSON in 'filters' (${(err as Error).message}); use e.g. ${JSON_FILTER_EXAMPLE}`);
+    }
+    const filters = Array.isArray(parsed) ? parsed : [parsed];
+    filters.forEach((filter, i) => assertFilter(filter, `[${i}]`));
+    return filters as QueryFilter[];
+  }
+  return value.split(';').filter((s) => s.trim()).map((condition): QueryFilter => {
+    // `member <symbol> values` or `member <operator name> values`
+    const match = /^\s*([\w.]+)\s*(!=|>=|<=|=|>|<)\s*(.*)$/.exec(condition) ?? /^\s*([\w.]+)\s+([a-zA-Z]+)\b\s*(.*)$/.exec(condition);
+    if (!match) throw new Error(`Invalid filter '${condition.trim()}'; use e.g. "orders.status = paid"`);
+    const [, dimension, name, rest] = match;
+    const operator = SYMBOL_OPERATORS[name!] ?? name;
+    if (operator === 'set' || operator === 'notSet') return { dimension: dimension!, operator };
+    const values = rest!.split(',').map(unquote).filter((v) => v !== '');
+    return { dimension: dimension!, operator: operator as Exclude<MemberFilter['operator'], 'set' | 'notSet'>, values };
+  });
+}
+
+/** `2025-01-01, 2025-03-31` → a range; anything else (`last 30 days`) is passed to Cube as is. */
+function parseDateRange(value: string | null): TimeDimension['dateRange'] | undefined {
+  if (!value?.trim()) return undefined;
+  const parts = value.split(',').map((s) => s.trim());
+  return parts.length === 2 ? [parts[0]!, parts[1]!] : value.trim();
+}
+
+/** `orders.revenue desc, orders.city` → `orderBy`. */
+function parseOrder(value: string | null): QueryOptions['orderBy'] {
+  if (!value?.trim()) return undefined;
+  return Object.fromEntries(value.split(',').map((part) => {
+    const [member, direction] = part.trim().split(/\s+/);
+    return [member!, direction?.toLowerCase() === 'desc' ? 'desc' : 'asc'];
+  }));
+}
+
+/** Build a query from an element's attributes. `measures` may be given as the single `measure`. */
+export function queryFromAttributes(el: Element): QueryOptions {
+  const query: QueryOptions = {};
+  const measures = list(el.getAttribute('measures') ?? el.getAttribute('measure'));
+  const dimensions = list(el.getAttribute('dimensions'));
+  if (measures.length > 0) query.measures = measures;
+  if (dimensions.length > 0) query.dimensions = dimensions;
+
+  const timeDimension = el.getAttribute('time-dimension');
+  const dateRange = parseDateRange(el.getAttribute('date-range'));
+  if (timeDimension) {
+    const granularity = el.getAttribute('granularity') as Granularity | null;
+    query.timeDimension = { dimension: timeDimension, ...(granularity && { granularity }), ...(dateRange && { dateRange }) };
+  } else if (dateRange) {
+    throw new Error("'date-range' needs a 'time-dimension' to apply to");
+  }
+
+  const filters = parseFilters(el.getAttribute('filters'));
+  if (filters.length > 0) query.filters = filters;
+  const segments = list(el.getAttribute('segments'));
+  if (segments.length > 0) query.segments = segments;
+  const orderBy = parseOrder(el.getAttribute('order'));
+  if (orderBy) query.orderBy = orderBy;
+  const limit = el.getAttribute('limit');
+  if (limit) query.limit = Number(limit);
+  return query;
+}
+
+/**
+ * The result with `format` applied to its measures: `currency`, `percent`,
+ * `number`, or `compact` (abbreviated numbers).
+ */
+function withFormat(result: QueryResult, format: string | null): QueryResult {
+  if (!format || !result.annotation) return result;
+  const measures: Record<string, AnnotationField> = {};
+  for (const [name, field] of Object.entries(result.annotation.measures)) {
+    measures[name] = format === 'compact'
+      ? { ...field, meta: { ...field.meta, compact: true } }
+      : { ...field, format };
+  }
+  return { ...result, annotation: { ...result.annotation, measures } };
+}
+
+function element(tag: string, className?: string, text?: string): HTMLElement {
+  const el = document.createElement(tag);
+  if (className) el.className = className;
+  if (text !== undefined) el.textContent = text;
+  return el;
+}
+
+function renderKpi(host: HTMLElement, kpi: KpiValue[], label: string | null): void {
+  host.replaceChildren(...kpi.flatMap((k) => [
+    element('div', 'bonnard-label', label ?? k.title),
+    element('div', 'bonnard-value', k.formatted || '—'),
+  ]));
+}
+
+function renderTable(host: HTMLElement, result: QueryResult, locale?: string, currency?: string): void {
+  const extra = annotationCube(result);
+  const formatter = createFormatter({ cubes: extra ? [extra] : [] }, { locale, currency });
+  const columns = columnsOf(result, undefined);
+  const table = element('table', 'bonnard-table');
+  const head = element('thead');
+  const headRow = element('tr');
+  for (const column of columns) {
+    headRow.append(element('th', column.kind === 'measure' ? 'bonnard-number' : undefined, column.shortTitle ?? column.title));
+  }
+  const body = element('tbody');
+  for (const row of result.data as Row[]) {
+    const tr = element('tr');
+    for (const column of columns) {
+      tr.append(element('td', column.kind === 'measure' ? 'bonnard-number' : undefined, formatter.format(column.key, row[column.key])));
+    }
+    body.append(tr);
+  }
+  head.append(headRow);
+  table.append(head, body);
+  host.replaceChildren(table);
+}
+
+/** Chart.js, when the page has loaded it as a global. */
+type ChartConstructor = new (canvas: HTMLCanvasElement, config: ChartJsConfig) => { destroy(): void };
+
+/**
+ * Register `<bonnard-provider>`, `<bonnard-metric>`, `<bonnard-table>` and
+ * `<bonnard-chart>`. The browser bundle calls this on load; names already
+ * registered are left alone.
+ */
+export function defineElements(registry: CustomElementRegistry = customElements): void {
+  class BonnardProviderElement extends HTMLElement {
+    static observedAttributes = ['api-key', 'base-url', 'locale', 'currency'];
+
+    #client: BonnardClient | null = null;
+    #assigned = false;
+    #listeners = new Set<() => void>();
+
+    connectedCallback(): void {
+      // A `client` set before the element was upgraded shadows the accessor
+      if (Object.prototype.hasOwnProperty.call(this, 'client')) {
+        const client = (this as { client?: BonnardClient | null }).client ?? null;
+        delete (this as { client?: BonnardClient | null }).client;
+        this.client = client;
+      }
+    }
+
+    /** The client children query with: the one assigned, else one made from `api-key` and `base-url`. */
+    get client(): BonnardClient | null {
+      const apiKey = this.getAttribute('api-key');
+      if (!this.#client && !this.#assigned && apiKey) {
+        const baseUrl = this.getAttribute('base-url');
+        this.#client = createClient({ apiKey, ...(baseUrl && { baseUrl }) });
+      }
+      return this.#client;
+    }
+
+    set client(client: BonnardClient | null) {
+      this.#client = client;
+      this.#assigned = client !== null;
+      this.#notify();
+    }
+
+    attributeChangedCallback(name: string): void {
+      if ((name === 'api-key' || name === 'base-url') && !this.#assigned) this.#client = null;
+      this.#notify();
+    }
+
+    /** Call `listener` whenever the client or shared display settings change. */
+    subscribe(listener: () => void): () => void {
+      this.#listeners.add(listener);
+      return () => this.#listeners.delete(listener);
+    }
+
+    #notify(): void {
+      this.#listeners.forEach((listener) => listener());
+    }
+  }
+
+  /** Shared lifecycle: query on connect and on attribute changes, cancelling the query it replaces. */
+  abstract class BonnardQueryElement extends HTMLElement {
+    #provider: BonnardProviderElement | null = null;
+    #unsubscribe: (() => void) | null = null;
+    #controller: AbortController | null = null;
+    #scheduled = false;
+
+    connectedCallback(): void {
+      const provider = this.closest('bonnard-provider');
+      this.#provider = provider instanceof BonnardProviderElement ? provider : null;
+      this.#unsubscribe = this.#provider?.subscribe(() => this.refresh()) ?? null;
+      this.refresh();
+    }
+
+    disconnectedCallback(): void {
+      this.#controller?.abort();
+      this.#unsubscribe?.();
+      this.#unsubscribe = null;
+      this.cleanup();
+    }
+
+    attributeChangedCallback(): void {
+      if (this.isConnected) this.refresh();
+    }
+
+    /** Re-run the query. Changes in the same task are coalesced into one query. */
+    refresh(): void {
+      if (this.#scheduled) return;
+      this.#scheduled = true;
+      queueMicrotask(() => {
+        this.#scheduled = false;
+        if (this.isConnected) void this.#load();
+      });
+    }
+
+    /** An attribute of this element, falling back to the provider's. */
+    protected setting(name: string): string | undefined {
+      return this.getAttribute(name) ?? this.#provider?.getAttribute(name) ?? undefined;
+    }
+
+    async #load(): Promise<void> {
+      this.#controller?.abort();
+      const controller = new AbortController();
+      this.#controller = controller;
+      this.setAttribute('state', 'loading');
+      if (!this.hasChildNodes()) this.renderLoading();
+
+      try {
+        const client = this.#provider?.client;
+        if (!client) throw new Error('Place this element inside <bonnard-provider api-key="..."> to connect it');
+        const query = queryFromAttributes(this);
+        const result = await client.query(query, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        this.render(result);
+        this.setAttribute('state', 'ready');
+        this.dispatchEvent(new CustomEvent<BonnardLoadDetail>('bonnard-load', { detail: { query, result } }));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        const error = err instanceof Error ? err : new Error(String(err));
+        this.cleanup();
+        this.replaceChildren(element('div', 'bonnard-error', error.message));
+        this.setAttribute('state', 'error');
+        this.dispatchEvent(new CustomEvent<Error>('bonnard-error', { detail: error }));
+      }
+    }
+
+    protected renderLoading(): void {}
+
+    protected cleanup(): void {}
+
+    protected abstract render(result: QueryResult): void;
+  }
+
+  class BonnardMetricElement extends BonnardQueryElement {
+    static observedAttributes = [...QUERY_ATTRIBUTES, 'measure', ...DISPLAY_ATTRIBUTES];
+
+    protected renderLoading(): void {
+      renderKpi(this, [{ key: '', title: '', value: null, formatted: '—' }], this.getAttribute('label') ?? '');
+    }
+
+    protected render(result: QueryResult): void {
+      const chart = suggestChart(withFormat(result, this.getAttribute('format')), undefined, {
+        type: 'kpi',
+        locale: this.setting('locale'),
+        currency: this.setting('currency'),
+      });
+      if (!chart.kpi) throw new Error('bonnard-metric shows a single value; remove its dimensions or use bonnard-table');
+      renderKpi(this, chart.kpi, this.getAttribute('label'));
+    }
+  }
+
+  class BonnardTableElement extends BonnardQueryElement {
+    static observedAttributes = [...QUERY_ATTRIBUTES, ...DISPLAY_ATTRIBUTES];
+
+    protected render(result: QueryResult): void {
+      renderTable(this, withFormat(result, this.getAttribute('format')), this.setting('locale'), this.setting('currency'));
+    }
+  }
+
+  class BonnardChartElement extends BonnardQueryElement {
+    static observedAttributes = [...QUERY_ATTRIBUTES, 'type', ...DISPLAY_ATTRIBUTES];
+
+    #chart: { destroy(): void } | null = null;
+
+    protected cleanup(): void {
+      this.#chart?.destroy();
+      this.#chart = null;
+    }
+
+    protected render(result: QueryResult): void {
+      const formatted = withFormat(result, this.getAttribute('format'));
+      const locale = this.setting('locale');
+      const currency = this.setting('currency');
+      const chart = suggestChart(formatted, undefined, {
+        type: (this.getAttribute('type') ?? undefined) as ChartType | undefined,
+        locale,
+        currency,
+      });
+      this.cleanup();
+      if (chart.type === 'kpi') return renderKpi(this, chart.kpi!, this.getAttribute('label'));
+      if (!chart.chartJs) return renderTable(this, formatted, locale, currency);
+
+      const Chart = (globalThis as { Chart?: ChartConstructor }).Chart;
+      if (!Chart) throw new Error('bonnard-chart draws with Chart.js; load it with a <script> tag before this element');
+      const container = element('div');
+      container.style.cssText = 'position: relative; height: 100%;';
+      const canvas = document.createElement('canvas');
+      container.append(canvas);
+      this.replaceChildren(container);
+      this.#chart = new Chart(canvas, chart.chartJs);
+    }
+  }
+
+  const elements: Array<[string, CustomElementConstructor]> = [
+    ['bonnard-provider', BonnardProviderElement],
+    ['bonnard-metric', BonnardMetricElement],
+    ['bonnard-table', BonnardTableElement],
+    ['bonnard-chart', BonnardChartElement],
+  ];
+  for (const [name, constructor] of elements) {
+    if (!registry.get(name)) registry.define(name, constructor);
+  }
+
+  if (typeof document !== 'undefined' && !document.getElementById('bonnard-elements-style')) {
+    const style = document.createElement('style');
+    style.id = 'bonnard-elements-style';
+    style.textContent = STYLES;
+    document.head.prepend(style);
+  }
+}
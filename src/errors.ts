@@ -0,0 +1,156 @@
+/**
+ * Bonnard SDK — Error types
+ */
+
+import type { ValidationIssue } from './validate.js';
+
+export type BonnardErrorCode =
+  | 'auth'
+  | 'query_validation'
+  | 'rate_limit'
+  | 'network'
+  | 'server'
+  | 'timeout'
+  | 'aborted'
+  | 'config'
+  | 'http';
+
+export interface BonnardErrorOptions {
+  /** HTTP status code, when the error came from a response. */
+  status?: number;
+  /** API endpoint that was called (e.g. `/api/cube/query`). */
+  endpoint?: string;
+  /** Parsed response body (or raw text if it was not JSON). */
+  body?: unknown;
+  /** Request ID reported by the server, if any. */
+  requestId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK.
+ * Use `instanceof` on the subclasses or switch on `code` to tell them apart.
+ */
+export class BonnardError extends Error {
+  readonly code: BonnardErrorCode;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly body?: unknown;
+  readonly requestId?: string;
+
+  constructor(message: string, code: BonnardErrorCode = 'http', options: BonnardErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'BonnardError';
+    this.code = code;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.body = options.body;
+    this.requestId = options.requestId;
+  }
+}
+
+/** 401/403 — missing, invalid or expired credentials. */
+export class AuthError extends BonnardError {
+  constructor(message: string, options?: BonnardErrorOptions) {
+    super(message, 'auth', options);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 400/422 — the query references unknown members, bad operators, etc.
+ * `issues` is set when the query was rejected by local validation.
+ */
+export class QueryValidationError extends BonnardError {
+  readonly issues?: ValidationIssue[];
+
+  constructor(message: string, options?: BonnardErrorOptions & { issues?: ValidationIssue[] }) {
+    super(message, 'query_validation', options);
+    this.name = 'QueryValidationError';
+    this.issues = options?.issues;
+  }
+}
+
+/** 429 — too many requests. `retryAfterMs` is set from the `Retry-After` header. */
+export class RateLimitError extends BonnardError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options?: BonnardErrorOptions & { retryAfterMs?: number }) {
+    super(message, 'rate_limit', options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+/** The request never got a response (DNS, connection reset, CORS, offline). */
+export class NetworkError extends BonnardError {
+  constructor(message: string, options?: BonnardErrorOptions) {
+    super(message, 'network', options);
+    this.name = 'NetworkError';
+  }
+}
+
+/** 5xx — the server failed to handle an otherwise valid request. */
+export class ServerError extends BonnardError {
+  constructor(message: string, options?: BonnardErrorOptions) {
+    super(message, 'server', options);
+    this.name = 'ServerError';
+  }
+}
+
+/** The call exceeded its `timeoutMs` or retry deadline. */
+export class TimeoutError extends BonnardError {
+  constructor(message: string, options?: BonnardErrorOptions) {
+    super(message, 'timeout', options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** The call was cancelled through the caller's `AbortSignal`. */
+export class AbortError extends BonnardError {
+  constructor(message: string, options?: BonnardErrorOptions) {
+    super(message, 'aborted', options);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+/**
+ * Build the appropriate error subclass for a non-OK response.
+ */
+export async function errorFromResponse(res: Response, endpoint: string, fallback: string): Promise<BonnardError> {
+  const text = await res.text().catch(() => '');
+  let body: unknown = text || undefined;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    // keep raw text
+  }
+
+  const parsed = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const message = typeof parsed.error === 'string' && parsed.error
+    ? parsed.error
+    : (typeof body === 'string' && body) || res.statusText || fallback;
+  const requestId = res.headers.get('x-request-id')
+    ?? (typeof parsed.requestId === 'string' ? parsed.requestId : undefined);
+  const options: BonnardErrorOptions = { status: res.status, endpoint, body, requestId };
+
+  if (res.status === 401 || res.status === 403) return new AuthError(message, options);
+  if (res.status === 429) {
+    return new RateLimitError(message, { ...options, retryAfterMs: parseRetryAfter(res.headers.get('retry-after')) });
+  }
+  if (res.status === 400 || res.status === 422) return new QueryValidationError(message, options);
+  if (res.status >= 500) return new ServerError(message, options);
+  return new BonnardError(message, 'http', options);
+}
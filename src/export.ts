@@ -0,0 +1,167 @@
+/**
+ * Bonnard SDK — Result serializers (zero IO)
+ */
+
+import type { QueryAnnotation, SqlResult, MemberKind } from './types.js';
+import type { AnyResult } from './results.js';
+import { findAnnotation } from './parse.js';
+
+type Row = Record<string, unknown>;
+
+export interface ExportOptions {
+  /** Columns to include, in order. Defaults to every key of the first row. */
+  columns?: string[];
+  /**
+   * Header labels: annotation `title` (default when an annotation is present),
+   * the full `key`, or the `shortKey` without view prefix. `false` omits the
+   * header row where the format allows it.
+   */
+  header?: 'title' | 'key' | 'shortKey' | false;
+}
+
+/** Metadata for streaming exports, which only see rows. */
+export interface StreamExportOptions extends ExportOptions {
+  annotation?: QueryAnnotation;
+  schema?: SqlResult['schema'];
+}
+
+export interface CsvOptions extends ExportOptions {
+  /** Field separator. Defaults to `,`. */
+  delimiter?: string;
+  /** Record separator. Defaults to `\r\n` as in RFC 4180. */
+  newline?: string;
+}
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  kind?: MemberKind;
+  type?: string;
+}
+
+/**
+ * Resolve the ordered columns and header labels for an export from the
+ * result's annotation (query) or schema (SQL).
+ */
+export function resolveExportColumns(
+  rows: Row[],
+  meta: { annotation?: QueryAnnotation; schema?: SqlResult['schema'] },
+  options: ExportOptions = {},
+): ExportColumn[] {
+  const keys = options.columns
+    ?? (rows.length > 0 ? Object.keys(rows[0]!) : meta.schema?.map(c => c.name) ?? []);
+  const header = options.header === undefined ? (meta.annotation ? 'title' : 'key') : options.header;
+
+  return keys.map((key) => {
+    const found = meta.annotation ? findAnnotation(meta.annotation, key) : undefined;
+    const sqlType = meta.schema?.find(c => c.name === key)?.type;
+    const shortKey = key.split('.').pop() || key;
+    const label = header === 'title' ? found?.field.title ?? shortKey
+      : header === 'shortKey' ? shortKey
+      : key;
+    return { key, header: label, kind: found?.kind, type: found?.field.type ?? sqlType };
+  });
+}
+
+function metaOf(result: AnyResult<unknown>) {
+  return {
+    annotation: 'annotation' in result ? result.annotation : undefined,
+    schema: 'schema' in result ? result.schema : undefined,
+  };
+}
+
+/** Render one value as plain text. */
+export function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function jsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  return value ?? null;
+}
+
+// --- CSV ---
+
+function csvField(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvLine(values: string[], delimiter: string): string {
+  return values.map(v => csvField(v, delimiter)).join(delimiter);
+}
+
+/** Serialize a result as RFC 4180 CSV. */
+export function toCSV(result: AnyResult<unknown>, options: CsvOptions = {}): string {
+  const rows = result.data as Row[];
+  const columns = resolveExportColumns(rows, metaOf(result), options);
+  return [...csvChunks(rows, columns, options, true)].join('');
+}
+
+function* csvChunks(rows: Row[], columns: ExportColumn[], options: CsvOptions, withHeader: boolean): Generator<string> {
+  const delimiter = options.delimiter ?? ',';
+  const newline = options.newline ?? '\r\n';
+  if (withHeader && options.header !== false) yield csvLine(columns.map(c => c.header), delimiter) + newline;
+  for (const row of rows) yield csvLine(columns.map(c => formatCell(row[c.key])), delimiter) + newline;
+}
+
+/**
+ * Stream CSV from pages of rows, e.g. `bon.queryPages(...)`. Columns are
+ * fixed by `options.columns` or the first page.
+ */
+export async function* streamCSV(pages: AsyncIterable<Row[]>, options: CsvOptions & StreamExportOptions = {}): AsyncGenerator<string> {
+  let columns: ExportColumn[] | undefined;
+  for await (const page of pages) {
+    const first = !columns;
+    columns ??= resolveExportColumns(page, options, options);
+    yield* csvChunks(page, columns, options, first);
+  }
+}
+
+// --- JSON Lines ---
+
+function jsonLine(row: Row, columns: ExportColumn[]): string {
+  const out: Row = {};
+  for (const c of columns) out[c.key] = jsonValue(row[c.key]);
+  return JSON.stringify(out) + '\n';
+}
+
+/** Serialize a result as JSON Lines, one object per row keyed by column key. */
+export function toJSONL(result: AnyResult<unknown>, options: ExportOptions = {}): string {
+  const rows = result.data as Row[];
+  const columns = resolveExportColumns(rows, metaOf(result), options);
+  return rows.map(row => jsonLine(row, columns)).join('');
+}
+
+/** Stream JSON Lines from pages of rows. */
+export async function* streamJSONL(pages: AsyncIterable<Row[]>, options: StreamExportOptions = {}): AsyncGenerator<string> {
+  let columns: ExportColumn[] | undefined;
+  for await (const page of pages) {
+    columns ??= resolveExportColumns(page, options, options);
+    for (const row of page) yield jsonLine(row, columns);
+  }
+}
+
+// --- Markdown ---
+
+function markdownCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Serialize a result as a GitHub-flavored Markdown table. Measures are
+ * right-aligned.
+ */
+export function toMarkdownTable(result: AnyResult<unknown>, options: ExportOptions = {}): string {
+  const rows = result.data as Row[];
+  const columns = resolveExportColumns(rows, metaOf(result), { ...options, header: options.header || undefined });
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+  return [
+    line(columns.map(c => markdownCell(c.header))),
+    line(columns.map(c => (c.kind === 'measure' ? '---:' : '---'))),
+    ...rows.map(row => line(columns.map(c => markdownCell(formatCell(row[c.key]))))),
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,176 @@
+/**
+ * Bonnard SDK — Locale-aware value formatting (zero IO)
+ */
+
+import type { ExploreMeta, CubeFieldMeta, Granularity } from './types.js';
+import { toDate, toNumber } from './parse.js';
+
+const GRANULARITIES = new Set<string>(['second', 'minute', 'hour', 'day', 'week', 'month', 'quarter', 'year']);
+
+export interface FormatterOptions {
+  /** BCP 47 locale. Defaults to the runtime's locale. */
+  locale?: string;
+  /** ISO 4217 code for `currency` fields without a `meta.currency`. Defaults to `USD`. */
+  currency?: string;
+  /**
+   * IANA zone used to display times. Defaults to `UTC`, which shows Cube's
+   * timestamps (already in the query timezone) unchanged.
+   */
+  timezone?: string;
+  /**
+   * How `percent` values are scaled: `100` when the semantic layer computes
+   * `100.0 * a / b` (Cube's convention, the default), `1` for fractions.
+   */
+  percentScale?: 1 | 100;
+  /** Placeholder for null values. Defaults to an empty string. */
+  nullText?: string;
+}
+
+export interface FormatValueOptions {
+  /** Granularity of a time value. Inferred from a `member.granularity` key. */
+  granularity?: Granularity;
+  /** Abbreviate large numbers (`1.2M`). Also enabled by `meta.compact` on the field. */
+  compact?: boolean;
+}
+
+export interface Formatter {
+  /** Format a value of `member` (e.g. `orders.revenue` or `orders.created_at.month`). */
+  format(member: string, value: unknown, options?: FormatValueOptions): string;
+  /** Format every value of a result row, keeping its keys. */
+  formatRow(row: Record<string, unknown>, options?: Omit<FormatValueOptions, 'granularity'>): Record<string, string>;
+  /** Field metadata for a member, if known. */
+  field(member: string): CubeFieldMeta | undefined;
+}
+
+/** ISO 8601 week number and week-year of a UTC date. */
+function isoWeek(date: Date): { week: number; year: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  return { week: Math.ceil(((d.getTime() - yearStart) / 86_400_000 + 1) / 7), year: d.getUTCFullYear() };
+}
+
+function splitGranularity(member: string): { member: string; granularity?: Granularity } {
+  const parts = member.split('.');
+  const last = parts[parts.length - 1]!;
+  if (parts.length > 2 && GRANULARITIES.has(last)) {
+    return { member: parts.slice(0, -1).join('.'), granularity: last as Granularity };
+  }
+  return { member };
+}
+
+/**
+ * Build a formatter from `explore()` metadata. Fields are formatted by their
+ * `format` (`currency`, `percent`, `number`, `id`, …) and `meta` hints
+ * (`currency`, `decimals`, `compact`); time dimensions by granularity
+ * (`Q3 2025`, `Week 12, 2025`, `Mar 2025`).
+ */
+export function createFormatter(meta: ExploreMeta, options: FormatterOptions = {}): Formatter {
+  const locale = options.locale;
+  const timeZone = options.timezone ?? 'UTC';
+  const percentScale = options.percentScale ?? 100;
+  const nullText = options.nullText ?? '';
+
+  const fields = new Map<string, CubeFieldMeta>();
+  for (const cube of meta.cubes) {
+    for (const f of [...cube.measures, ...cube.dimensions]) fields.set(f.name, f);
+  }
+
+  const numberFormats = new Map<string, Intl.NumberFormat>();
+  const numberFormat = (opts: Intl.NumberFormatOptions) => {
+    const key = JSON.stringify(opts);
+    let fmt = numberFormats.get(key);
+    if (!fmt) {
+      fmt = new Intl.NumberFormat(locale, opts);
+      numberFormats.set(key, fmt);
+    }
+    return fmt;
+  };
+
+  const dateFormat = (opts: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, { timeZone, ...opts });
+
+  function formatTime(value: unknown, granularity: Granularity | undefined): string {
+    const date = toDate(value);
+    if (!date) return String(value);
+    switch (granularity) {
+      case 'year':
+        return dateFormat({ year: 'numeric' }).format(date);
+      case 'quarter': {
+        const month = Number(dateFormat({ month: 'numeric' }).format(date));
+        return `Q${Math.floor((month - 1) / 3) + 1} ${dateFormat({ year: 'numeric' }).format(date)}`;
+      }
+      case 'month':
+        return dateFormat({ month: 'short', year: 'numeric' }).format(date);
+      case 'week': {
+        const { week, year } = isoWeek(date);
+        return `Week ${week}, ${year}`;
+      }
+      case 'hour':
+      case 'minute':
+        return dateFormat({ dateStyle: 'medium', timeStyle: 'short' }).format(date);
+      case 'second':
+        return dateFormat({ dateStyle: 'medium', timeStyle: 'medium' }).format(date);
+      default:
+        return dateFormat({ dateStyle: 'medium' }).format(date);
+    }
+  }
+
+  function formatNumber(field: CubeFieldMeta | undefined, num: number | bigint, compact: boolean): string {
+    const fieldMeta = field?.meta ?? {};
+    const decimals = typeof fieldMeta.decimals === 'number' ? fieldMeta.decimals : undefined;
+    const base: Intl.NumberFormatOptions = {
+      ...(compact && { notation: 'compact' }),
+      ...(decimals !== undefined && { minimumFractionDigits: decimals, maximumFractionDigits: decimals }),
+    };
+
+    switch (field?.format) {
+      case 'currency':
+        return numberFormat({
+          style: 'currency',
+          currency: typeof fieldMeta.currency === 'string' ? fieldMeta.currency : options.currency ?? 'USD',
+          ...base,
+        }).format(num);
+      case 'percent':
+        return numberFormat({
+          style: 'percent',
+          maximumFractionDigits: 1,
+          ...base,
+        }).format(Number(num) / percentScale);
+      case 'id':
+        return String(num);
+      default:
+        return numberFormat({ maximumFractionDigits: 2, ...base }).format(num);
+    }
+  }
+
+  const formatter: Formatter = {
+    field: (member) => fields.get(splitGranularity(member).member),
+
+    format(member, value, valueOptions = {}) {
+      if (value === null || value === undefined || value === '') return nullText;
+      const split = splitGranularity(member);
+      const field = fields.get(split.member);
+      const type = field?.type;
+
+      if (type === 'time' || value instanceof Date) {
+        return formatTime(value, valueOptions.granularity ?? split.granularity);
+      }
+      if (type === 'boolean' || typeof value === 'boolean') return String(value);
+      if (type === 'string' && field?.format !== 'currency' && field?.format !== 'percent') return String(value);
+
+      const num = toNumber(value);
+      if (num === null) return String(value);
+      const compact = valueOptions.compact ?? field?.meta?.compact === true;
+      return formatNumber(field, num, compact);
+    },
+
+    formatRow(row, rowOptions) {
+      const out: Record<string, string> = {};
+      for (const key of Object.keys(row)) out[key] = formatter.format(key, row[key], rowOptions);
+      return out;
+    },
+  };
+
+  return formatter;
+}
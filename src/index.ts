@@ -1,11 +1,100 @@
 export { createClient } from './client.js';
 export { toCubeQuery } from './query.js';
+export type { QueryBuilder, FilterBuilder } from './builder.js';
+export { createMemoryStorage, createWebStorage } from './cache.js';
+export { parseRows, parseValue, columnsFromAnnotation } from './parse.js';
+export { stripPrefixes, toColumns, pivot, toSeries, totals, truncateDate, nextPeriod } from './results.js';
+export { toCSV, toJSONL, toMarkdownTable, streamCSV, streamJSONL, formatCell } from './export.js';
+export type { ExportOptions, StreamExportOptions, CsvOptions, ExportColumn } from './export.js';
+export { createFormatter } from './format.js';
+export type { Formatter, FormatterOptions, FormatValueOptions } from './format.js';
+export { suggestChart } from './chart.js';
+export type { ChartType, ChartOptions, ChartField, KpiValue, ChartJsConfig, ChartSuggestion } from './chart.js';
+export type {
+  AnyResult,
+  PivotOptions,
+  PivotResult,
+  SeriesOptions,
+  Series,
+  SeriesResult,
+  TotalsOptions,
+  TotalsResult,
+} from './results.js';
+export { validateQuery, didYouMean, editDistance } from './validate.js';
+export type { ValidationResult, ValidationIssue, ValidationIssueCode } from './validate.js';
+export { lintSql } from './sql-lint.js';
+export type { SqlLintResult, SqlLintIssue, SqlLintIssueCode, SqlClause } from './sql-lint.js';
+export { generateSchemaTypes } from './codegen.js';
+export type { GenerateSchemaOptions } from './codegen.js';
+export type { BonnardClient } from './client.js';
+export type {
+  BonnardSchema,
+  ViewSchema,
+  MeasureOf,
+  DimensionOf,
+  TimeDimensionOf,
+  SegmentOf,
+  MemberOf,
+  ValueOf,
+  TypedFilter,
+  TypedQueryOptions,
+  TypedCubeFilter,
+  TypedCubeQuery,
+  TypedQueryBuilder,
+  TypedRow,
+  RowMode,
+  ParseSetting,
+  TypedBonnardClient,
+} from './schema.js';
+export {
+  BonnardError,
+  AuthError,
+  QueryValidationError,
+  RateLimitError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  AbortError,
+} from './errors.js';
+export type { BonnardErrorCode, BonnardErrorOptions } from './errors.js';
 export type {
   BonnardConfig,
+  BonnardRequest,
+  Middleware,
+  RequestEvent,
+  ResponseEvent,
+  RequestErrorEvent,
+  TokenRefreshEvent,
+  Tracer,
+  Span,
+  RetryOptions,
+  RequestOptions,
+  PaginationOptions,
+  CacheOptions,
+  CacheEntry,
+  QueryCacheStorage,
+  AutoBatchOptions,
+  BatchOptions,
+  BatchResult,
   QueryOptions,
   QueryResult,
+  QueryAnnotation,
+  AnnotationField,
+  ColumnMeta,
+  MemberKind,
+  ParseOptions,
   SqlResult,
+  ExplainResult,
+  DryRunResult,
   Filter,
+  MemberFilter,
+  FilterOperator,
+  ValueFilterOperator,
+  UnaryFilterOperator,
+  LogicalFilter,
+  QueryFilter,
+  CubeFilter,
+  Granularity,
   TimeDimension,
   InferQueryResult,
   CubeQuery,
@@ -0,0 +1,74 @@
+/**
+ * Bonnard SDK — Middleware chain, lifecycle hooks and tracing (zero IO)
+ */
+
+import type { BonnardRequest, Middleware, RequestEvent, Span, Tracer } from './types.js';
+import { BonnardError } from './errors.js';
+
+// OpenTelemetry SpanKind.CLIENT and SpanStatusCode.ERROR, without depending on @opentelemetry/api
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+type Dispatch = (request: BonnardRequest) => Promise<Response>;
+
+/** Wrap `terminal` in `middleware`, the first entry outermost. */
+export function composeMiddleware(middleware: Middleware[], terminal: Dispatch): Dispatch {
+  return middleware.reduceRight<Dispatch>((next, mw) => (request) => mw(request, next), terminal);
+}
+
+/** Describe a call for lifecycle hooks from its JSON body. */
+export function requestEvent(endpoint: string, method: 'GET' | 'POST', body: unknown): RequestEvent {
+  const { query, sql } = (body ?? {}) as Pick<RequestEvent, 'query' | 'sql'>;
+  return {
+    endpoint,
+    method,
+    ...(query !== undefined && { query }),
+    ...(typeof sql === 'string' && { sql }),
+  };
+}
+
+/** Rows in a query or SQL response, summed across a batch. */
+export function rowCountOf(body: unknown): number | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const { data, results } = body as { data?: unknown; results?: Array<{ data?: unknown }> };
+  if (Array.isArray(data)) return data.length;
+  if (Array.isArray(results)) {
+    return results.reduce((sum, r) => sum + (Array.isArray(r?.data) ? r.data.length : 0), 0);
+  }
+  return undefined;
+}
+
+/** Call an observer hook. A throwing hook never fails the call it observes. */
+export function notify<E>(hook: ((event: E) => void) | undefined, event: E): void {
+  if (!hook) return;
+  try {
+    hook(event);
+  } catch {
+    // observers must not affect the request
+  }
+}
+
+/**
+ * Start a client span for one HTTP attempt, named and attributed per the
+ * OpenTelemetry HTTP client semantic conventions.
+ */
+export function startHttpSpan(tracer: Tracer, request: BonnardRequest): Span {
+  const url = new URL(request.url);
+  const attributes: Record<string, string | number | boolean> = {
+    'http.request.method': request.method,
+    'url.full': request.url,
+    'server.address': url.hostname,
+    'server.port': Number(url.port) || (url.protocol === 'https:' ? 443 : 80),
+    'bonnard.endpoint': request.endpoint,
+  };
+  if (request.attempt > 1) attributes['http.request.resend_count'] = request.attempt - 1;
+  return tracer.startSpan(request.method, { kind: SPAN_KIND_CLIENT, attributes });
+}
+
+/** Mark a span as failed with `error.type` set to the SDK error code. */
+export function recordSpanError(span: Span, err: unknown): void {
+  const error = err instanceof Error ? err : new Error(String(err));
+  span.setAttribute('error.type', err instanceof BonnardError ? err.code : error.name);
+  span.recordException(error);
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+}
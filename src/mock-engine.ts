@@ -0,0 +1,507 @@
+/**
+ * Bonnard SDK — In-memory Cube query engine for tests (zero IO)
+ */
+
+import type {
+  CubeQuery,
+  CubeFilter,
+  ExploreMeta,
+  CubeFieldMeta,
+  QueryAnnotation,
+  AnnotationField,
+  Granularity,
+  DryRunResult,
+  ExplainResult,
+} from './types.js';
+import { QueryValidationError } from './errors.js';
+import { toDate, toNumber } from './parse.js';
+import { truncateDate, nextPeriod } from './results.js';
+
+type Row = Record<string, unknown>;
+
+/** Fixture data the engine answers from. */
+export interface MockDataset {
+  meta: ExploreMeta;
+  /**
+   * Raw fact rows per cube or view name. Keys may be full member names
+   * (`orders.city`) or short names (`city`); a measure's column holds its
+   * per-row value (e.g. the order amount for a `sum` measure).
+   */
+  tables: Record<string, Row[]>;
+  /** Predicates for segments, keyed by full segment name. */
+  segments?: Record<string, (row: Row) => boolean>;
+  /** Reference time for relative date ranges. Defaults to the current time. */
+  now?: () => Date;
+}
+
+export interface MockQueryResponse {
+  data: Row[];
+  annotation: QueryAnnotation;
+}
+
+const DEFAULT_LIMIT = 10_000;
+const AGGREGATIONS = new Set(['count', 'countDistinct', 'countDistinctApprox', 'sum', 'avg', 'min', 'max', 'runningTotal']);
+const DATE_OPERATORS = new Set(['inDateRange', 'notInDateRange', 'beforeDate', 'beforeOrOnDate', 'afterDate', 'afterOrOnDate']);
+const RELATIVE_UNITS: Record<string, Granularity> = {
+  day: 'day', days: 'day', week: 'week', weeks: 'week', month: 'month', months: 'month',
+  quarter: 'quarter', quarters: 'quarter', year: 'year', years: 'year',
+};
+
+interface Member {
+  name: string;
+  cube: string;
+  field: CubeFieldMeta;
+  kind: 'measure' | 'dimension';
+}
+
+/** Format a timestamp the way Cube does (`2025-01-01T00:00:00.000`). */
+function cubeTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 23);
+}
+
+function shortName(member: string): string {
+  return member.slice(member.indexOf('.') + 1);
+}
+
+function rawValue(row: Row, member: string): unknown {
+  return member in row ? row[member] : row[shortName(member)];
+}
+
+/** Aggregation of a measure: Cube's `aggType`, or a `type` that names one. Defaults to `sum`. */
+function aggregationOf(field: CubeFieldMeta): string {
+  if (field.aggType) return field.aggType;
+  return AGGREGATIONS.has(field.type) ? field.type : 'sum';
+}
+
+function shiftPeriods(date: Date, granularity: Granularity, count: number): Date {
+  let d = date;
+  const step = count < 0 ? -1 : 1;
+  for (let i = 0; i !== count; i += step) {
+    d = step > 0 ? nextPeriod(d, granularity) : previousPeriod(d, granularity);
+  }
+  return d;
+}
+
+function previousPeriod(date: Date, granularity: Granularity): Date {
+  const d = new Date(date.getTime());
+  switch (granularity) {
+    case 'year': d.setUTCFullYear(d.getUTCFullYear() - 1); break;
+    case 'quarter': d.setUTCMonth(d.getUTCMonth() - 3); break;
+    case 'month': d.setUTCMonth(d.getUTCMonth() - 1); break;
+    case 'week': d.setUTCDate(d.getUTCDate() - 7); break;
+    default: d.setUTCDate(d.getUTCDate() - 1); break;
+  }
+  return d;
+}
+
+/**
+ * Resolve a Cube date range to a half-open `[from, to)` interval. Supports
+ * explicit ranges (date-only ends are inclusive of the whole day) and the
+ * common relative forms: `today`, `yesterday`, `this|last <unit>` and
+ * `last N <units>`.
+ */
+export function resolveDateRange(range: string | (string | number)[], now: Date = new Date()): [Date, Date] {
+  if (Array.isArray(range)) {
+    const [start, end = start] = range.map(String);
+    const from = toDate(start);
+    const to = toDate(end);
+    if (!from || !to) throw new QueryValidationError(`Invalid date range: ${JSON.stringify(range)}`);
+    return [from, end.includes('T') ? new Date(to.getTime() + 1) : nextPeriod(truncateDate(to, 'day'), 'day')];
+  }
+
+  const text = range.trim().toLowerCase();
+  const today = truncateDate(now, 'day');
+  if (text === 'today') return [today, nextPeriod(today, 'day')];
+  if (text === 'yesterday') return [shiftPeriods(today, 'day', -1), today];
+
+  const match = /^(this|last)\s+(?:(\d+)\s+)?([a-z]+)$/.exec(text);
+  const unit = match && RELATIVE_UNITS[match[3]!];
+  if (!match || !unit) throw new QueryValidationError(`Unsupported date range: "${range}"`);
+
+  const current = truncateDate(now, unit);
+  if (match[1] === 'this') {
+    if (match[2]) throw new QueryValidationError(`Unsupported date range: "${range}"`);
+    return [current, nextPeriod(current, unit)];
+  }
+  return [shiftPeriods(current, unit, -Number(match[2] ?? 1)), current];
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  const na = toNumber(a, false);
+  const nb = toNumber(b, false);
+  if (typeof na === 'number' && typeof nb === 'number') return na - nb;
+  return String(a).localeCompare(String(b));
+}
+
+export function createMockEngine(dataset: MockDataset) {
+  const members = new Map<string, Member>();
+  const segmentNames = new Set<string>();
+  for (const cube of dataset.meta.cubes) {
+    for (const field of cube.measures) members.set(field.name, { name: field.name, cube: cube.name, field, kind: 'measure' });
+    for (const field of cube.dimensions) members.set(field.name, { name: field.name, cube: cube.name, field, kind: 'dimension' });
+    for (const segment of cube.segments) segmentNames.add(segment.name);
+  }
+
+  function resolve(name: string, kind?: Member['kind']): Member {
+    const member = members.get(name);
+    if (!member) throw new QueryValidationError(`'${name}' not found`);
+    if (kind && member.kind !== kind) {
+      throw new QueryValidationError(`'${name}' is a ${member.kind}, not a ${kind}`);
+    }
+    return member;
+  }
+
+  function annotationField(field: CubeFieldMeta): AnnotationField {
+    return {
+      title: field.title ?? field.name,
+      shortTitle: field.shortTitle ?? shortName(field.name),
+      type: field.type,
+      ...(field.aggType !== undefined && { aggType: field.aggType }),
+      ...(field.format !== undefined && { format: field.format }),
+      ...(field.meta !== undefined && { meta: field.meta }),
+    };
+  }
+
+  function matches(value: unknown, operator: string, values: (string | number)[], member: Member): boolean {
+    const isSet = value !== null && value !== undefined && value !== '';
+    const text = isSet ? String(value).toLowerCase() : '';
+    const needles = values.map(v => String(v).toLowerCase());
+
+    switch (operator) {
+      case 'set': return isSet;
+      case 'notSet': return !isSet;
+      case 'equals': return isSet && values.some(v => compare(value, v) === 0);
+      case 'notEquals': return !isSet || values.every(v => compare(value, v) !== 0);
+      case 'contains': return isSet && needles.some(n => text.includes(n));
+      case 'notContains': return !isSet || needles.every(n => !text.includes(n));
+      case 'startsWith': return isSet && needles.some(n => text.startsWith(n));
+      case 'notStartsWith': return !isSet || needles.every(n => !text.startsWith(n));
+      case 'endsWith': return isSet && needles.some(n => text.endsWith(n));
+      case 'notEndsWith': return !isSet || needles.every(n => !text.endsWith(n));
+      case 'gt': return isSet && compare(value, values[0]) > 0;
+      case 'gte': return isSet && compare(value, values[0]) >= 0;
+      case 'lt': return isSet && compare(value, values[0]) < 0;
+      case 'lte': return isSet && compare(value, values[0]) <= 0;
+    }
+
+    if (!DATE_OPERATORS.has(operator)) throw new QueryValidationError(`Unknown filter operator '${operator}'`);
+    if (member.field.type !== 'time') {
+      throw new QueryValidationError(`Operator '${operator}' requires a time dimension, got '${member.name}'`);
+    }
+    const date = toDate(value);
+    if (!date) return false;
+    const [from, to] = resolveDateRange(values, dataset.now?.());
+    switch (operator) {
+      case 'inDateRange': return date >= from && date < to;
+      case 'notInDateRange': return date < from || date >= to;
+      case 'beforeDate': return date < from;
+      case 'beforeOrOnDate': return date < resolveDateRange([values[0]!], dataset.now?.())[1];
+      case 'afterDate': return date >= resolveDateRange([values[0]!], dataset.now?.())[1];
+      default: return date >= from; // afterOrOnDate
+    }
+  }
+
+  /** Evaluate a filter tree; `read` returns a member's value for the current row or group. */
+  function evaluate(filter: CubeFilter, read: (member: Member) => unknown): boolean {
+    if ('and' in filter) return filter.and.every(f => evaluate(f, read));
+    if ('or' in filter) return filter.or.some(f => evaluate(f, read));
+    const member = resolve(filter.member);
+    return matches(read(member), filter.operator, filter.values ?? [], member);
+  }
+
+  /** Split top-level filters into row filters (dimensions) and group filters (measures). */
+  function hasMeasure(filter: CubeFilter): boolean {
+    if ('and' in filter) return filter.and.some(hasMeasure);
+    if ('or' in filter) return filter.or.some(hasMeasure);
+    return resolve(filter.member).kind === 'measure';
+  }
+
+  function aggregate(member: Member, rows: Row[]): number | null {
+    const agg = aggregationOf(member.field);
+    const raw = rows.map(r => rawValue(r, member.name));
+
+    if (agg === 'count') {
+      // Rows without a column for the measure count as one each
+      const hasColumn = (r: Row) => member.name in r || shortName(member.name) in r;
+      return rows.filter((r, i) => !hasColumn(r) || (raw[i] !== null && raw[i] !== undefined)).length;
+    }
+    if (agg === 'countDistinct' || agg === 'countDistinctApprox') {
+      return new Set(raw.filter(v => v !== null && v !== undefined).map(String)).size;
+    }
+
+    const nums = raw.map(v => toNumber(v, false)).filter((n): n is number => typeof n === 'number');
+    if (nums.length === 0) return agg === 'sum' || agg === 'runningTotal' ? 0 : null;
+    switch (agg) {
+      case 'avg': return nums.reduce((a, b) => a + b, 0) / nums.length;
+      case 'min': return Math.min(...nums);
+      case 'max': return Math.max(...nums);
+      default: return nums.reduce((a, b) => a + b, 0);
+    }
+  }
+
+  /** Resolve and check a query's members, source and order. */
+  function plan(query: CubeQuery) {
+    const measures = (query.measures ?? []).map(m => resolve(m, 'measure'));
+    const dimensions = (query.dimensions ?? []).map(d => resolve(d, 'dimension'));
+    const timeDimensions = (query.timeDimensions ?? []).map((td) => {
+      const member = resolve(td.dimension, 'dimension');
+      if (member.field.type !== 'time') {
+        throw new QueryValidationError(`'${td.dimension}' is not a time dimension`);
+      }
+      return { ...td, member };
+    });
+    for (const segment of query.segments ?? []) {
+      if (!segmentNames.has(segment)) throw new QueryValidationError(`Segment '${segment}' not found`);
+    }
+    const filters = query.filters ?? [];
+    // Resolves every filter member, throwing on unknown ones
+    const groupFilters = filters.filter(hasMeasure);
+    const rowFilters = filters.filter(f => !groupFilters.includes(f));
+
+    const referenced = [
+      ...measures, ...dimensions, ...timeDimensions.map(td => td.member),
+    ];
+    const cubes = new Set(referenced.map(m => m.cube));
+    for (const segment of query.segments ?? []) cubes.add(segment.split('.')[0]!);
+    if (cubes.size > 1) {
+      throw new QueryValidationError(`Mock queries must use members of a single cube or view, got ${[...cubes].join(', ')}`);
+    }
+
+    // Explicit order, else first time dimension asc, first measure desc or first dimension asc
+    const order: Array<[string, 'asc' | 'desc']> = Array.isArray(query.order)
+      ? [...query.order]
+      : Object.entries(query.order ?? {});
+    if (!query.order) {
+      const td = timeDimensions.find(t => t.granularity);
+      if (td) order.push([`${td.dimension}.${td.granularity}`, 'asc']);
+      else if (measures[0]) order.push([measures[0].name, 'desc']);
+      else if (dimensions[0]) order.push([dimensions[0].name, 'asc']);
+    }
+    const granularityKeys = timeDimensions.filter(td => td.granularity).map(td => `${td.dimension}.${td.granularity}`);
+    for (const [key] of order) {
+      if (!members.has(key) && !granularityKeys.includes(key)) throw new QueryValidationError(`'${key}' not found`);
+    }
+
+    return {
+      cube: [...cubes][0],
+      measures,
+      dimensions,
+      timeDimensions,
+      rowFilters,
+      groupFilters,
+      order,
+      limit: query.limit ?? DEFAULT_LIMIT,
+      offset: query.offset ?? 0,
+    };
+  }
+
+  /**
+   * Execute a Cube query: filter rows, group by dimensions and time
+   * granularities, aggregate measures, apply measure filters, order and
+   * page. Values come back as Cube returns them: measures as numeric
+   * strings, times as `YYYY-MM-DDTHH:mm:ss.sss`.
+   */
+  function execute(query: CubeQuery): MockQueryResponse {
+    const { cube, measures, dimensions, timeDimensions, rowFilters, groupFilters, order, limit, offset } = plan(query);
+    for (const segment of query.segments ?? []) {
+      if (!dataset.segments?.[segment]) {
+        throw new QueryValidationError(`Segment '${segment}' has no predicate in the mock dataset`);
+      }
+    }
+    const table = cube ? dataset.tables[cube] ?? [] : [];
+
+    // 1. Row-level filters, date ranges and segments
+    const filtered = table.filter((row) => {
+      if (!rowFilters.every(f => evaluate(f, m => rawValue(row, m.name)))) return false;
+      for (const td of timeDimensions) {
+        if (!td.dateRange) continue;
+        const date = toDate(rawValue(row, td.dimension));
+        const [from, to] = resolveDateRange(td.dateRange, dataset.now?.());
+        if (!date || date < from || date >= to) return false;
+      }
+      return (query.segments ?? []).every(s => dataset.segments![s]!(row));
+    });
+
+    // 2. Group by dimensions and truncated time dimensions
+    const keyOf = (row: Row): Row => {
+      const key: Row = {};
+      for (const d of dimensions) {
+        const value = rawValue(row, d.name) ?? null;
+        key[d.name] = d.field.type === 'time' && value !== null ? cubeTimestamp(toDate(value) ?? new Date(NaN)) : value;
+      }
+      for (const td of timeDimensions) {
+        if (!td.granularity) continue;
+        const date = toDate(rawValue(row, td.dimension));
+        const value = date ? cubeTimestamp(truncateDate(date, td.granularity)) : null;
+        key[`${td.dimension}.${td.granularity}`] = value;
+        key[td.dimension] = value;
+      }
+      return key;
+    };
+
+    const groups = new Map<string, { key: Row; rows: Row[] }>();
+    const grouped = dimensions.length > 0 || timeDimensions.some(td => td.granularity);
+    if (grouped) {
+      for (const row of filtered) {
+        const key = keyOf(row);
+        const id = JSON.stringify(key);
+        const group = groups.get(id);
+        if (group) group.rows.push(row);
+        else groups.set(id, { key, rows: [row] });
+      }
+    } else if (measures.length > 0) {
+      groups.set('', { key: {}, rows: filtered });
+    }
+
+    // 3. Aggregate and apply measure filters
+    const data = [...groups.values()]
+      .map(({ key, rows }) => {
+        const out: Row = { ...key };
+        const values = new Map<string, number | null>();
+        for (const m of measures) values.set(m.name, aggregate(m, rows));
+        return { out, values, rows };
+      })
+      .filter(({ values, rows }) => groupFilters.every(f => evaluate(f, m =>
+        m.kind === 'measure' ? values.get(m.name) ?? aggregate(m, rows) : rawValue(rows[0]!, m.name)
+      )))
+      .map(({ out, values }) => {
+        for (const [name, value] of values) out[name] = value === null ? null : String(value);
+        return out;
+      });
+
+    // 4. Order and page
+    data.sort((a, b) => {
+      for (const [key, dir] of order) {
+        const c = compare(a[key], b[key]);
+        if (c !== 0) return dir === 'desc' ? -c : c;
+      }
+      return 0;
+    });
+
+    const annotation: QueryAnnotation = { measures: {}, dimensions: {}, segments: {}, timeDimensions: {} };
+    for (const m of measures) annotation.measures[m.name] = annotationField(m.field);
+    for (const d of dimensions) annotation.dimensions[d.name] = annotationField(d.field);
+    for (const td of timeDimensions) {
+      if (!td.granularity) continue;
+      annotation.timeDimensions![td.dimension] = annotationField(td.member.field);
+      annotation.timeDimensions![`${td.dimension}.${td.granularity}`] = annotationField(td.member.field);
+    }
+    for (const s of query.segments ?? []) annotation.segments![s] = { title: s, shortTitle: shortName(s), type: 'boolean' };
+
+    return { data: data.slice(offset, offset + limit), annotation };
+  }
+
+  /** The query as Cube would normalize it: explicit order, limit and timezone. */
+  function normalize(query: CubeQuery): DryRunResult {
+    const { order, limit } = plan(query);
+    const normalized = { ...query, order, limit, timezone: 'UTC' } as CubeQuery;
+    return {
+      queryType: 'regularQuery',
+      normalizedQueries: [normalized],
+      queryOrder: order.map(([key, dir]) => ({ [key]: dir })),
+      pivotQuery: normalized,
+    };
+  }
+
+  /**
+   * Compile a query to illustrative Postgres-style SQL over a table named
+   * after the cube. Only the shape (columns, grouping, filters, order,
+   * paging) matches what Cube would generate.
+   */
+  function compile(query: CubeQuery): ExplainResult {
+    const { cube = '', measures, dimensions, timeDimensions, rowFilters, groupFilters, order, limit, offset } = plan(query);
+    const params: unknown[] = [];
+    const alias = (name: string) => name.replace(/\./g, '__');
+    const column = (name: string) => `"${cube}".${shortName(name)}`;
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const aggregateSql = (m: Member) => {
+      const agg = aggregationOf(m.field);
+      if (agg === 'count') return 'count(*)';
+      if (agg === 'countDistinct' || agg === 'countDistinctApprox') return `count(distinct ${column(m.name)})`;
+      return `${agg === 'runningTotal' ? 'sum' : agg}(${column(m.name)})`;
+    };
+    const filterSql = (filter: CubeFilter): string => {
+      if ('and' in filter) return `(${filter.and.map(filterSql).join(' AND ')})`;
+      if ('or' in filter) return `(${filter.or.map(filterSql).join(' OR ')})`;
+      const member = resolve(filter.member);
+      const target = member.kind === 'measure' ? aggregateSql(member) : column(member.name);
+      const values = filter.values ?? [];
+      const ops: Record<string, () => string> = {
+        set: () => `${target} IS NOT NULL`,
+        notSet: () => `${target} IS NULL`,
+        equals: () => `${target} IN (${values.map(param).join(', ')})`,
+        notEquals: () => `${target} NOT IN (${values.map(param).join(', ')})`,
+        contains: () => `${target} ILIKE '%' || ${param(values[0])} || '%'`,
+        notContains: () => `${target} NOT ILIKE '%' || ${param(values[0])} || '%'`,
+        startsWith: () => `${target} ILIKE ${param(values[0])} || '%'`,
+        notStartsWith: () => `${target} NOT ILIKE ${param(values[0])} || '%'`,
+        endsWith: () => `${target} ILIKE '%' || ${param(values[0])}`,
+        notEndsWith: () => `${target} NOT ILIKE '%' || ${param(values[0])}`,
+        gt: () => `${target} > ${param(values[0])}`,
+        gte: () => `${target} >= ${param(values[0])}`,
+        lt: () => `${target} < ${param(values[0])}`,
+        lte: () => `${target} <= ${param(values[0])}`,
+        inDateRange: () => `${target} >= ${param(values[0])} AND ${target} <= ${param(values[1] ?? values[0])}`,
+        notInDateRange: () => `(${target} < ${param(values[0])} OR ${target} > ${param(values[1] ?? values[0])})`,
+        beforeDate: () => `${target} < ${param(values[0])}`,
+        beforeOrOnDate: () => `${target} <= ${param(values[0])}`,
+        afterDate: () => `${target} > ${param(values[0])}`,
+        afterOrOnDate: () => `${target} >= ${param(values[0])}`,
+      };
+      const op = ops[filter.operator];
+      if (!op) throw new QueryValidationError(`Unknown filter operator '${filter.operator}'`);
+      return op();
+    };
+
+    const select: string[] = [];
+    const aliases: Record<string, string> = {};
+    const groupBy: number[] = [];
+    for (const d of dimensions) {
+      select.push(`${column(d.name)} "${alias(d.name)}"`);
+      aliases[alias(d.name)] = d.name;
+      groupBy.push(select.length);
+    }
+    for (const td of timeDimensions) {
+      if (!td.granularity) continue;
+      const key = `${td.dimension}.${td.granularity}`;
+      select.push(`date_trunc('${td.granularity}', ${column(td.dimension)}) "${alias(key)}"`);
+      aliases[alias(key)] = key;
+      groupBy.push(select.length);
+    }
+    for (const m of measures) {
+      select.push(`${aggregateSql(m)} "${alias(m.name)}"`);
+      aliases[alias(m.name)] = m.name;
+    }
+
+    const where = rowFilters.map(filterSql);
+    for (const td of timeDimensions) {
+      if (!td.dateRange) continue;
+      const [from, to] = resolveDateRange(td.dateRange, dataset.now?.());
+      where.push(`${column(td.dimension)} >= ${param(from.toISOString())} AND ${column(td.dimension)} < ${param(to.toISOString())}`);
+    }
+    for (const segment of query.segments ?? []) where.push(column(segment));
+    const having = groupFilters.map(filterSql);
+    const orderSql = order.map(([key, dir]) => `"${alias(key)}" ${dir.toUpperCase()}`);
+
+    const sql = [
+      `SELECT\n  ${select.join(',\n  ') || '1'}`,
+      `FROM ${cube} AS "${cube}"`,
+      where.length > 0 && `WHERE ${where.join('\n  AND ')}`,
+      groupBy.length > 0 && `GROUP BY ${groupBy.join(', ')}`,
+      having.length > 0 && `HAVING ${having.join('\n  AND ')}`,
+      orderSql.length > 0 && `ORDER BY ${orderSql.join(', ')}`,
+      `LIMIT ${limit}`,
+      offset > 0 && `OFFSET ${offset}`,
+    ].filter(Boolean).join('\n');
+
+    return { sql, params, members: aliases, dataSource: 'default', preAggregations: [] };
+  }
+
+  return { execute, normalize, compile };
+}
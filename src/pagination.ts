@@ -0,0 +1,61 @@
+/**
+ * Bonnard SDK — Offset pagination helpers (zero IO)
+ */
+
+import { QueryValidationError } from './errors.js';
+import { trailingClauses } from './sql-lint.js';
+import type { PaginationOptions } from './types.js';
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+export type FetchPage<T> = (limit: number, offset: number) => Promise<T[]>;
+
+/**
+ * Yield pages from `fetchPage` until a short page comes back or `maxRows`
+ * rows have been produced. `startOffset` is where the first page begins.
+ */
+export async function* paginate<T>(
+  fetchPage: FetchPage<T>,
+  options: PaginationOptions | undefined,
+  startOffset = 0,
+): AsyncGenerator<T[], void, undefined> {
+  const pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
+  const maxRows = options?.maxRows ?? Infinity;
+  let offset = startOffset;
+  let produced = 0;
+
+  while (produced < maxRows) {
+    const limit = Math.min(pageSize, maxRows - produced);
+    const page = await fetchPage(limit, offset);
+    if (page.length > 0) yield page;
+    produced += page.length;
+    offset += page.length;
+    if (page.length < limit) return;
+  }
+}
+
+/** Concatenate every page from `pages`. */
+export async function collectPages<T>(pages: AsyncIterable<T[]>): Promise<T[]> {
+  const rows: T[] = [];
+  for await (const page of pages) rows.push(...page);
+  return rows;
+}
+
+/**
+ * One page of a SQL statement. Trailing semicolons are dropped and
+ * `LIMIT`/`OFFSET` appended, so the statement's own `ORDER BY` orders every
+ * page. A statement with its own `LIMIT` or `OFFSET` is paged as a subquery,
+ * which can't carry an ordering; with an `ORDER BY` as well it is rejected.
+ */
+export function toSqlPage(sql: string, limit: number, offset: number): string {
+  const statement = sql.trim().replace(/;+\s*$/, '');
+  const own = trailingClauses(statement);
+  // On its own line so a trailing `--` comment can't swallow it
+  if (own.limit === undefined) return `${statement}\nLIMIT ${limit} OFFSET ${offset}`;
+  if (own.orderBy !== undefined) {
+    throw new QueryValidationError(
+      'Cannot page SQL that has both ORDER BY and its own LIMIT or OFFSET: drop the LIMIT/OFFSET and use `maxRows` instead'
+    );
+  }
+  return `SELECT * FROM (${statement}) AS bonnard_page LIMIT ${limit} OFFSET ${offset}`;
+}
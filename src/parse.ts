@@ -0,0 +1,123 @@
+/**
+ * Bonnard SDK — Annotation-driven result parsing (zero IO)
+ */
+
+import type { QueryAnnotation, AnnotationField, ColumnMeta, MemberKind, ParseOptions, Granularity } from './types.js';
+
+const GRANULARITIES = new Set(['second', 'minute', 'hour', 'day', 'week', 'month', 'quarter', 'year']);
+
+const SECTIONS: Array<[keyof QueryAnnotation, MemberKind]> = [
+  ['measures', 'measure'],
+  ['dimensions', 'dimension'],
+  ['timeDimensions', 'timeDimension'],
+  ['segments', 'segment'],
+];
+
+/** Coerce a numeric string; unsafe integers become `bigint` when allowed. */
+export function toNumber(value: unknown, bigint = true): number | bigint | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number' || typeof value === 'bigint') return value;
+  if (typeof value !== 'string') return null;
+  const num = Number(value);
+  if (isNaN(num)) return null;
+  if (bigint && Number.isInteger(num) && !Number.isSafeInteger(num) && /^-?\d+$/.test(value.trim())) {
+    return BigInt(value.trim());
+  }
+  return num;
+}
+
+/** Parse a Cube timestamp. Values without a timezone are treated as UTC. */
+export function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value !== 'string') return null;
+  let iso = value.includes('T') ? value : `${value}T00:00:00`;
+  if (!/([zZ]|[+-]\d{2}:?\d{2})$/.test(iso)) iso += 'Z';
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function toBoolean(value: unknown): boolean | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 1 || value === '1') return true;
+  if (value === 'false' || value === 0 || value === '0') return false;
+  return null;
+}
+
+/**
+ * Coerce one value according to its Cube member type. Unknown types are
+ * returned unchanged.
+ */
+export function parseValue(value: unknown, type: string, kind: MemberKind, options: ParseOptions = {}): unknown {
+  if (value === null || value === undefined) return null;
+  if (type === 'time') return options.dates === false ? value : toDate(value);
+  if (type === 'boolean') return toBoolean(value);
+  if (type === 'string') return value;
+  // Every measure type other than string/time/boolean is numeric (count, sum, avg, number, …)
+  if (type === 'number' || kind === 'measure') return toNumber(value, options.bigint ?? true) ?? value;
+  return value;
+}
+
+/** Find a member's annotation and kind by its row key. */
+export function findAnnotation(
+  annotation: QueryAnnotation,
+  key: string,
+): { field: AnnotationField; kind: MemberKind } | undefined {
+  for (const [section, kind] of SECTIONS) {
+    const field = annotation[section]?.[key];
+    if (field) return { field, kind };
+  }
+  return undefined;
+}
+
+/** Coerce every value in `rows` using `annotation`. Returns new row objects. */
+export function parseRows<T = Record<string, unknown>>(
+  rows: Record<string, unknown>[],
+  annotation: QueryAnnotation | undefined,
+  options: ParseOptions = {},
+): T[] {
+  if (!annotation || rows.length === 0) return rows as T[];
+
+  const keys = Object.keys(rows[0]!);
+  const lookups = keys.map(key => [key, findAnnotation(annotation, key)] as const);
+
+  return rows.map((row) => {
+    const parsed: Record<string, unknown> = { ...row };
+    for (const [key, found] of lookups) {
+      if (found) parsed[key] = parseValue(row[key], found.field.type, found.kind, options);
+    }
+    return parsed as T;
+  });
+}
+
+/**
+ * Column metadata in result order. When `rows` is given, columns follow the
+ * key order of the first row; otherwise annotation order is used.
+ */
+export function columnsFromAnnotation(annotation: QueryAnnotation, rows?: Record<string, unknown>[]): ColumnMeta[] {
+  const keys = rows && rows.length > 0
+    ? Object.keys(rows[0]!)
+    : SECTIONS.flatMap(([section]) => Object.keys(annotation[section] ?? {}));
+
+  const columns: ColumnMeta[] = [];
+  for (const key of keys) {
+    const found = findAnnotation(annotation, key);
+    if (!found) continue;
+    const suffix = key.split('.').pop()!;
+    const column: ColumnMeta = {
+      key,
+      title: found.field.title,
+      type: found.field.type,
+      kind: found.kind,
+    };
+    if (found.field.shortTitle) column.shortTitle = found.field.shortTitle;
+    if (found.field.format) column.format = found.field.format;
+    if (found.kind === 'timeDimension' && GRANULARITIES.has(suffix) && key.split('.').length > 2) {
+      column.granularity = suffix as Granularity;
+    }
+    columns.push(column);
+  }
+  return columns;
+}
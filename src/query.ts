@@ -2,7 +2,24 @@
  * Bonnard SDK — Query format conversion (zero IO)
  */
 
-import type { QueryOptions } from './types.js';
+import type { QueryOptions, QueryFilter, CubeFilter, CubeQuery, TimeDimension } from './types.js';
+
+function toCubeFilter(filter: QueryFilter): CubeFilter {
+  if ('and' in filter) return { and: filter.and.map(toCubeFilter) };
+  if ('or' in filter) return { or: filter.or.map(toCubeFilter) };
+
+  const cubeFilter: CubeFilter = { member: filter.dimension, operator: filter.operator };
+  if (filter.values) cubeFilter.values = filter.values;
+  return cubeFilter;
+}
+
+function toCubeTimeDimension(td: TimeDimension) {
+  return {
+    dimension: td.dimension,
+    granularity: td.granularity,
+    dateRange: td.dateRange,
+  };
+}
 
 /**
  * Convert SDK QueryOptions into a Cube-native query object.
@@ -20,19 +37,19 @@ export function toCubeQuery(options: QueryOptions): Record<string, unknown> {
   }
 
   if (options.filters) {
-    cubeQuery.filters = options.filters.map(f => ({
-      member: f.dimension,
-      operator: f.operator,
-      values: f.values,
-    }));
+    cubeQuery.filters = options.filters.map(toCubeFilter);
+  }
+
+  const timeDimensions = [
+    ...(options.timeDimension ? [options.timeDimension] : []),
+    ...(options.timeDimensions ?? []),
+  ];
+  if (timeDimensions.length > 0) {
+    cubeQuery.timeDimensions = timeDimensions.map(toCubeTimeDimension);
   }
 
-  if (options.timeDimension) {
-    cubeQuery.timeDimensions = [{
-      dimension: options.timeDimension.dimension,
-      granularity: options.timeDimension.granularity,
-      dateRange: options.timeDimension.dateRange,
-    }];
+  if (options.segments) {
+    cubeQuery.segments = options.segments;
   }
 
   if (options.orderBy) {
@@ -43,5 +60,25 @@ export function toCubeQuery(options: QueryOptions): Record<string, unknown> {
     cubeQuery.limit = options.limit;
   }
 
+  if (options.offset) {
+    cubeQuery.offset = options.offset;
+  }
+
   return cubeQuery;
 }
+
+function usesDimensionFilters(filters: unknown[]): boolean {
+  return filters.some((f) => {
+    const filter = f as { dimension?: string; and?: unknown[]; or?: unknown[] };
+    return filter.dimension !== undefined || usesDimensionFilters(filter.and ?? filter.or ?? []);
+  });
+}
+
+/**
+ * Accept either query shape: `QueryOptions` (recognised by `timeDimension`,
+ * `orderBy` or `dimension` filters) is converted, a Cube query passes through.
+ */
+export function asCubeQuery(query: QueryOptions | CubeQuery): CubeQuery {
+  const isOptions = 'timeDimension' in query || 'orderBy' in query || usesDimensionFilters(query.filters ?? []);
+  return isOptions ? toCubeQuery(query as QueryOptions) as CubeQuery : query as CubeQuery;
+}
@@ -0,0 +1,192 @@
+/**
+ * Bonnard SDK — React bindings (requires the optional `react` peer dependency)
+ */
+
+import { createContext, createElement, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { BonnardClient } from './client.js';
+import { toCubeQuery } from './query.js';
+import { hashString, stableStringify } from './cache.js';
+import { BonnardError } from './errors.js';
+import type {
+  QueryOptions,
+  QueryAnnotation,
+  RequestOptions,
+  ExploreMeta,
+  ExploreOptions,
+  CubeFieldMeta,
+  CubeSegmentMeta,
+  SqlResult,
+} from './types.js';
+
+export interface UseRequestOptions {
+  /** Set to `false` to hold off fetching, e.g. until a picker has a value. Defaults to true. */
+  enabled?: boolean;
+  /** Refetch in the background every this many milliseconds, bypassing the client cache. */
+  refetchInterval?: number;
+  /** Keep showing the last result while a changed query loads, instead of `undefined`. Defaults to false. */
+  keepPreviousData?: boolean;
+}
+
+interface RequestState<T> {
+  /** Result of the latest request, or `undefined` before the first one settles. */
+  data: T | undefined;
+  error: Error | undefined;
+  /** A request for the current query is in flight. */
+  isLoading: boolean;
+  /** Fetch again, bypassing the client cache. Supersedes a request in flight. */
+  refetch: () => Promise<void>;
+}
+
+export interface UseQueryResult<T = Record<string, unknown>> extends Omit<RequestState<T[]>, 'data'> {
+  data: T[] | undefined;
+  annotation: QueryAnnotation | undefined;
+}
+
+export interface UseSqlResult<T = Record<string, unknown>> extends RequestState<T[]> {
+  schema: SqlResult['schema'];
+}
+
+export interface UseExploreResult extends RequestState<ExploreMeta> {
+  /** Every measure across the returned views and cubes, in schema order. */
+  measures: CubeFieldMeta[];
+  /** Every non-time dimension. */
+  dimensions: CubeFieldMeta[];
+  timeDimensions: CubeFieldMeta[];
+  segments: CubeSegmentMeta[];
+}
+
+export interface BonnardProviderProps {
+  client: BonnardClient;
+  children?: ReactNode;
+}
+
+const ClientContext = createContext<BonnardClient | null>(null);
+
+/** Make `client` available to the hooks below it. */
+export function BonnardProvider({ client, children }: BonnardProviderProps) {
+  return createElement(ClientContext.Provider, { value: client }, children);
+}
+
+/**
+ * The client from the nearest `BonnardProvider`. Outside one it throws a
+ * `BonnardError` with code `config`.
+ */
+export function useBonnardClient(): BonnardClient {
+  const client = useContext(ClientContext);
+  if (!client) throw new BonnardError('Bonnard hooks must be used inside a <BonnardProvider client={...}>', 'config');
+  return client;
+}
+
+/**
+ * Identity of a query: a hash of its normalized Cube form, so option objects
+ * that differ only in key order or shorthand share one key.
+ */
+export function queryKey(options: QueryOptions): string {
+  return hashString(stableStringify(toCubeQuery(options)));
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+/**
+ * Shared request lifecycle: fetch when `key` changes, abort the request it
+ * supersedes (or the one in flight on unmount) and ignore late results.
+ */
+function useRequest<T>(
+  client: BonnardClient,
+  key: string,
+  fetcher: (requestOptions: RequestOptions) => Promise<T>,
+  options: UseRequestOptions
+): RequestState<T> {
+  const { enabled = true, refetchInterval, keepPreviousData = false } = options;
+  const [state, setState] = useState<{ key: string; data?: T; error?: Error; isLoading: boolean }>({ key, isLoading: enabled });
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback((fresh: boolean): Promise<void> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const carried = (prev: { key: string; data?: T }) => prev.key === key || keepPreviousData ? prev.data : undefined;
+
+    setState((prev) => ({ key, data: carried(prev), error: prev.key === key ? prev.error : undefined, isLoading: true }));
+    return fetcherRef.current({ signal: controller.signal, ...(fresh && { cache: false }) }).then(
+      (data) => {
+        if (!controller.signal.aborted) setState({ key, data, isLoading: false });
+      },
+      (err: unknown) => {
+        if (!controller.signal.aborted) setState((prev) => ({ key, data: carried(prev), error: toError(err), isLoading: false }));
+      }
+    );
+    // `client` is read through the fetcher; listing it refetches when the provider's client changes
+  }, [client, key, keepPreviousData]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setState((prev) => prev.isLoading ? { ...prev, isLoading: false } : prev);
+      return;
+    }
+    void run(false);
+    return () => controllerRef.current?.abort();
+  }, [enabled, run]);
+
+  useEffect(() => {
+    if (!enabled || !refetchInterval) return;
+    const timer = setInterval(() => void run(true), refetchInterval);
+    return () => clearInterval(timer);
+  }, [enabled, refetchInterval, run]);
+
+  const refetch = useCallback(() => run(true), [run]);
+
+  // Between a key change and its effect, report the new query as loading
+  if (state.key !== key) {
+    return { data: keepPreviousData ? state.data : undefined, error: undefined, isLoading: enabled, refetch };
+  }
+  return { data: state.data, error: state.error, isLoading: state.isLoading, refetch };
+}
+
+/**
+ * Run a query and re-run it when its normalized form changes.
+ *
+ * ```tsx
+ * const { data, isLoading, error } = useQuery({ measures: ['orders.revenue'], dimensions: ['orders.city'] })
+ * ```
+ */
+export function useQuery<T = Record<string, unknown>>(options: QueryOptions, hookOptions: UseRequestOptions = {}): UseQueryResult<T> {
+  const client = useBonnardClient();
+  const key = `query:${queryKey(options)}`;
+  const { data: result, ...rest } = useRequest(client, key, (requestOptions) => client.query<T>(options, requestOptions), hookOptions);
+  return { ...rest, data: result?.data, annotation: result?.annotation };
+}
+
+/** Run a SQL query and re-run it when the SQL changes. */
+export function useSql<T = Record<string, unknown>>(sql: string, hookOptions: UseRequestOptions = {}): UseSqlResult<T> {
+  const client = useBonnardClient();
+  const key = `sql:${hashString(sql)}`;
+  const { data: result, ...rest } = useRequest(client, key, (requestOptions) => client.sql<T>(sql, requestOptions), hookOptions);
+  return { ...rest, data: result?.data, schema: result?.schema };
+}
+
+/**
+ * Schema metadata for pickers: the views (or, with `viewsOnly: false`, also
+ * the cubes) and their fields flattened by kind.
+ */
+export function useExplore(options: ExploreOptions = {}, hookOptions: UseRequestOptions = {}): UseExploreResult {
+  const client = useBonnardClient();
+  const viewsOnly = options.viewsOnly ?? true;
+  const state = useRequest(client, `explore:${viewsOnly}`, (requestOptions) => client.explore({ viewsOnly }, requestOptions), hookOptions);
+  const fields = useMemo(() => {
+    const cubes = state.data?.cubes ?? [];
+    const dimensions = cubes.flatMap((c) => c.dimensions);
+    return {
+      measures: cubes.flatMap((c) => c.measures),
+      dimensions: dimensions.filter((d) => d.type !== 'time'),
+      timeDimensions: dimensions.filter((d) => d.type === 'time'),
+      segments: cubes.flatMap((c) => c.segments),
+    };
+  }, [state.data]);
+  return { ...state, ...fields };
+}
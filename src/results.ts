@@ -0,0 +1,378 @@
+/**
+ * Bonnard SDK — Result reshaping helpers (zero IO)
+ *
+ * Every helper accepts a `QueryResult` or `SqlResult` and uses the result's
+ * annotation (or SQL schema) when present to tell measures from dimensions.
+ */
+
+import type { QueryResult, SqlResult, Granularity } from './types.js';
+import { findAnnotation, toDate, toNumber } from './parse.js';
+
+export type AnyResult<T = Record<string, unknown>> = QueryResult<T> | SqlResult<T>;
+
+type Row = Record<string, unknown>;
+
+const GRANULARITIES: readonly Granularity[] = ['second', 'minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+function rowsOf(result: AnyResult<unknown>): Row[] {
+  return (result.data ?? []) as Row[];
+}
+
+function keysOf(result: AnyResult<unknown>): string[] {
+  const rows = rowsOf(result);
+  if (rows.length > 0) return Object.keys(rows[0]!);
+  if ('schema' in result && result.schema) return result.schema.map(c => c.name);
+  return [];
+}
+
+function numeric(value: unknown): number | null {
+  const num = toNumber(value, false);
+  return typeof num === 'number' ? num : null;
+}
+
+/** Whether `key` holds a measure, judged by annotation, else by the first non-null value. */
+function isMeasure(result: AnyResult<unknown>, key: string): boolean {
+  if ('annotation' in result && result.annotation) {
+    return findAnnotation(result.annotation, key)?.kind === 'measure';
+  }
+  if ('schema' in result && result.schema) {
+    const column = result.schema.find(c => c.name === key);
+    if (column) return /^(int|integer|bigint|float|double|decimal|numeric|number|real)/i.test(column.type);
+  }
+  const sample = rowsOf(result).find(r => r[key] !== null && r[key] !== undefined)?.[key];
+  return numeric(sample) !== null && typeof sample !== 'boolean';
+}
+
+/**
+ * Aggregation of a measure (`sum`, `count`, `avg`, …), if known. Cube puts it
+ * in `aggType` and reports the measure as `type: 'number'`; a bare `number`
+ * is treated as a sum. An `aggType` of `number` is a calculated measure.
+ */
+function measureType(result: AnyResult<unknown>, key: string): string | undefined {
+  if ('annotation' in result && result.annotation) {
+    const field = findAnnotation(result.annotation, key)?.field;
+    if (!field) return undefined;
+    return field.aggType ?? (field.type === 'number' ? 'sum' : field.type);
+  }
+  return undefined;
+}
+
+function label(value: unknown): string {
+  return value === null || value === undefined ? '∅' : String(value);
+}
+
+// --- Short keys & columns ---
+
+/**
+ * Drop the view prefix from every key (`orders.revenue` → `revenue`). Keys
+ * that would collide after shortening are kept fully qualified.
+ */
+export function stripPrefixes<T extends Row = Row>(rows: T[]): Row[] {
+  if (rows.length === 0) return rows;
+  const keys = Object.keys(rows[0]!);
+  const short = keys.map(k => k.split('.').pop() || k);
+  const counts = new Map<string, number>();
+  short.forEach(k => counts.set(k, (counts.get(k) ?? 0) + 1));
+  const names = keys.map((k, i) => (counts.get(short[i]!)! > 1 ? k : short[i]!));
+
+  return rows.map((row) => {
+    const cleaned: Row = {};
+    keys.forEach((k, i) => {
+      cleaned[names[i]!] = row[k];
+    });
+    return cleaned;
+  });
+}
+
+/** Column-oriented view of a result: one array of values per key. */
+export function toColumns(result: AnyResult<unknown>): Record<string, unknown[]> {
+  const columns: Record<string, unknown[]> = {};
+  for (const key of keysOf(result)) columns[key] = [];
+  for (const row of rowsOf(result)) {
+    for (const key of Object.keys(columns)) columns[key]!.push(row[key]);
+  }
+  return columns;
+}
+
+// --- Pivot ---
+
+export interface PivotOptions {
+  /** Dimension whose values become rows. */
+  rows: string;
+  /** Dimension whose values become columns. */
+  columns: string;
+  /** Measure to place in each cell. */
+  value: string;
+  /** Value for missing cells. Defaults to `null`. */
+  fill?: unknown;
+}
+
+export interface PivotResult {
+  /** Distinct values of `columns`, in first-seen order. */
+  columns: string[];
+  /** One row per distinct value of `rows`, keyed by `rows` plus each column value. */
+  data: Row[];
+}
+
+/**
+ * Pivot a dimension into columns:
+ * `pivot(result, { rows: 'orders.city', columns: 'orders.status', value: 'orders.count' })`.
+ */
+export function pivot(result: AnyResult<unknown>, options: PivotOptions): PivotResult {
+  const fill = options.fill ?? null;
+  const columns: string[] = [];
+  const seenColumns = new Set<string>();
+  const byRow = new Map<string, Row>();
+
+  for (const row of rowsOf(result)) {
+    const rowKey = label(row[options.rows]);
+    const colKey = label(row[options.columns]);
+    if (!seenColumns.has(colKey)) {
+      seenColumns.add(colKey);
+      columns.push(colKey);
+    }
+    let out = byRow.get(rowKey);
+    if (!out) {
+      out = { [options.rows]: row[options.rows] };
+      byRow.set(rowKey, out);
+    }
+    out[colKey] = numeric(row[options.value]) ?? row[options.value];
+  }
+
+  const data = [...byRow.values()].map((row) => {
+    for (const col of columns) if (!(col in row)) row[col] = fill;
+    return row;
+  });
+  return { columns, data };
+}
+
+// --- Time series ---
+
+/** Truncate `date` to the start of its `granularity` period (UTC, ISO weeks). */
+export function truncateDate(date: Date, granularity: Granularity): Date {
+  const d = new Date(date.getTime());
+  switch (granularity) {
+    case 'year': d.setUTCMonth(0, 1); d.setUTCHours(0, 0, 0, 0); break;
+    case 'quarter': d.setUTCMonth(Math.floor(d.getUTCMonth() / 3) * 3, 1); d.setUTCHours(0, 0, 0, 0); break;
+    case 'month': d.setUTCDate(1); d.setUTCHours(0, 0, 0, 0); break;
+    case 'week': d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7)); d.setUTCHours(0, 0, 0, 0); break;
+    case 'day': d.setUTCHours(0, 0, 0, 0); break;
+    case 'hour': d.setUTCMinutes(0, 0, 0); break;
+    case 'minute': d.setUTCSeconds(0, 0); break;
+    case 'second': d.setUTCMilliseconds(0); break;
+  }
+  return d;
+}
+
+/** Start of the period after the one starting at `date`. */
+export function nextPeriod(date: Date, granularity: Granularity): Date {
+  const d = new Date(date.getTime());
+  switch (granularity) {
+    case 'year': d.setUTCFullYear(d.getUTCFullYear() + 1); break;
+    case 'quarter': d.setUTCMonth(d.getUTCMonth() + 3); break;
+    case 'month': d.setUTCMonth(d.getUTCMonth() + 1); break;
+    case 'week': d.setUTCDate(d.getUTCDate() + 7); break;
+    case 'day': d.setUTCDate(d.getUTCDate() + 1); break;
+    case 'hour': d.setUTCHours(d.getUTCHours() + 1); break;
+    case 'minute': d.setUTCMinutes(d.getUTCMinutes() + 1); break;
+    case 'second': d.setUTCSeconds(d.getUTCSeconds() + 1); break;
+  }
+  return d;
+}
+
+/** Format a period start the way Cube does (`2025-01-01T00:00:00.000`). */
+function cubeTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 23);
+}
+
+export interface SeriesOptions {
+  /**
+   * Time column key, with or without granularity suffix
+   * (`orders.created_at` or `orders.created_at.month`).
+   */
+  timeDimension: string;
+  /** Defaults to the suffix of the time column key, else `day`. */
+  granularity?: Granularity;
+  /** Measures to extract. Defaults to every measure in the result. */
+  measures?: string[];
+  /** Split each measure into one series per value of this dimension. */
+  seriesBy?: string;
+  /** Value for missing periods. Defaults to `null`; use `0` for counts. */
+  fill?: number | null;
+  /** Extend the periods to cover this whole range, not just the data. */
+  dateRange?: [string, string];
+}
+
+export interface Series {
+  /** Measure key, or `measure|seriesBy value` when split. */
+  key: string;
+  measure: string;
+  /** Value of `seriesBy` for this series, if split. */
+  group?: unknown;
+  title: string;
+  data: Array<number | null>;
+}
+
+export interface SeriesResult {
+  /** Cube-formatted period starts, one per point. */
+  labels: string[];
+  dates: Date[];
+  series: Series[];
+}
+
+function resolveTimeColumn(result: AnyResult<unknown>, options: SeriesOptions): { key: string; granularity: Granularity } {
+  const keys = keysOf(result);
+  const suffix = options.timeDimension.split('.').pop() as Granularity;
+  if (GRANULARITIES.includes(suffix) && keys.includes(options.timeDimension)) {
+    return { key: options.timeDimension, granularity: options.granularity ?? suffix };
+  }
+  const withGranularity = options.granularity
+    ? `${options.timeDimension}.${options.granularity}`
+    : keys.find(k => k.startsWith(`${options.timeDimension}.`) && GRANULARITIES.includes(k.split('.').pop() as Granularity));
+  if (withGranularity && keys.includes(withGranularity)) {
+    return { key: withGranularity, granularity: withGranularity.split('.').pop() as Granularity };
+  }
+  return { key: options.timeDimension, granularity: options.granularity ?? 'day' };
+}
+
+/**
+ * Chart-ready series keyed by a time dimension. Missing periods between the
+ * first and last point (or across `dateRange`) are filled at the query's
+ * granularity.
+ */
+export function toSeries(result: AnyResult<unknown>, options: SeriesOptions): SeriesResult {
+  const { key: timeKey, granularity } = resolveTimeColumn(result, options);
+  const rows = rowsOf(result);
+  const fill = options.fill === undefined ? null : options.fill;
+  const measures = options.measures
+    ?? keysOf(result).filter(k => k !== timeKey && k !== options.seriesBy && isMeasure(result, k));
+
+  const points = new Map<number, Row[]>();
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of rows) {
+    const date = toDate(row[timeKey]);
+    if (!date) continue;
+    const t = truncateDate(date, granularity).getTime();
+    min = Math.min(min, t);
+    max = Math.max(max, t);
+    const bucket = points.get(t);
+    if (bucket) bucket.push(row);
+    else points.set(t, [row]);
+  }
+  if (options.dateRange) {
+    const start = toDate(options.dateRange[0]);
+    const end = toDate(options.dateRange[1]);
+    if (start) min = Math.min(min, truncateDate(start, granularity).getTime());
+    if (end) max = Math.max(max, truncateDate(end, granularity).getTime());
+  }
+
+  const dates: Date[] = [];
+  if (min <= max) {
+    for (let d = new Date(min); d.getTime() <= max; d = nextPeriod(d, granularity)) dates.push(d);
+  }
+
+  const groups = options.seriesBy
+    ? [...new Set(rows.map(r => r[options.seriesBy!]))]
+    : [undefined];
+
+  const series: Series[] = [];
+  for (const measure of measures) {
+    const title = titleOf(result, measure);
+    for (const group of groups) {
+      const data = dates.map((date) => {
+        const bucket = points.get(date.getTime()) ?? [];
+        const row = options.seriesBy ? bucket.find(r => r[options.seriesBy!] === group) : bucket[0];
+        return row ? numeric(row[measure]) ?? fill : fill;
+      });
+      series.push({
+        key: options.seriesBy ? `${measure}|${label(group)}` : measure,
+        measure,
+        ...(options.seriesBy && { group }),
+        title: options.seriesBy ? `${title} (${label(group)})` : title,
+        data,
+      });
+    }
+  }
+
+  return { labels: dates.map(cubeTimestamp), dates, series };
+}
+
+function titleOf(result: AnyResult<unknown>, key: string): string {
+  if ('annotation' in result && result.annotation) {
+    const found = findAnnotation(result.annotation, key);
+    if (found) return found.field.shortTitle || found.field.title;
+  }
+  return key.split('.').pop() || key;
+}
+
+// --- Totals ---
+
+export interface TotalsOptions {
+  /** Measures to total. Defaults to every measure in the result. */
+  measures?: string[];
+  /** Also compute subtotals per value of this dimension. */
+  groupBy?: string;
+}
+
+export interface TotalsResult {
+  total: Record<string, number | null>;
+  /** Keyed by the stringified `groupBy` value. */
+  subtotals?: Record<string, Record<string, number | null>>;
+}
+
+/**
+ * How a measure with this aggregation rolls up across rows. Ratios, distinct
+ * counts and calculated measures cannot be derived from the rows and return
+ * `null`.
+ */
+function rollUp(type: string | undefined, values: number[]): number | null {
+  if (values.length === 0) return null;
+  switch (type) {
+    case undefined:
+    case 'sum':
+    case 'count':
+      return values.reduce((a, b) => a + b, 0);
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Totals (and optional subtotals) of measures across result rows. Additive
+ * measures (`sum`, `count`) are summed and `min`/`max` rolled up; measures
+ * that cannot be re-aggregated from rows, like `avg` or `countDistinct`,
+ * total to `null` — query them without dimensions instead. Without an
+ * annotation every numeric column is summed.
+ */
+export function totals(result: AnyResult<unknown>, options: TotalsOptions = {}): TotalsResult {
+  const rows = rowsOf(result);
+  const measures = options.measures
+    ?? keysOf(result).filter(k => k !== options.groupBy && isMeasure(result, k));
+
+  const aggregate = (subset: Row[]) => {
+    const out: Record<string, number | null> = {};
+    for (const m of measures) {
+      const values = subset.map(r => numeric(r[m])).filter((v): v is number => v !== null);
+      out[m] = rollUp(measureType(result, m), values);
+    }
+    return out;
+  };
+
+  const response: TotalsResult = { total: aggregate(rows) };
+  if (options.groupBy) {
+    const groups = new Map<string, Row[]>();
+    for (const row of rows) {
+      const key = label(row[options.groupBy]);
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+    response.subtotals = Object.fromEntries([...groups].map(([key, subset]) => [key, aggregate(subset)]));
+  }
+  return response;
+}
@@ -0,0 +1,79 @@
+/**
+ * Bonnard SDK — Retry policy (zero IO)
+ */
+
+import type { RetryOptions } from './types.js';
+import { NetworkError, RateLimitError, ServerError } from './errors.js';
+
+export interface ResolvedRetryOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  deadlineMs: number;
+  pollContinueWait: boolean;
+}
+
+const DEFAULT_RETRY: ResolvedRetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+  deadlineMs: 120_000,
+  pollContinueWait: true,
+};
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * Merge user retry config with defaults. `false` disables retries and
+ * `Continue wait` polling entirely (one attempt, no deadline).
+ */
+export function resolveRetryOptions(retry: boolean | RetryOptions | undefined): ResolvedRetryOptions {
+  if (retry === false) {
+    return { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, deadlineMs: Infinity, pollContinueWait: false };
+  }
+  if (retry === true || retry === undefined) return DEFAULT_RETRY;
+  return { ...DEFAULT_RETRY, ...retry };
+}
+
+/**
+ * Whether an error is transient and the same request may succeed if retried.
+ */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof RateLimitError || err instanceof NetworkError) return true;
+  if (err instanceof ServerError) return err.status === undefined || RETRYABLE_STATUSES.has(err.status);
+  return false;
+}
+
+/**
+ * Exponential backoff with full jitter for the given zero-based attempt.
+ * A server-provided `Retry-After` is used as a lower bound.
+ */
+export function backoffDelay(attempt: number, options: ResolvedRetryOptions, err?: unknown): number {
+  const ceiling = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** attempt);
+  const delay = Math.random() * ceiling;
+  const retryAfter = err instanceof RateLimitError ? err.retryAfterMs : undefined;
+  return retryAfter !== undefined ? Math.max(delay, retryAfter) : delay;
+}
+
+/** Cube signals a long-running query with a 200 response of `{ error: 'Continue wait' }`. */
+export function isContinueWait(body: unknown): boolean {
+  return !!body
+    && typeof body === 'object'
+    && (body as { error?: unknown }).error === 'Continue wait';
+}
+
+/** Wait `ms`, rejecting early with the abort reason if `signal` fires. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
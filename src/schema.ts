@@ -0,0 +1,233 @@
+/**
+ * Bonnard SDK — Schema-typed client types (zero IO)
+ *
+ * A schema describes each view's members and their parsed value types (time
+ * members are `Date`). Generate one from `client.explore()` with
+ * `generateSchemaTypes`, then pass it to `createClient<Schema>()` for
+ * compile-time checked queries and typed rows.
+ */
+
+import type { BonnardClient } from './client.js';
+import type { FilterBuilder, QueryBuilder } from './builder.js';
+import type {
+  QueryOptions,
+  QueryResult,
+  RequestOptions,
+  TimeDimension,
+  MemberFilter,
+  CubeQuery,
+  CubeFilter,
+  Granularity,
+  ParseOptions,
+  PaginationOptions,
+  BatchOptions,
+  BatchResult,
+} from './types.js';
+
+/** Members of a single view, keyed by fully qualified name. */
+export interface ViewSchema {
+  measures: Record<string, unknown>;
+  /** All dimensions, including time dimensions. */
+  dimensions: Record<string, unknown>;
+  timeDimensions: Record<string, unknown>;
+  segments: string;
+}
+
+export type BonnardSchema = Record<string, ViewSchema>;
+
+type Keys<T> = Extract<keyof T, string>;
+
+export type MeasureOf<S extends BonnardSchema> = { [V in keyof S]: Keys<S[V]['measures']> }[keyof S];
+export type DimensionOf<S extends BonnardSchema> = { [V in keyof S]: Keys<S[V]['dimensions']> }[keyof S];
+export type TimeDimensionOf<S extends BonnardSchema> = { [V in keyof S]: Keys<S[V]['timeDimensions']> }[keyof S];
+export type SegmentOf<S extends BonnardSchema> = { [V in keyof S]: S[V]['segments'] }[keyof S];
+export type MemberOf<S extends BonnardSchema> = MeasureOf<S> | DimensionOf<S>;
+
+/** Value type of a fully qualified member. */
+export type ValueOf<S extends BonnardSchema, K extends string> = {
+  [V in keyof S]:
+    K extends keyof S[V]['measures'] ? S[V]['measures'][K]
+    : K extends keyof S[V]['dimensions'] ? S[V]['dimensions'][K]
+    : never;
+}[keyof S];
+
+type WithMember<F, M extends string> = F extends unknown ? Omit<F, 'dimension'> & { dimension: M } : never;
+
+/** A filter, or nested filter group, restricted to the members declared in `S`. */
+export type TypedFilter<S extends BonnardSchema> =
+  | WithMember<MemberFilter, MemberOf<S>>
+  | { and: TypedFilter<S>[] }
+  | { or: TypedFilter<S>[] };
+
+/** `QueryOptions` restricted to the members declared in `S`. */
+export type TypedQueryOptions<
+  S extends BonnardSchema,
+  M extends MeasureOf<S> = MeasureOf<S>,
+  D extends DimensionOf<S> = DimensionOf<S>,
+  TD extends TimeDimensionOf<S> = TimeDimensionOf<S>,
+  G extends Granularity = Granularity,
+> = Omit<QueryOptions, 'measures' | 'dimensions' | 'filters' | 'timeDimension' | 'timeDimensions' | 'segments' | 'orderBy'> & {
+  measures?: M[];
+  dimensions?: D[];
+  filters?: TypedFilter<S>[];
+  timeDimension?: Omit<TimeDimension, 'dimension' | 'granularity'> & { dimension: TD; granularity?: G };
+  timeDimensions?: Array<Omit<TimeDimension, 'dimension' | 'granularity'> & { dimension: TD; granularity?: G }>;
+  segments?: SegmentOf<S>[];
+  orderBy?: Partial<Record<MemberOf<S>, 'asc' | 'desc'>>;
+};
+
+/** Order keys of a Cube query: members, and time dimensions at a granularity. */
+type OrderKeyOf<S extends BonnardSchema> = MemberOf<S> | `${TimeDimensionOf<S>}.${Granularity}`;
+
+/** A Cube filter, or nested filter group, restricted to the members declared in `S`. */
+export type TypedCubeFilter<S extends BonnardSchema> =
+  | (Omit<Extract<CubeFilter, { member: string }>, 'member'> & { member: MemberOf<S> })
+  | { and: TypedCubeFilter<S>[] }
+  | { or: TypedCubeFilter<S>[] };
+
+/** `CubeQuery` restricted to the members declared in `S`. */
+export type TypedCubeQuery<
+  S extends BonnardSchema,
+  M extends MeasureOf<S> = MeasureOf<S>,
+  D extends DimensionOf<S> = DimensionOf<S>,
+  TD extends TimeDimensionOf<S> = TimeDimensionOf<S>,
+  G extends Granularity = Granularity,
+> = Omit<CubeQuery, 'measures' | 'dimensions' | 'timeDimensions' | 'filters' | 'segments' | 'order'> & {
+  measures?: M[];
+  dimensions?: D[];
+  timeDimensions?: Array<{ dimension: TD; granularity?: G; dateRange?: string | [string, string] }>;
+  filters?: TypedCubeFilter<S>[];
+  segments?: SegmentOf<S>[];
+  order?: Partial<Record<OrderKeyOf<S>, 'asc' | 'desc'>> | Array<[OrderKeyOf<S>, 'asc' | 'desc']>;
+};
+
+type ViewOf<S extends BonnardSchema> = Extract<keyof S, string>;
+
+/** A member of view `V`, by full name or without the view prefix. */
+type ViewMember<V extends string, K> = K extends string ? K | (K extends `${V}.${infer Short}` ? Short : never) : never;
+
+/**
+ * `QueryBuilder` for view `V` of `S`: members may be given by full or short
+ * name, but must be declared in that view.
+ */
+export interface TypedQueryBuilder<S extends BonnardSchema, V extends ViewOf<S>>
+  extends Omit<QueryBuilder, 'measures' | 'by' | 'where' | 'filter' | 'segments' | 'over' | 'last' | 'between' | 'during' | 'orderBy' | 'limit' | 'offset'> {
+  measures(...names: ViewMember<V, keyof S[V]['measures']>[]): TypedQueryBuilder<S, V>;
+  by(...names: ViewMember<V, keyof S[V]['dimensions']>[]): TypedQueryBuilder<S, V>;
+  where(member: ViewMember<V, keyof S[V]['dimensions'] | keyof S[V]['measures']>): FilterBuilder<TypedQueryBuilder<S, V>>;
+  filter(filter: TypedFilter<S>): TypedQueryBuilder<S, V>;
+  segments(...names: ViewMember<V, S[V]['segments']>[]): TypedQueryBuilder<S, V>;
+  over(dimension: ViewMember<V, keyof S[V]['timeDimensions']>, granularity?: Granularity): TypedQueryBuilder<S, V>;
+  last(range: string): TypedQueryBuilder<S, V>;
+  between(start: string, end: string): TypedQueryBuilder<S, V>;
+  during(dateRange: string | [string, string]): TypedQueryBuilder<S, V>;
+  orderBy(member: ViewMember<V, keyof S[V]['measures'] | keyof S[V]['dimensions']>, direction?: 'asc' | 'desc'): TypedQueryBuilder<S, V>;
+  limit(limit: number): TypedQueryBuilder<S, V>;
+  offset(offset: number): TypedQueryBuilder<S, V>;
+}
+
+/** A client-wide or per-call `parse` setting. */
+export type ParseSetting = boolean | ParseOptions | undefined;
+
+/**
+ * How values come back for a `parse` setting: `raw` as Cube sends them
+ * (numbers and times as strings), `parsed` with numbers and `Date` times, or
+ * `parsedNoDates` with numbers and times left as strings.
+ */
+export type RowMode<P extends ParseSetting> =
+  P extends false | undefined ? 'raw' : P extends { dates: false } ? 'parsedNoDates' : 'parsed';
+
+/** Runtime type of a member whose parsed value type is `V`. */
+type RowValue<V, Mode extends string> =
+  Mode extends 'parsed' ? V
+  : V extends Date ? string
+  : Mode extends 'raw' ? (V extends number ? string : V)
+  : V;
+
+/**
+ * Row returned for a typed query. A time dimension with a granularity adds
+ * both `view.field` and `view.field.<granularity>` keys, as Cube does. Value
+ * types follow `Mode`; with the default `raw` mode numbers and times are
+ * strings, as Cube returns them. Parsed integers beyond
+ * `Number.MAX_SAFE_INTEGER` are `bigint` unless `bigint: false` is set.
+ */
+export type TypedRow<
+  S extends BonnardSchema,
+  M extends string,
+  D extends string,
+  TD extends string,
+  G extends string,
+  Mode extends string = 'raw',
+> = { [K in M | D]: RowValue<ValueOf<S, K>, Mode> }
+  & ([G] extends [never] ? unknown : { [K in TD | `${TD}.${G}`]: RowValue<Date, Mode> });
+
+/** Rows for a typed call: a per-call `parse` (`RP`) overrides the client's (`P`). */
+type RowsOf<
+  S extends BonnardSchema,
+  M extends string,
+  D extends string,
+  TD extends string,
+  G extends string,
+  P extends ParseSetting,
+  RP extends ParseSetting,
+> = TypedRow<S, M, D, TD, G, RowMode<RP extends undefined ? P : RP>>;
+
+/**
+ * A client whose queries only accept members declared in `S`: `query`,
+ * `rawQuery`, `queryPages` and `queryAll` return precisely typed rows, and
+ * `batch` and `from` check members too. `P` is the client-wide `parse`
+ * setting; a per-call `parse` overrides it. Every other method is unchanged.
+ */
+export interface TypedBonnardClient<S extends BonnardSchema, P extends ParseSetting = undefined>
+  extends Omit<BonnardClient, 'query' | 'rawQuery' | 'batch' | 'queryPages' | 'queryAll' | 'from'> {
+  query<
+    M extends MeasureOf<S> = never,
+    D extends DimensionOf<S> = never,
+    TD extends TimeDimensionOf<S> = never,
+    G extends Granularity = never,
+    const RP extends ParseSetting = undefined,
+  >(
+    options: TypedQueryOptions<S, M, D, TD, G>,
+    requestOptions?: RequestOptions & { parse?: RP },
+  ): Promise<QueryResult<RowsOf<S, M, D, TD, G, P, RP>>>;
+
+  rawQuery<
+    M extends MeasureOf<S> = never,
+    D extends DimensionOf<S> = never,
+    TD extends TimeDimensionOf<S> = never,
+    G extends Granularity = never,
+    const RP extends ParseSetting = undefined,
+  >(
+    cubeQuery: TypedCubeQuery<S, M, D, TD, G>,
+    requestOptions?: RequestOptions & { parse?: RP },
+  ): Promise<QueryResult<RowsOf<S, M, D, TD, G, P, RP>>>;
+
+  queryPages<
+    M extends MeasureOf<S> = never,
+    D extends DimensionOf<S> = never,
+    TD extends TimeDimensionOf<S> = never,
+    G extends Granularity = never,
+    const RP extends ParseSetting = undefined,
+  >(
+    options: TypedQueryOptions<S, M, D, TD, G>,
+    pagination?: PaginationOptions & { parse?: RP },
+  ): AsyncIterable<RowsOf<S, M, D, TD, G, P, RP>[]>;
+
+  queryAll<
+    M extends MeasureOf<S> = never,
+    D extends DimensionOf<S> = never,
+    TD extends TimeDimensionOf<S> = never,
+    G extends Granularity = never,
+    const RP extends ParseSetting = undefined,
+  >(
+    options: TypedQueryOptions<S, M, D, TD, G>,
+    pagination?: PaginationOptions & { parse?: RP },
+  ): Promise<QueryResult<RowsOf<S, M, D, TD, G, P, RP>>>;
+
+  batch<T = Record<string, unknown>>(
+    queries: TypedQueryOptions<S>[],
+    options?: BatchOptions,
+  ): Promise<Array<BatchResult<QueryResult<T>>>>;
+
+  from<V extends ViewOf<S>>(view: V): TypedQueryBuilder<S, V>;
+}
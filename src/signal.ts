@@ -0,0 +1,58 @@
+/**
+ * Bonnard SDK — Cancellation helpers
+ */
+
+import type { RequestOptions } from './types.js';
+import { AbortError, TimeoutError } from './errors.js';
+
+export interface CallSignal {
+  signal: AbortSignal;
+  /** Detach listeners and clear the timeout once the call settles. */
+  dispose(): void;
+}
+
+/**
+ * Combine the caller's `signal` and a `timeoutMs` (per call, falling back to
+ * the client default) into one signal. The abort reason is always a
+ * `BonnardError`: `AbortError` for caller cancellation, `TimeoutError` for
+ * timeouts.
+ */
+export function createCallSignal(options: RequestOptions | undefined, defaultTimeoutMs: number | undefined): CallSignal {
+  const controller = new AbortController();
+  const timeoutMs = options?.timeoutMs ?? defaultTimeoutMs;
+  const external = options?.signal;
+
+  const onAbort = () => controller.abort(new AbortError('Request was aborted', { cause: external?.reason }));
+  if (external?.aborted) onAbort();
+  else external?.addEventListener('abort', onAbort, { once: true });
+
+  const timer = timeoutMs !== undefined && timeoutMs > 0 && !controller.signal.aborted
+    ? setTimeout(() => controller.abort(new TimeoutError(`Request timed out after ${timeoutMs}ms`)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose() {
+      if (timer !== undefined) clearTimeout(timer);
+      external?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Settle with `promise`, or reject with the abort reason as soon as `signal`
+ * fires. The underlying work is not cancelled — use this for shared work
+ * (like a deduplicated token fetch) that other callers still depend on.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      (err) => { signal.removeEventListener('abort', onAbort); reject(err); },
+    );
+  });
+}
@@ -0,0 +1,641 @@
+/**
+ * Bonnard SDK — Static Cube SQL checks against schema metadata (zero IO)
+ */
+
+import { didYouMean } from './validate.js';
+import type { ExploreMeta, CubeMetaItem } from './types.js';
+
+export type SqlLintIssueCode =
+  | 'unknown_table'
+  | 'unknown_column'
+  | 'measure_not_wrapped'
+  | 'not_a_measure'
+  | 'measure_in_group_by'
+  | 'missing_group_by'
+  | 'unsupported_join';
+
+export type SqlClause = 'select' | 'from' | 'join' | 'where' | 'group by' | 'having' | 'order by';
+
+export interface SqlLintIssue {
+  code: SqlLintIssueCode;
+  /** Clause the issue is in. */
+  clause: SqlClause;
+  /** Character offset of `value` in the SQL. */
+  offset: number;
+  /** Offending table, column or expression. */
+  value: string;
+  message: string;
+  /** Closest valid alternatives, best first. */
+  suggestions: string[];
+}
+
+export interface SqlLintResult {
+  valid: boolean;
+  issues: SqlLintIssue[];
+  /** The SQL with every issue fixed, when each one has a likely fix. */
+  fixedSql?: string;
+}
+
+interface Token {
+  type: 'word' | 'quoted' | 'string' | 'number' | 'symbol';
+  text: string;
+  /** Lowercased word, or a quoted identifier without its quotes. */
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+type Kind = 'measure' | 'dimension' | 'segment';
+
+interface Column {
+  short: string;
+  kind: Kind;
+}
+
+interface ColumnRef {
+  index: number;
+  /** Start of the reference, including a `table.` qualifier. */
+  start: number;
+  end: number;
+  clause: SqlClause;
+  column: Column;
+  /** Enclosing function calls, outermost first, with the index of their `(`. */
+  calls: Array<{ fn: string; open: number }>;
+}
+
+/** Record an issue with the edits that fix it, or `null` when there is no likely fix. */
+type Report = (issue: Omit<SqlLintIssue, 'suggestions'> & { suggestions?: string[] }, fix: Edit[] | null) => void;
+
+const TOKEN = /\s+|--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|('(?:[^']|'')*'?)|("(?:[^"]|"")*"?)|(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+)|([a-z_][\w$]*)|(::|<=|>=|<>|!=|\|\||[\s\S])/iy;
+
+// Aggregates a measure may appear in; Cube SQL also accepts SUM(measure) and friends
+const AGGREGATES = new Set(['measure', 'sum', 'count', 'avg', 'min', 'max', 'stddev', 'variance', 'array_agg', 'string_agg', 'bool_and', 'bool_or']);
+
+// `FROM` inside these calls is not a table reference
+const FROM_FUNCTIONS = new Set(['extract', 'substring', 'trim', 'overlay', 'position']);
+
+// Words that are never column references: keywords, literals, type names and date parts
+const KEYWORDS = new Set([
+  'select', 'distinct', 'all', 'from', 'where', 'group', 'by', 'having', 'order', 'limit', 'offset', 'as', 'and', 'or',
+  'not', 'in', 'is', 'null', 'true', 'false', 'like', 'ilike', 'similar', 'escape', 'between', 'case', 'when', 'then',
+  'else', 'end', 'asc', 'desc', 'nulls', 'first', 'last', 'with', 'recursive', 'union', 'intersect', 'except', 'join',
+  'on', 'using', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'natural', 'lateral', 'any', 'some', 'exists',
+  'to', 'at', 'zone', 'filter', 'over', 'partition', 'rows', 'range', 'preceding', 'following', 'unbounded', 'current',
+  'row', 'fetch', 'next', 'only', 'window', 'interval', 'date', 'time', 'timestamp', 'timestamptz', 'varchar', 'text',
+  'integer', 'int', 'bigint', 'smallint', 'double', 'precision', 'float', 'real', 'numeric', 'decimal', 'boolean',
+  'char', 'character', 'varying', 'year', 'month', 'day', 'hour', 'minute', 'second', 'week', 'quarter', 'dow', 'doy',
+  'epoch', 'millisecond', 'microsecond', 'current_date', 'current_time', 'current_timestamp', 'localtime',
+  'localtimestamp', '__user', '__cubejoinfield',
+]);
+
+const CLAUSE_KEYWORDS = new Set(['select', 'from', 'where', 'group', 'having', 'order', 'limit', 'offset', 'window', 'fetch', 'for']);
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (TOKEN.lastIndex < sql.length && (match = TOKEN.exec(sql))) {
+    const [text, string, quoted, number, word] = match;
+    const start = match.index;
+    const end = start + text.length;
+    if (string !== undefined) tokens.push({ type: 'string', text, value: text, start, end });
+    else if (quoted !== undefined) {
+      const inner = quoted.length > 1 && quoted.endsWith('"') ? quoted.slice(1, -1) : quoted.slice(1);
+      tokens.push({ type: 'quoted', text, value: inner.replace(/""/g, '"'), start, end });
+    } else if (number !== undefined) tokens.push({ type: 'number', text, value: text, start, end });
+    else if (word !== undefined) tokens.push({ type: 'word', text, value: word.toLowerCase(), start, end });
+    else if (match[5] !== undefined) tokens.push({ type: 'symbol', text, value: text, start, end });
+  }
+  return tokens;
+}
+
+function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return token?.type === 'word' && words.includes(token.value);
+}
+
+/** A table or column name rather than a keyword. */
+function isIdentifier(token: Token | undefined): boolean {
+  return token?.type === 'quoted' || (token?.type === 'word' && !KEYWORDS.has(token.value));
+}
+
+/** `name` written the way `like` was: quoted if it was quoted. */
+function sameQuoting(like: Token, name: string): string {
+  return like.type === 'quoted' ? `"${name.replace(/"/g, '""')}"` : name;
+}
+
+/** Index of the matching `)` for each `(`. */
+function matchParens(tokens: Token[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  const open: number[] = [];
+  tokens.forEach((t, i) => {
+    if (t.text === '(') open.push(i);
+    else if (t.text === ')' && open.length > 0) matches.set(open.pop()!, i);
+  });
+  return matches;
+}
+
+/** Split `[start, end)` at top-level commas. */
+function splitList(tokens: Token[], start: number, end: number): Array<[number, number]> {
+  const items: Array<[number, number]> = [];
+  let depth = 0;
+  let from = start;
+  for (let i = start; i < end; i++) {
+    const text = tokens[i]!.text;
+    if (text === '(') depth++;
+    else if (text === ')') depth--;
+    else if (text === ',' && depth === 0) {
+      items.push([from, i]);
+      from = i + 1;
+    }
+  }
+  if (from < end) items.push([from, end]);
+  return items;
+}
+
+/** Comparable form of an expression: lowercased, without `table.` qualifiers. */
+function normalize(tokens: Token[], start: number, end: number): string {
+  const parts: string[] = [];
+  for (let i = start; i < end; i++) {
+    const t = tokens[i]!;
+    if (t.text === '.' || (tokens[i + 1]?.text === '.' && isIdentifier(t))) continue;
+    parts.push(t.type === 'word' || t.type === 'quoted' ? t.value.toLowerCase() : t.text.toLowerCase());
+  }
+  return parts.join(' ');
+}
+
+interface Clause {
+  clause: SqlClause | 'other';
+  /** Index of the clause keyword. */
+  keyword: number;
+  /** Token range of the clause body, keyword excluded. */
+  start: number;
+  end: number;
+}
+
+interface SelectItem {
+  start: number;
+  end: number;
+  /** End of the expression, before any alias. */
+  exprEnd: number;
+  alias?: Token;
+}
+
+/** Top-level clauses of a single SELECT as token ranges. */
+function clausesOf(tokens: Token[]): Clause[] {
+  const clauses: Clause[] = [];
+  let depth = 0;
+  tokens.forEach((t, i) => {
+    if (t.text === '(') depth++;
+    else if (t.text === ')') depth--;
+    if (depth !== 0 || t.type !== 'word' || !CLAUSE_KEYWORDS.has(t.value)) return;
+    const byClause = t.value === 'group' || t.value === 'order';
+    if (byClause && !isWord(tokens[i + 1], 'by')) return;
+    const clause = byClause ? `${t.value} by` as SqlClause : ['select', 'from', 'where', 'having'].includes(t.value) ? t.value as SqlClause : 'other';
+    if (clauses.length > 0) clauses[clauses.length - 1]!.end = i;
+    clauses.push({ clause, keyword: i, start: i + (byClause ? 2 : 1), end: tokens.length });
+  });
+  return clauses;
+}
+
+/** The select list split into items, with their aliases. */
+function selectItems(tokens: Token[], selectClause: Clause): SelectItem[] {
+  const selectStart = isWord(tokens[selectClause.start], 'distinct', 'all') ? selectClause.start + 1 : selectClause.start;
+  return splitList(tokens, selectStart, selectClause.end).map(([start, end]) => {
+    const last = tokens[end - 1]!;
+    const before = tokens[end - 2];
+    if (end - start >= 3 && isWord(before, 'as') && isIdentifier(last)) return { start, end, exprEnd: end - 2, alias: last };
+    const endsExpression = before && before.text !== '.' && (isIdentifier(before) || isWord(before, 'end') || ['number', 'string'].includes(before.type) || before.text === ')');
+    if (end - start >= 2 && isIdentifier(last) && endsExpression) return { start, end, exprEnd: end - 1, alias: last };
+    return { start, end, exprEnd: end };
+  });
+}
+
+/** The table's own name and alias, either of which may qualify its columns. */
+function qualifiersOf(tokens: Token[], tableIndex: number): Set<string> {
+  const table = tokens[tableIndex]!;
+  const alias = isWord(tokens[tableIndex + 1], 'as') ? tokens[tableIndex + 2] : tokens[tableIndex + 1];
+  return new Set([table.value.toLowerCase(), ...(isIdentifier(alias) ? [alias.value.toLowerCase()] : [])]);
+}
+
+/** Index of the table name in each `FROM`/`JOIN`, CTE names and table functions left out. */
+function tableIndexes(tokens: Token[]): number[] {
+  const ctes = new Set(tokens.filter((t, i) => isIdentifier(t) && isWord(tokens[i + 1], 'as') && tokens[i + 2]?.text === '(')
+    .map((t) => t.value.toLowerCase()));
+  const indexes: number[] = [];
+  const calls: string[] = [];
+  tokens.forEach((t, i) => {
+    if (t.text === '(') calls.push(tokens[i - 1]?.type === 'word' ? tokens[i - 1]!.value : '');
+    else if (t.text === ')') calls.pop();
+    if (!isWord(t, 'from', 'join') || FROM_FUNCTIONS.has(calls[calls.length - 1] ?? '') || isWord(tokens[i - 1], 'distinct')) return;
+
+    // `schema.table` names the table after the dot
+    const index = isIdentifier(tokens[i + 1]) && tokens[i + 2]?.text === '.' && isIdentifier(tokens[i + 3]) ? i + 3 : i + 1;
+    // Reserved words are included, so `FROM order` is caught as a typo
+    const ref = tokens[index];
+    if (!ref || (ref.type !== 'word' && ref.type !== 'quoted') || isWord(ref, 'lateral') ||
+      tokens[index + 1]?.text === '(' || ctes.has(ref.value.toLowerCase())) return;
+    indexes.push(index);
+  });
+  return indexes;
+}
+
+function withHint(message: string, suggestions: string[]): string {
+  return suggestions.length > 0 ? `${message}. Did you mean ${suggestions.map((s) => `'${s}'`).join(' or ')}?` : message;
+}
+
+function applyEdits(sql: string, edits: Edit[], from = 0, to = sql.length): string {
+  let out = '';
+  let pos = from;
+  for (const edit of [...edits].sort((a, b) => a.start - b.start || a.end - b.end)) {
+    if (edit.start < pos || edit.end > to) continue;
+    out += sql.slice(pos, edit.start) + edit.text;
+    pos = edit.end;
+  }
+  return out + sql.slice(pos, to);
+}
+
+/**
+ * Check a Cube SQL query against `explore()` metadata without sending it:
+ * unknown views and columns, measures not wrapped in `MEASURE()`,
+ * dimensions passed to `MEASURE()`, measures in GROUP BY, selected
+ * dimensions missing from GROUP BY and JOINs. Only the first statement is
+ * checked; columns are checked for a plain `SELECT … FROM view` and skipped
+ * for CTEs, subqueries and set operations. When every issue has a likely
+ * fix, `fixedSql` holds the corrected query.
+ */
+export function lintSql(sql: string, meta: ExploreMeta): SqlLintResult {
+  const all = tokenize(sql);
+  const semicolon = all.findIndex((t) => t.text === ';');
+  const tokens = semicolon === -1 ? all : all.slice(0, semicolon);
+  if (!isWord(tokens[0], 'select', 'with')) return { valid: true, issues: [] };
+
+  const sources = new Map(meta.cubes.map((c) => [c.name.toLowerCase(), c]));
+  const parens = matchParens(tokens);
+  const issues: SqlLintIssue[] = [];
+  const edits: Edit[] = [];
+  let fixable = true;
+
+  const report: Report = (issue, fix) => {
+    issues.push({ ...issue, suggestions: issue.suggestions ?? [] });
+    if (fix) edits.push(...fix);
+    else fixable = false;
+  };
+  for (const t of tokens) {
+    if (!isWord(t, 'join')) continue;
+    report({
+      code: 'unsupported_join',
+      clause: 'join',
+      offset: t.start,
+      value: t.text,
+      message: 'JOINs are not supported; query one view that has all the fields, or combine results from different views with UNION',
+    }, null);
+  }
+
+  // Tables, everywhere in the statement
+  const tables: Array<{ index: number; source?: CubeMetaItem }> = [];
+  for (const index of tableIndexes(tokens)) {
+    const ref = tokens[index]!;
+    const source = sources.get(ref.value.toLowerCase());
+    if (source) {
+      tables.push({ index, source });
+      continue;
+    }
+    const suggestions = didYouMean(ref.value, meta.cubes.map((c) => c.name));
+    const keyword = tokens[tokens[index - 1]?.text === '.' ? index - 3 : index - 1];
+    report({
+      code: 'unknown_table',
+      clause: isWord(keyword, 'join') ? 'join' : 'from',
+      offset: ref.start,
+      value: ref.value,
+      message: withHint(`View '${ref.value}' not found`, suggestions),
+      suggestions,
+    }, suggestions[0] ? [{ start: ref.start, end: ref.end, text: sameQuoting(ref, suggestions[0]) }] : null);
+    tables.push({ index, source: suggestions[0] ? sources.get(suggestions[0].toLowerCase()) : undefined });
+  }
+
+  // Columns only for a single SELECT on one view
+  const simple = isWord(tokens[0], 'select') && tables.length === 1 && tables[0]!.source &&
+    !tokens.some((t, i) => i > 0 && isWord(t, 'select', 'join', 'union', 'intersect', 'except'));
+  if (simple) lintColumns(sql, tokens, parens, tables[0]!.index, tables[0]!.source!, report, edits);
+
+  issues.sort((a, b) => a.offset - b.offset);
+  return {
+    valid: issues.length === 0,
+    issues,
+    ...(issues.length > 0 && fixable && { fixedSql: applyEdits(sql, edits) }),
+  };
+}
+
+/** Columns one select item or clause reads. */
+export interface SqlColumnRefs {
+  /** Unqualified column names, as written (quoted names unquoted). */
+  columns: string[];
+}
+
+/** What a SQL query reads, for access checks by the AI tools policy. */
+export interface SqlAccess {
+  /** Number of statements. */
+  statements: number;
+  /** First word of the first statement, past any opening parentheses, lowercased. */
+  keyword: string;
+  /** Unquoted words outside strings and comments, lowercased. */
+  words: string[];
+  /** Unquoted words and quoted identifiers, as names a column could have. */
+  identifiers: string[];
+  /** Views and cubes read, in any statement; CTE names are left out. */
+  tables: string[];
+  /** Whether any select list has `*` or `table.*`. */
+  star: boolean;
+  /**
+   * The columns of a plain `SELECT … FROM view`: per output column in
+   * order, and per filtering or sorting clause. `null` for CTEs, subqueries,
+   * set operations, JOINs and several statements, whose columns can't be
+   * traced to the view.
+   */
+  projection: {
+    table: string;
+    outputs: Array<SqlColumnRefs & { name?: string }>;
+    /** Columns in WHERE, HAVING and ORDER BY; select aliases resolve to their columns. */
+    predicates: Array<SqlColumnRefs & { clause: SqlClause }>;
+  } | null;
+}
+
+/**
+ * Character offsets where a statement's own top-level `ORDER BY` and
+ * `LIMIT`/`OFFSET`/`FETCH` begin, if it has them.
+ */
+export function trailingClauses(sql: string): { orderBy?: number; limit?: number } {
+  const tokens = tokenize(sql);
+  const found: { orderBy?: number; limit?: number } = {};
+  for (const clause of clausesOf(tokens)) {
+    const keyword = tokens[clause.keyword]!;
+    if (clause.clause === 'order by') found.orderBy ??= keyword.start;
+    else if (isWord(keyword, 'limit', 'offset', 'fetch')) found.limit ??= keyword.start;
+  }
+  return found;
+}
+
+/**
+ * Trace the columns a SQL query reads, without schema metadata. Words in
+ * `columnNames` count as columns even where they are keywords (e.g. a
+ * dimension called `date`).
+ */
+export function sqlAccess(sql: string, columnNames: Iterable<string> = []): SqlAccess {
+  const all = tokenize(sql);
+  const statements: Token[][] = [[]];
+  for (const t of all) {
+    if (t.text === ';') statements.push([]);
+    else statements[statements.length - 1]!.push(t);
+  }
+  const nonEmpty = statements.filter((st) => st.length > 0);
+  const tokens = nonEmpty[0] ?? [];
+  const names = new Set([...columnNames].map((n) => n.toLowerCase()));
+
+  const tables = nonEmpty.flatMap((st) => tableIndexes(st).map((i) => st[i]!.value));
+  const star = all.some((t, i) => t.text === '*' && (isWord(all[i - 1], 'select', 'distinct', 'all') || [',', '.'].includes(all[i - 1]?.text ?? '')));
+  const access: SqlAccess = {
+    statements: nonEmpty.length,
+    keyword: tokens.find((t) => t.text !== '(')?.value.toLowerCase() ?? '',
+    words: all.filter((t) => t.type === 'word').map((t) => t.value),
+    identifiers: all.filter((t) => t.type === 'word' || t.type === 'quoted').map((t) => t.value),
+    tables: [...new Set(tables)],
+    star,
+    projection: null,
+  };
+
+  const indexes = tableIndexes(tokens);
+  const simple = nonEmpty.length === 1 && isWord(tokens[0], 'select') && indexes.length === 1 &&
+    !tokens.some((t, i) => i > 0 && isWord(t, 'select', 'join', 'union', 'intersect', 'except'));
+  if (!simple || star) return access;
+
+  const clauses = clausesOf(tokens);
+  const selectClause = clauses.find((c) => c.clause === 'select')!;
+  const items = selectItems(tokens, selectClause);
+  const aliasIndexes = new Set(items.filter((item) => item.alias).map((item) => item.end - 1));
+  const qualifiers = qualifiersOf(tokens, indexes[0]!);
+
+  // Column references outside FROM, by token index
+  const refs = new Map<number, string>();
+  let wholeRow = false;
+  for (const clause of clauses) {
+    if (clause.clause === 'from' || clause.clause === 'other') continue;
+    for (let i = clause.start; i < clause.end; i++) {
+      const t = tokens[i]!;
+      if (!isIdentifier(t) && !(t.type === 'word' && names.has(t.value))) continue;
+      const next = tokens[i + 1];
+      const prev = tokens[i - 1];
+      if (next?.text === '(' || next?.text === '.' || isWord(prev, 'as') || prev?.text === '::' || aliasIndexes.has(i)) continue;
+      // `SELECT orders FROM orders` would return whole rows
+      if (prev?.text !== '.' && qualifiers.has(t.value.toLowerCase())) wholeRow = true;
+      refs.set(i, t.value);
+    }
+  }
+  if (wholeRow) return access;
+
+  const columnsIn = (start: number, end: number) => [...refs].filter(([i]) => i >= start && i < end).map(([, name]) => name);
+  const outputs = items.map((item) => {
+    const columns = columnsIn(item.start, item.exprEnd);
+    const bare = item.exprEnd - item.start === 1 || (item.exprEnd - item.start === 3 && tokens[item.start + 1]!.text === '.');
+    const name = item.alias?.value ?? (bare && columns.length === 1 ? columns[0] : undefined);
+    return { ...(name !== undefined && { name }), columns };
+  });
+
+  // A select alias or ORDER BY position stands for that item's expression
+  const aliasColumns = new Map(items.flatMap((item, k) => item.alias ? [[item.alias.value.toLowerCase(), outputs[k]!.columns] as const] : []));
+  const predicates = clauses
+    .filter((c) => c.clause === 'where' || c.clause === 'having' || c.clause === 'order by')
+    .map((c) => {
+      const columns = columnsIn(c.start, c.end).flatMap((name) => c.clause !== 'where' && aliasColumns.get(name.toLowerCase()) || [name]);
+      if (c.clause === 'order by') {
+        for (const [start] of splitList(tokens, c.start, c.end)) {
+          const ordinal = tokens[start]!;
+          if (ordinal.type === 'number') columns.push(...outputs[Number(ordinal.text) - 1]?.columns ?? []);
+        }
+      }
+      return { clause: c.clause as SqlClause, columns };
+    });
+
+  access.projection = { table: tokens[indexes[0]!]!.value, outputs, predicates };
+  return access;
+}
+
+function lintColumns(
+  sql: string,
+  tokens: Token[],
+  parens: Map<number, number>,
+  tableIndex: number,
+  source: CubeMetaItem,
+  report: Report,
+  edits: Edit[]
+): void {
+  const columns = new Map<string, Column>();
+  const add = (name: string, kind: Kind) => {
+    const short = name.slice(name.indexOf('.') + 1);
+    columns.set(short.toLowerCase(), { short, kind });
+  };
+  source.measures.forEach((m) => add(m.name, 'measure'));
+  source.dimensions.forEach((d) => add(d.name, 'dimension'));
+  source.segments.forEach((s) => add(s.name, 'segment'));
+  const shortNames = [...columns.values()].map((c) => c.short);
+
+  const clauses = clausesOf(tokens);
+  const clauseOf = (i: number) => clauses.find((c) => i >= c.start && i < c.end);
+  const selectClause = clauses.find((c) => c.clause === 'select')!;
+  const groupClause = clauses.find((c) => c.clause === 'group by');
+  const qualifiers = qualifiersOf(tokens, tableIndex);
+
+  // Select items and their aliases, which later clauses may refer to
+  const items = selectItems(tokens, selectClause);
+  const aliasIndexes = new Set(items.filter((item) => item.alias).map((item) => item.end - 1));
+  const aliases = new Set(items.flatMap((item) => item.alias ? [item.alias.value.toLowerCase()] : []));
+
+  const refs: ColumnRef[] = [];
+  const stack: Array<{ fn: string; open: number }> = [];
+  tokens.forEach((t, i) => {
+    if (t.text === '(') stack.push({ fn: tokens[i - 1]?.type === 'word' ? tokens[i - 1]!.value : '', open: i });
+    else if (t.text === ')') stack.pop();
+
+    const clause = clauseOf(i)?.clause;
+    if (!clause || clause === 'other' || clause === 'from') return;
+    if (!isIdentifier(t) && !(t.type === 'word' && columns.has(t.value))) return;
+    const next = tokens[i + 1];
+    const prev = tokens[i - 1];
+    if (next?.text === '(' || next?.text === '.' || isWord(prev, 'as') || prev?.text === '::' || aliasIndexes.has(i)) return;
+    const qualified = prev?.text === '.';
+    if (qualified && !qualifiers.has(tokens[i - 2]?.value.toLowerCase() ?? '')) return;
+    const name = t.value.toLowerCase();
+    if (clause !== 'select' && clause !== 'where' && !qualified && aliases.has(name)) return;
+
+    const start = qualified ? tokens[i - 2]!.start : t.start;
+    let column = columns.get(name);
+    if (!column) {
+      const suggestions = didYouMean(t.value, shortNames);
+      report({
+        code: 'unknown_column',
+        clause,
+        offset: t.start,
+        value: t.value,
+        message: withHint(`Column '${t.value}' not found in '${source.name}'`, suggestions),
+        suggestions,
+      }, suggestions[0] ? [{ start: t.start, end: t.end, text: sameQuoting(t, suggestions[0]) }] : null);
+      column = suggestions[0] ? columns.get(suggestions[0].toLowerCase()) : undefined;
+    }
+    if (column) refs.push({ index: i, start, end: t.end, clause, column, calls: [...stack] });
+  });
+
+  // MEASURE() around a dimension is dropped; remember which calls that unwraps
+  const unwrapped = new Set<number>();
+  for (const ref of refs) {
+    const text = sql.slice(ref.start, ref.end);
+    const aggregated = ref.calls.some((c) => AGGREGATES.has(c.fn));
+    if (ref.column.kind === 'measure' && !aggregated && ['select', 'having', 'order by'].includes(ref.clause)) {
+      report({
+        code: 'measure_not_wrapped',
+        clause: ref.clause,
+        offset: ref.start,
+        value: text,
+        message: `'${text}' is a measure; wrap it in MEASURE(${text})`,
+        suggestions: [`MEASURE(${text})`],
+      }, [{ start: ref.start, end: ref.start, text: 'MEASURE(' }, { start: ref.end, end: ref.end, text: ')' }]);
+    }
+
+    const call = ref.calls[ref.calls.length - 1];
+    if (ref.column.kind !== 'measure' && call?.fn === 'measure') {
+      const close = parens.get(call.open);
+      // Only MEASURE(column) itself can be unwrapped
+      const onlyArgument = close !== undefined && (close - call.open === 2 || (close - call.open === 4 && tokens[call.open + 2]?.text === '.'));
+      if (onlyArgument) unwrapped.add(call.open);
+      report({
+        code: 'not_a_measure',
+        clause: ref.clause,
+        offset: tokens[call.open - 1]!.start,
+        value: sql.slice(tokens[call.open - 1]!.start, close !== undefined ? tokens[close]!.end : ref.end),
+        message: `'${text}' is a dimension; MEASURE() only takes measures. Select it directly and group by it`,
+        suggestions: [text],
+      }, onlyArgument ? [{ start: tokens[call.open - 1]!.start, end: tokens[call.open]!.end, text: '' }, { start: tokens[close]!.start, end: tokens[close]!.end, text: '' }] : null);
+    }
+  }
+
+  if (items.some((item) => tokens[item.start]?.text === '*' && item.end - item.start === 1)) return;
+
+  // GROUP BY: every selected dimension next to an aggregate, and no measures
+  const refsIn = (start: number, end: number) => refs.filter((r) => r.index >= start && r.index < end);
+  const isAggregate = (i: number) =>
+    tokens[i]!.type === 'word' && AGGREGATES.has(tokens[i]!.value) && tokens[i + 1]?.text === '(' && !unwrapped.has(i + 1);
+  const analyzed = items.map((item, position) => {
+    const itemRefs = refsIn(item.start, item.exprEnd);
+    const hasAggregate = itemRefs.some((r) => r.column.kind === 'measure') ||
+      tokens.slice(item.start, item.exprEnd).some((_, k) => isAggregate(item.start + k));
+    const hasDimension = itemRefs.some((r) => r.column.kind !== 'measure' &&
+      !r.calls.some((c) => AGGREGATES.has(c.fn) && !unwrapped.has(c.open)));
+    return { ...item, position: position + 1, hasAggregate, hasDimension, key: normalize(tokens, item.start, item.exprEnd) };
+  });
+  if (!groupClause && !analyzed.some((item) => item.hasAggregate)) return;
+
+  const entries = groupClause ? splitList(tokens, groupClause.start, groupClause.end).map(([start, end]) => {
+    const entryRefs = refsIn(start, end);
+    const single = entryRefs.length === 1 && entryRefs[0]!.index === end - 1 &&
+      (end - start === 1 || (end - start === 3 && tokens[start + 1]!.text === '.'));
+    return {
+      start,
+      end,
+      key: normalize(tokens, start, end),
+      ordinal: end - start === 1 && tokens[start]!.type === 'number' ? Number(tokens[start]!.text) : undefined,
+      isMeasure: single && entryRefs[0]!.column.kind === 'measure',
+    };
+  }) : [];
+
+  const missing = analyzed.filter((item) => item.hasDimension && !item.hasAggregate && !entries.some((e) =>
+    e.ordinal === item.position || e.key === item.key || (item.alias && e.key === item.alias.value.toLowerCase())));
+  const measures = entries.filter((e) => e.isMeasure);
+  if (missing.length === 0 && measures.length === 0) return;
+
+  // One fix rebuilds the whole GROUP BY clause, taking in the edits inside it
+  const kept = entries.filter((e) => !e.isMeasure);
+  const parts = [
+    ...kept.map((e) => applyEdits(sql, edits, tokens[e.start]!.start, tokens[e.end - 1]!.end)),
+    ...missing.map((item) => String(item.position)),
+  ];
+  const clauseText = parts.length > 0 ? ` GROUP BY ${parts.join(', ')}` : '';
+  let fix: Edit;
+  if (groupClause) {
+    const from = tokens[groupClause.keyword - 1]!.end;
+    const to = tokens[groupClause.end - 1]!.end;
+    for (let k = edits.length - 1; k >= 0; k--) if (edits[k]!.start >= from && edits[k]!.end <= to) edits.splice(k, 1);
+    fix = { start: from, end: to, text: clauseText };
+  } else {
+    // Before HAVING, ORDER BY, LIMIT and the rest, or at the end
+    const after = clauses.find((c) => !['select', 'from', 'where'].includes(c.clause));
+    const at = tokens[(after ? after.keyword : tokens.length) - 1]!.end;
+    fix = { start: at, end: at, text: clauseText };
+  }
+
+  for (const e of measures) {
+    const text = sql.slice(tokens[e.start]!.start, tokens[e.end - 1]!.end);
+    report({
+      code: 'measure_in_group_by',
+      clause: 'group by',
+      offset: tokens[e.start]!.start,
+      value: text,
+      message: `'${text}' is a measure and can't be grouped by; remove it from GROUP BY`,
+    }, []);
+  }
+  for (const item of missing) {
+    const text = sql.slice(tokens[item.start]!.start, tokens[item.exprEnd - 1]!.end);
+    report({
+      code: 'missing_group_by',
+      clause: 'select',
+      offset: tokens[item.start]!.start,
+      value: text,
+      message: `'${text}' is selected next to aggregates but missing from GROUP BY; add it (or its position, ${item.position})`,
+      suggestions: [String(item.position)],
+    }, []);
+  }
+  edits.push(fix);
+}
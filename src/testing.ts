@@ -0,0 +1,239 @@
+/**
+ * Bonnard SDK — Offline mock client with record/replay (for tests)
+ */
+
+import type { BonnardConfig, ExploreMeta, SqlResult, CubeQuery, DocsTopicSummary } from './types.js';
+import type { BonnardSchema, ParseSetting, TypedBonnardClient } from './schema.js';
+import type { BonnardClient } from './client.js';
+import type { MockDataset } from './mock-engine.js';
+import { createClient } from './client.js';
+import { createMockEngine } from './mock-engine.js';
+import { BonnardError } from './errors.js';
+import { stableStringify } from './cache.js';
+
+export { createMockEngine, resolveDateRange } from './mock-engine.js';
+export type { MockDataset, MockQueryResponse } from './mock-engine.js';
+
+type MockClientBaseOptions = Pick<
+  BonnardConfig,
+  'retry' | 'timeoutMs' | 'cache' | 'autoBatch' | 'parse' | 'validate' | 'middleware' | 'onRequest' | 'onResponse' | 'onError' | 'tracer'
+>;
+
+export interface MockDocsTopic extends Omit<DocsTopicSummary, 'description'> {
+  description?: string | null;
+  content: string;
+}
+
+/** Answer every call from fixture data held in memory. */
+export interface MemoryMockClientOptions extends MockClientBaseOptions, Partial<MockDataset> {
+  mode?: 'memory';
+  meta: ExploreMeta;
+  /**
+   * Handler for `sql`/`sqlPages`/`sqlAll`. Paged calls receive the query
+   * with `LIMIT`/`OFFSET` added. Without a handler SQL calls fail with a
+   * `QueryValidationError`.
+   */
+  sql?: (query: string) => SqlResult | SqlResult['data'] | Promise<SqlResult | SqlResult['data']>;
+  /** Topics served by `docs()`. */
+  docs?: MockDocsTopic[];
+}
+
+/** Call the real API and save every response to a fixture file. */
+export interface RecordMockClientOptions
+  extends MockClientBaseOptions, Pick<BonnardConfig, 'apiKey' | 'fetchToken' | 'baseUrl' | 'fetch' | 'onTokenRefresh'> {
+  mode: 'record';
+  /** Path of the JSON fixture file. Existing entries are kept unless re-recorded. */
+  fixtures: string;
+}
+
+/** Answer every call from previously recorded responses. */
+export interface ReplayMockClientOptions extends MockClientBaseOptions {
+  mode: 'replay';
+  /** Path of a recorded fixture file, or its parsed contents. */
+  fixtures: string | MockFixtures;
+}
+
+export type MockClientOptions = MemoryMockClientOptions | RecordMockClientOptions | ReplayMockClientOptions;
+
+/** Recorded responses keyed by `METHOD path body`. */
+export type MockFixtures = Record<string, { status: number; body: unknown }>;
+
+type QueryRequestBody = { query?: CubeQuery | CubeQuery[]; sql?: string };
+
+const MOCK_BASE_URL = 'http://bonnard.mock';
+const MOCK_API_KEY = 'bon_pk_mock';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/** Fixture key for a request; the host and credentials are left out. */
+function fixtureKey(input: RequestInfo | URL, init?: RequestInit): string {
+  const url = new URL(input instanceof Request ? input.url : String(input));
+  const method = init?.method ?? 'GET';
+  const body = typeof init?.body === 'string' ? ` ${stableStringify(JSON.parse(init.body))}` : '';
+  return `${method} ${url.pathname}${url.search}${body}`;
+}
+
+async function readFixtures(path: string): Promise<MockFixtures> {
+  const fs = await import('node:fs/promises');
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf8')) as MockFixtures;
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return {};
+    throw err;
+  }
+}
+
+async function writeFixtures(path: string, fixtures: MockFixtures): Promise<void> {
+  const [fs, { dirname }] = await Promise.all([import('node:fs/promises'), import('node:path')]);
+  const sorted = Object.fromEntries(Object.keys(fixtures).sort().map(k => [k, fixtures[k]]));
+  await fs.mkdir(dirname(path), { recursive: true });
+  await fs.writeFile(path, JSON.stringify(sorted, null, 2) + '\n');
+}
+
+function memoryFetch(options: MemoryMockClientOptions): typeof fetch {
+  const engine = createMockEngine({
+    meta: options.meta,
+    tables: options.tables ?? {},
+    segments: options.segments,
+    now: options.now,
+  });
+
+  async function handle(pathname: string, params: URLSearchParams, body: QueryRequestBody | undefined): Promise<unknown> {
+    if (pathname === '/api/cube/meta') return { cubes: options.meta.cubes };
+
+    if (pathname === '/api/docs') {
+      const topics = options.docs ?? [];
+      const topicId = params.get('topic');
+      if (topicId) {
+        const topic = topics.find(t => t.id === topicId);
+        if (!topic) throw new BonnardError(`Topic '${topicId}' not found`, 'http', { status: 404 });
+        return { topic: { id: topic.id, title: topic.title, content: topic.content } };
+      }
+      const category = params.get('category');
+      return {
+        topics: topics
+          .filter(t => !category || t.category === category)
+          .map(t => ({ id: t.id, title: t.title, description: t.description ?? null, category: t.category })),
+      };
+    }
+
+    if (pathname === '/api/cube/query' && typeof body?.sql === 'string') {
+      if (!options.sql) {
+        throw new BonnardError('SQL queries need a `sql` handler in createMockClient', 'query_validation', { status: 400 });
+      }
+      const result = await options.sql(body.sql);
+      return Array.isArray(result) ? { data: result } : result;
+    }
+
+    if (pathname === '/api/cube/sql' && body?.query && !Array.isArray(body.query)) {
+      const { sql, params, members, dataSource, preAggregations } = engine.compile(body.query);
+      return { sql: { sql: [sql, params], aliasNameToMember: members, dataSource, preAggregations } };
+    }
+
+    if (pathname === '/api/cube/dry-run' && body?.query && !Array.isArray(body.query)) {
+      return engine.normalize(body.query);
+    }
+
+    if (pathname === '/api/cube/query' && body?.query) {
+      // An invalid query fails the whole array, as on the server
+      if (Array.isArray(body.query)) return { results: body.query.map(engine.execute) };
+      return engine.execute(body.query);
+    }
+
+    throw new BonnardError(`No mock handler for ${pathname}`, 'http', { status: 404 });
+  }
+
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+    try {
+      return jsonResponse(await handle(url.pathname, url.searchParams, body));
+    } catch (err) {
+      if (!(err instanceof BonnardError)) throw err;
+      return jsonResponse({ error: err.message }, err.status ?? 400);
+    }
+  };
+}
+
+function recordFetch(path: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): typeof fetch {
+  let fixtures: Promise<MockFixtures> | undefined;
+  let writes = Promise.resolve();
+
+  return async (input, init) => {
+    const res = await fetchImpl(input, init);
+    // Read once and rebuild rather than clone: Node 20 can cancel the
+    // original body once the clone is garbage collected
+    const text = await res.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // keep raw text
+    }
+
+    fixtures ??= readFixtures(path);
+    const key = fixtureKey(input, init);
+    // Serialize writes so concurrent calls never interleave; later responses for a key win
+    writes = writes.then(async () => {
+      const current = await fixtures!;
+      current[key] = { status: res.status, body };
+      await writeFixtures(path, current);
+    });
+    await writes;
+    return new Response(text, { status: res.status, statusText: res.statusText, headers: res.headers });
+  };
+}
+
+function replayFetch(source: string | MockFixtures): typeof fetch {
+  let fixtures: Promise<MockFixtures> | undefined;
+
+  return async (input, init) => {
+    fixtures ??= typeof source === 'string' ? readFixtures(source) : Promise.resolve(source);
+    const key = fixtureKey(input, init);
+    const entry = (await fixtures)[key];
+    if (!entry) return jsonResponse({ error: `No recorded response for ${key}` }, 404);
+    return typeof entry.body === 'string'
+      ? new Response(entry.body, { status: entry.status })
+      : jsonResponse(entry.body, entry.status);
+  };
+}
+
+/**
+ * Create a client that runs offline, with the same surface as `createClient`.
+ *
+ * - `memory` (default): answers from `tables` with an in-memory query engine
+ *   that filters, groups, aggregates by measure type, truncates time
+ *   dimensions, orders and pages like Cube. `explain()` returns
+ *   illustrative SQL and `dryRun()` the normalized query.
+ * - `record`: calls the real API and saves each response to `fixtures`.
+ * - `replay`: answers from a recorded fixture file.
+ *
+ * Retries are off by default outside `record` mode.
+ */
+export function createMockClient(options: MockClientOptions): BonnardClient;
+export function createMockClient<S extends BonnardSchema, const P extends ParseSetting = undefined>(
+  options: MockClientOptions & { parse?: P }
+): TypedBonnardClient<S, P>;
+export function createMockClient(options: MockClientOptions): BonnardClient | TypedBonnardClient<BonnardSchema, ParseSetting> {
+  const { retry, timeoutMs, cache, autoBatch, parse, validate, middleware, onRequest, onResponse, onError, tracer } = options;
+  const shared = { timeoutMs, cache, autoBatch, parse, validate, middleware, onRequest, onResponse, onError, tracer };
+
+  if (options.mode === 'record') {
+    const { apiKey, fetchToken, baseUrl, onTokenRefresh } = options;
+    return createClient({
+      ...shared,
+      retry,
+      apiKey,
+      fetchToken,
+      baseUrl,
+      onTokenRefresh,
+      fetch: recordFetch(options.fixtures, options.fetch),
+    });
+  }
+
+  const config = { ...shared, retry: retry ?? false, apiKey: MOCK_API_KEY, baseUrl: MOCK_BASE_URL };
+  if (options.mode === 'replay') return createClient({ ...config, fetch: replayFetch(options.fixtures) });
+  return createClient({ ...config, fetch: memoryFetch(options) });
+}
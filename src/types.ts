@@ -18,54 +18,352 @@ export interface BonnardConfig {
   fetchToken?: () => Promise<string>;
   /** API base URL. Defaults to `https://app.bonnard.dev`. */
   baseUrl?: string;
+  /**
+   * Retry transient failures (429, 502/503/504, network errors) and poll
+   * Cube's `Continue wait` responses until the query completes.
+   *
+   * Enabled by default. Pass `false` to make a single attempt; a
+   * `Continue wait` response then rejects with a `TimeoutError`.
+   */
+  retry?: boolean | RetryOptions;
+  /**
+   * Default timeout for every call, in milliseconds. Can be overridden per
+   * call with `RequestOptions.timeoutMs`. No timeout by default.
+   */
+  timeoutMs?: number;
+  /**
+   * Cache `query`, `rawQuery` and `explore` results on the client. Off by
+   * default; `true` uses an in-memory cache with a 60s TTL.
+   *
+   * Entries are keyed by the normalized Cube query and a SHA-256 identity
+   * of the current token, so tenants never share results. Identical
+   * concurrent requests are deduplicated. Without Web Crypto (plain-HTTP
+   * browser pages) the cache is bypassed.
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * Coalesce `query`/`rawQuery` calls made in the same tick into one batched
+   * request (see `client.batch`). Off by default.
+   */
+  autoBatch?: boolean | AutoBatchOptions;
+  /**
+   * Coerce `query`/`rawQuery` results using their annotation: numeric
+   * measures become numbers, time dimensions `Date`s and booleans booleans.
+   * Parsed results also carry `columns`. Off by default; can be overridden
+   * per call.
+   */
+  parse?: boolean | ParseOptions;
+  /**
+   * `'strict'` checks every `query`, `rawQuery` and `batch` query against
+   * the schema before sending it (see `client.validate`) and rejects invalid
+   * ones with a `QueryValidationError` carrying `issues`. Off by default.
+   */
+  validate?: 'strict' | false;
+  /** `fetch` implementation for every request. Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /**
+   * Functions wrapped around each HTTP attempt, outermost first. Each may
+   * change the request (e.g. add headers), observe the response, or answer
+   * without calling `next`.
+   */
+  middleware?: Middleware[];
+  /** Called when a call starts, before the token is resolved. */
+  onRequest?: (event: RequestEvent) => void;
+  /** Called when a call succeeds, after retries and `Continue wait` polling. */
+  onResponse?: (event: ResponseEvent) => void;
+  /** Called when a call fails, after retries. */
+  onError?: (event: RequestErrorEvent) => void;
+  /** Called after each `fetchToken` call, successful or not. */
+  onTokenRefresh?: (event: TokenRefreshEvent) => void;
+  /**
+   * OpenTelemetry tracer (`trace.getTracer(...)`). When set, each HTTP
+   * attempt is recorded as a client span following the HTTP semantic
+   * conventions.
+   */
+  tracer?: Tracer;
+}
+
+/** One HTTP attempt as seen by middleware. */
+export interface BonnardRequest {
+  /** API path, e.g. `/api/cube/query`. */
+  endpoint: string;
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  /** JSON body before serialization. */
+  body?: unknown;
+  signal: AbortSignal;
+  /** 1 for the first attempt, incremented on each retry or poll. */
+  attempt: number;
+}
+
+export type Middleware = (
+  request: BonnardRequest,
+  next: (request: BonnardRequest) => Promise<Response>
+) => Promise<Response>;
+
+export interface RequestEvent {
+  endpoint: string;
+  method: 'GET' | 'POST';
+  /** Cube query (or queries, for a batch) sent, if any. */
+  query?: CubeQuery | CubeQuery[];
+  /** SQL sent, if any. */
+  sql?: string;
+}
+
+export interface ResponseEvent extends RequestEvent {
+  durationMs: number;
+  /** HTTP attempts made, including retries and `Continue wait` polls. */
+  attempts: number;
+  /** Rows returned, summed across a batch. */
+  rowCount?: number;
+}
+
+export interface RequestErrorEvent extends RequestEvent {
+  durationMs: number;
+  attempts: number;
+  error: unknown;
+}
+
+export interface TokenRefreshEvent {
+  durationMs: number;
+  /** JWT expiry (epoch ms), when the token has one. */
+  expiresAt?: number;
+  error?: unknown;
+}
+
+/** The subset of the OpenTelemetry `Tracer` API the client uses. */
+export interface Tracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: Record<string, string | number | boolean> }): Span;
+}
+
+/** The subset of the OpenTelemetry `Span` API the client uses. */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): unknown;
+}
+
+export interface AutoBatchOptions {
+  /** Most queries sent in one batch. Defaults to 20. */
+  maxBatchSize?: number;
+  /** Parallel requests when falling back to one request per query. Defaults to 4. */
+  concurrency?: number;
+}
+
+export interface BatchOptions extends RequestOptions {
+  /** Parallel requests when falling back to one request per query. Defaults to 4. */
+  concurrency?: number;
+}
+
+/** Outcome of one query in a batch, in the same order as the input. */
+export type BatchResult<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; error: unknown };
+
+export interface CacheOptions {
+  /** How long an entry is fresh. Defaults to 60s. */
+  ttlMs?: number;
+  /**
+   * How long past `ttlMs` a stale entry may still be served while it is
+   * refreshed in the background. Defaults to 0 (no stale reads).
+   */
+  staleWhileRevalidateMs?: number;
+  /** Storage backend. Defaults to `createMemoryStorage()`. */
+  storage?: QueryCacheStorage;
+}
+
+export interface CacheEntry {
+  value: unknown;
+  /** Epoch ms after which the entry is stale. */
+  expiresAt: number;
+  /** Epoch ms after which the entry must not be served at all. */
+  staleUntil: number;
+}
+
+/**
+ * Pluggable cache backend. Methods may be sync (memory, localStorage) or
+ * async (Redis and other remote stores).
+ */
+export interface QueryCacheStorage {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/** Per-call options accepted by every client method. */
+export interface RequestOptions {
+  /** Abort the call. Rejects with an `AbortError`. */
+  signal?: AbortSignal;
+  /** Abort the call after this many milliseconds. Rejects with a `TimeoutError`. */
+  timeoutMs?: number;
+  /** Set to `false` to bypass the client cache for this call. */
+  cache?: boolean;
+  /** Override the client's `parse` setting for this call. */
+  parse?: boolean | ParseOptions;
+}
+
+export interface RetryOptions {
+  /** Total attempts for transient errors, including the first. Defaults to 3. */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff. Defaults to 500ms. */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay. Defaults to 10s. */
+  maxDelayMs?: number;
+  /**
+   * Total time budget for one call, across retries and `Continue wait`
+   * polling. Defaults to 120s. Exceeding it rejects with a `TimeoutError`.
+   */
+  deadlineMs?: number;
+}
+
+/** Options for `queryPages`, `queryAll`, `sqlPages` and `sqlAll`. */
+export interface PaginationOptions extends RequestOptions {
+  /** Rows requested per round trip. Defaults to 1000. */
+  pageSize?: number;
+  /** Stop after this many rows in total. */
+  maxRows?: number;
 }
 
 export interface QueryOptions {
   measures?: string[];
   dimensions?: string[];
-  filters?: Filter[];
+  /** Member filters and nested `{ and: [...] }` / `{ or: [...] }` groups, combined with AND. */
+  filters?: QueryFilter[];
+  /** Shorthand for a single entry in `timeDimensions`. */
   timeDimension?: TimeDimension;
+  timeDimensions?: TimeDimension[];
+  /** Pre-defined segments (e.g. "orders.completed"). */
+  segments?: string[];
   orderBy?: Record<string, 'asc' | 'desc'>;
   limit?: number;
+  offset?: number;
 }
 
+export type Granularity = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
 export interface CubeQuery {
   measures?: string[];
   dimensions?: string[];
   timeDimensions?: Array<{
     dimension: string;
-    granularity?: 'day' | 'week' | 'month' | 'quarter' | 'year';
+    granularity?: Granularity;
     dateRange?: string | [string, string];
   }>;
-  filters?: Array<{
-    member: string;
-    operator: string;
-    values?: (string | number)[];
-  }>;
+  filters?: CubeFilter[];
   segments?: string[];
   order?: Record<string, 'asc' | 'desc'> | Array<[string, 'asc' | 'desc']>;
   limit?: number;
   offset?: number;
+  timezone?: string;
 }
 
+export type CubeFilter =
+  | { member: string; operator: string; values?: (string | number)[] }
+  | { and: CubeFilter[] }
+  | { or: CubeFilter[] };
+
+/** Operators that take one or more `values`. */
+export type ValueFilterOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'startsWith'
+  | 'notStartsWith'
+  | 'endsWith'
+  | 'notEndsWith'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'inDateRange'
+  | 'notInDateRange'
+  | 'beforeDate'
+  | 'beforeOrOnDate'
+  | 'afterDate'
+  | 'afterOrOnDate';
+
+/** Operators that take no `values`. */
+export type UnaryFilterOperator = 'set' | 'notSet';
+
+export type FilterOperator = ValueFilterOperator | UnaryFilterOperator;
+
+/** A condition on one member. `set`/`notSet` take no `values`. */
+export type MemberFilter =
+  | { dimension: string; operator: ValueFilterOperator; values: (string | number)[] }
+  | { dimension: string; operator: UnaryFilterOperator; values?: never };
+
+/**
+ * The original single-member filter shape, kept so code that builds or
+ * extends it still compiles. Every `Filter` is a valid `MemberFilter`.
+ *
+ * @deprecated Use `MemberFilter`, which also covers the string, date and
+ * `set`/`notSet` operators.
+ */
 export interface Filter {
   dimension: string;
   operator: 'equals' | 'notEquals' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte';
   values: (string | number)[];
 }
 
+export type LogicalFilter = { and: QueryFilter[] } | { or: QueryFilter[] };
+
+export type QueryFilter = MemberFilter | LogicalFilter;
+
 export interface TimeDimension {
   dimension: string;
-  granularity?: 'day' | 'week' | 'month' | 'quarter' | 'year';
+  granularity?: Granularity;
   dateRange?: string | [string, string];
 }
 
+/** Metadata Cube returns for each member in a result. */
+export interface AnnotationField {
+  title: string;
+  shortTitle?: string;
+  type: string;
+  /** Aggregation of a measure (`sum`, `count`, `avg`, …); Cube reports the measure itself as `type: 'number'`. */
+  aggType?: string;
+  format?: string;
+  meta?: Record<string, unknown>;
+}
+
+export interface QueryAnnotation {
+  measures: Record<string, AnnotationField>;
+  dimensions: Record<string, AnnotationField>;
+  /** Keyed both by member and by `member.granularity`. */
+  timeDimensions?: Record<string, AnnotationField>;
+  segments?: Record<string, AnnotationField>;
+}
+
 export interface QueryResult<T = Record<string, unknown>> {
   data: T[];
-  annotation?: {
-    measures: Record<string, { title: string; type: string }>;
-    dimensions: Record<string, { title: string; type: string }>;
-  };
+  annotation?: QueryAnnotation;
+  /** Column metadata in result order. Only present when results are parsed. */
+  columns?: ColumnMeta[];
+}
+
+export type MemberKind = 'measure' | 'dimension' | 'timeDimension' | 'segment';
+
+export interface ColumnMeta {
+  /** Key of the column in each row (e.g. "orders.created_at.month"). */
+  key: string;
+  title: string;
+  shortTitle?: string;
+  type: string;
+  format?: string;
+  kind: MemberKind;
+  /** Set for time dimension columns grouped at a granularity. */
+  granularity?: Granularity;
+}
+
+export interface ParseOptions {
+  /** Return integers beyond `Number.MAX_SAFE_INTEGER` as `bigint`. Defaults to true. */
+  bigint?: boolean;
+  /** Convert time dimensions to `Date` (UTC). Defaults to true. */
+  dates?: boolean;
 }
 
 export interface SqlResult<T = Record<string, unknown>> {
@@ -73,6 +371,27 @@ export interface SqlResult<T = Record<string, unknown>> {
   schema?: Array<{ name: string; type: string }>;
 }
 
+/** The SQL a query compiles to, from `explain()`. Nothing is executed. */
+export interface ExplainResult {
+  sql: string;
+  /** Values bound to the placeholders in `sql`, in order. */
+  params: unknown[];
+  /** Column alias in `sql` → member it selects, e.g. `orders__city` → `orders.city`. */
+  members: Record<string, string>;
+  dataSource?: string;
+  /** Pre-aggregations the query would be served from, as reported by Cube. */
+  preAggregations: unknown[];
+}
+
+/** A query as the server normalized it, from `dryRun()`. */
+export interface DryRunResult {
+  queryType: string;
+  /** The query with defaults filled in: order, limit and timezone. */
+  normalizedQueries: CubeQuery[];
+  queryOrder?: Array<Record<string, 'asc' | 'desc'>>;
+  pivotQuery?: unknown;
+}
+
 export interface ExploreMeta {
   cubes: CubeMetaItem[];
 }
@@ -93,6 +412,8 @@ export interface CubeFieldMeta {
   shortTitle?: string;
   description?: string;
   type: string;
+  /** Aggregation of a measure (`count`, `sum`, `avg`, …). Cube reports numeric measures as `type: 'number'`. */
+  aggType?: string;
   format?: string;
   meta?: Record<string, unknown>;
 }
@@ -0,0 +1,235 @@
+/**
+ * Bonnard SDK — Pre-flight query validation against schema metadata (zero IO)
+ */
+
+import type { CubeQuery, ExploreMeta, CubeFieldMeta, QueryOptions } from './types.js';
+
+export type ValidationIssueCode =
+  | 'unknown_member'
+  | 'not_a_measure'
+  | 'not_a_dimension'
+  | 'not_a_time_dimension'
+  | 'unknown_operator'
+  | 'invalid_operator'
+  | 'unknown_segment'
+  | 'segment_source_mismatch';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  /** Location in the query, e.g. `measures[0]` or `filters[1].or[0]`. */
+  path: string;
+  /** Offending member, operator or segment. */
+  value: string;
+  message: string;
+  /** Closest valid alternatives, best first. */
+  suggestions: string[];
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+type Kind = 'measure' | 'dimension' | 'segment';
+
+interface Known {
+  name: string;
+  source: string;
+  kind: Kind;
+  type: string;
+}
+
+const STRING_OPERATORS = ['equals', 'notEquals', 'contains', 'notContains', 'startsWith', 'notStartsWith', 'endsWith', 'notEndsWith', 'set', 'notSet'];
+const NUMBER_OPERATORS = ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'set', 'notSet'];
+const TIME_OPERATORS = ['equals', 'notEquals', 'inDateRange', 'notInDateRange', 'beforeDate', 'beforeOrOnDate', 'afterDate', 'afterOrOnDate', 'set', 'notSet'];
+const BOOLEAN_OPERATORS = ['equals', 'notEquals', 'set', 'notSet'];
+const ALL_OPERATORS = [...new Set([...STRING_OPERATORS, ...NUMBER_OPERATORS, ...TIME_OPERATORS])];
+
+// The operator to suggest when a comparison is used on the wrong type
+const OPERATOR_EQUIVALENTS: Record<string, Record<string, string>> = {
+  time: { gt: 'afterDate', gte: 'afterOrOnDate', lt: 'beforeDate', lte: 'beforeOrOnDate' },
+  number: { contains: 'equals', startsWith: 'equals', endsWith: 'equals', inDateRange: 'gte' },
+};
+
+function operatorsFor(type: string): { family: string; operators: string[] } {
+  if (type === 'string') return { family: 'string', operators: STRING_OPERATORS };
+  if (type === 'time') return { family: 'time', operators: TIME_OPERATORS };
+  if (type === 'boolean') return { family: 'boolean', operators: BOOLEAN_OPERATORS };
+  return { family: 'number', operators: NUMBER_OPERATORS };
+}
+
+/** Optimal string alignment distance: Levenshtein plus adjacent transpositions. */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array<number>(cols - 1).fill(0)]);
+  for (let j = 1; j < cols; j++) d[0]![j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, d[i - 2]![j - 2]! + 1);
+      }
+      d[i]![j] = value;
+    }
+  }
+  return d[a.length]![b.length]!;
+}
+
+function splitMember(name: string): [string, string] {
+  const dot = name.indexOf('.');
+  return dot === -1 ? ['', name] : [name.slice(0, dot), name.slice(dot + 1)];
+}
+
+/**
+ * Candidates closest to `input`, best first. Member names are compared as a
+ * whole and by their short name, so `revnue` and `sales.revenue` both find
+ * `orders.revenue`; a different source costs one edit.
+ */
+export function didYouMean(input: string, candidates: string[], limit = 3): string[] {
+  const [source, short] = splitMember(input.toLowerCase());
+  const threshold = Math.max(2, Math.floor(short.length / 3));
+
+  return candidates
+    .map((candidate) => {
+      const [cSource, cShort] = splitMember(candidate.toLowerCase());
+      const whole = editDistance(input.toLowerCase(), candidate.toLowerCase());
+      const byShort = editDistance(short, cShort) + (source && source !== cSource ? 1 : 0);
+      return { candidate, score: Math.min(whole, byShort) };
+    })
+    .filter(c => c.score <= threshold)
+    .sort((a, b) => a.score - b.score || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(c => c.candidate);
+}
+
+/** A filter in either `QueryOptions` (`dimension`) or Cube (`member`) form. */
+type AnyFilter = { member?: string; dimension?: string; operator?: string; and?: AnyFilter[]; or?: AnyFilter[] };
+
+/**
+ * Check a `QueryOptions` or `CubeQuery` against `explore()` metadata without
+ * sending it: unknown members, measures used as dimensions (and vice versa),
+ * non-time dimensions used as time dimensions, operators that don't fit the
+ * field type, and segments from a source the query doesn't use. Issues carry
+ * edit-distance suggestions where there is a likely fix.
+ */
+export function validateQuery(query: QueryOptions | CubeQuery, meta: ExploreMeta): ValidationResult {
+  const known = new Map<string, Known>();
+  for (const cube of meta.cubes) {
+    const add = (field: CubeFieldMeta | { name: string }, kind: Kind, type: string) =>
+      known.set(field.name, { name: field.name, source: cube.name, kind, type });
+    cube.measures.forEach(m => add(m, 'measure', m.type));
+    cube.dimensions.forEach(d => add(d, 'dimension', d.type));
+    cube.segments.forEach(s => add(s, 'segment', 'boolean'));
+  }
+  const all = [...known.values()];
+  const names = (predicate: (k: Known) => boolean) => all.filter(predicate).map(k => k.name);
+  const measures = names(k => k.kind === 'measure');
+  const dimensions = names(k => k.kind === 'dimension');
+  const timeDimensions = names(k => k.kind === 'dimension' && k.type === 'time');
+  const fields = names(k => k.kind !== 'segment');
+  const segments = names(k => k.kind === 'segment');
+
+  const issues: ValidationIssue[] = [];
+  const sources = new Set<string>();
+  const issue = (code: ValidationIssueCode, path: string, value: string, message: string, suggestions: string[]) =>
+    issues.push({ code, path, value, message, suggestions });
+
+  const withHint = (message: string, suggestions: string[]) =>
+    suggestions.length > 0 ? `${message}. Did you mean ${suggestions.map(s => `'${s}'`).join(' or ')}?` : message;
+
+  /** Resolve a member, reporting it when unknown. */
+  function lookup(name: string, path: string, candidates: string[]): Known | undefined {
+    const member = known.get(name);
+    if (member && member.kind !== 'segment') {
+      sources.add(member.source);
+      return member;
+    }
+    const suggestions = didYouMean(name, candidates);
+    issue('unknown_member', path, name, withHint(`'${name}' not found`, suggestions), suggestions);
+    return undefined;
+  }
+
+  (query.measures ?? []).forEach((name, i) => {
+    const member = lookup(name, `measures[${i}]`, measures);
+    if (member?.kind === 'dimension') {
+      issue('not_a_measure', `measures[${i}]`, name, `'${name}' is a dimension; move it to dimensions`, []);
+    }
+  });
+
+  (query.dimensions ?? []).forEach((name, i) => {
+    const member = lookup(name, `dimensions[${i}]`, dimensions);
+    if (member?.kind === 'measure') {
+      issue('not_a_dimension', `dimensions[${i}]`, name, `'${name}' is a measure; move it to measures`, []);
+    }
+  });
+
+  const timeEntries: Array<[string, { dimension: string }]> = [
+    ...('timeDimension' in query && query.timeDimension ? [['timeDimension', query.timeDimension] as [string, { dimension: string }]] : []),
+    ...(query.timeDimensions ?? []).map((td, i) => [`timeDimensions[${i}]`, td] as [string, { dimension: string }]),
+  ];
+  for (const [path, td] of timeEntries) {
+    const member = lookup(td.dimension, `${path}.dimension`, timeDimensions);
+    if (member && (member.kind !== 'dimension' || member.type !== 'time')) {
+      const [source] = splitMember(td.dimension);
+      const sameSource = timeDimensions.filter(t => splitMember(t)[0] === source);
+      const suggestions = sameSource.length > 0 ? sameSource : didYouMean(td.dimension, timeDimensions);
+      issue('not_a_time_dimension', `${path}.dimension`, td.dimension,
+        withHint(`'${td.dimension}' is not a time dimension`, suggestions), suggestions);
+    }
+  }
+
+  function checkFilter(filter: AnyFilter, path: string): void {
+    if (filter.and) return filter.and.forEach((f, i) => checkFilter(f, `${path}.and[${i}]`));
+    if (filter.or) return filter.or.forEach((f, i) => checkFilter(f, `${path}.or[${i}]`));
+    const name = filter.member ?? filter.dimension ?? '';
+    const member = lookup(name, `${path}.${filter.member !== undefined ? 'member' : 'dimension'}`, fields);
+    const operator = filter.operator ?? '';
+
+    if (!ALL_OPERATORS.includes(operator)) {
+      const suggestions = didYouMean(operator, ALL_OPERATORS);
+      issue('unknown_operator', `${path}.operator`, operator, withHint(`Unknown operator '${operator}'`, suggestions), suggestions);
+      return;
+    }
+    if (!member) return;
+    const { family, operators } = operatorsFor(member.type);
+    if (!operators.includes(operator)) {
+      const equivalent = OPERATOR_EQUIVALENTS[family]?.[operator];
+      const suggestions = equivalent ? [equivalent] : operators;
+      issue('invalid_operator', `${path}.operator`, operator,
+        `Operator '${operator}' does not apply to ${family} ${member.kind} '${name}'; use ${suggestions.map(s => `'${s}'`).join(', ')}`,
+        suggestions);
+    }
+  }
+  (query.filters as AnyFilter[] | undefined ?? []).forEach((f, i) => checkFilter(f, `filters[${i}]`));
+
+  const order = 'orderBy' in query && query.orderBy ? Object.keys(query.orderBy)
+    : 'order' in query && query.order ? (Array.isArray(query.order) ? query.order.map(([k]) => k) : Object.keys(query.order))
+    : [];
+  const orderField = 'orderBy' in query ? 'orderBy' : 'order';
+  order.forEach((key) => {
+    // Ordering by `member.granularity` is allowed for time dimensions
+    const parts = key.split('.');
+    const base = parts.length > 2 ? parts.slice(0, 2).join('.') : key;
+    lookup(known.has(key) ? key : base, `${orderField}["${key}"]`, fields);
+  });
+
+  (query.segments ?? []).forEach((name, i) => {
+    const segment = known.get(name);
+    if (!segment || segment.kind !== 'segment') {
+      const suggestions = didYouMean(name, segments);
+      issue('unknown_segment', `segments[${i}]`, name, withHint(`Segment '${name}' not found`, suggestions), suggestions);
+      return;
+    }
+    if (sources.size > 0 && !sources.has(segment.source)) {
+      const [, short] = splitMember(name);
+      const suggestions = segments.filter(s => sources.has(splitMember(s)[0]) && splitMember(s)[1] === short);
+      issue('segment_source_mismatch', `segments[${i}]`, name,
+        withHint(`Segment '${name}' belongs to '${segment.source}', which this query does not use`, suggestions), suggestions);
+    }
+  });
+
+  return { valid: issues.length === 0, issues };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { createTools as createOpenAITools } from '../src/ai/openai.js';
+import { createTools as createAnthropicTools } from '../src/ai/anthropic.js';
+import { createMockClient } from '../src/testing.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const meta: ExploreMeta = {
+  cubes: [{
+    name: 'orders',
+    type: 'view',
+    measures: [{ name: 'orders.count', type: 'number', aggType: 'count' }],
+    dimensions: [{ name: 'orders.city', type: 'string' }],
+    segments: [],
+  }],
+};
+const client = () => createMockClient({ meta, tables: { orders: [{ city: 'Berlin' }, { city: 'Berlin' }, { city: 'Austin' }] } });
+const queryArgs = { measures: ['orders.count'], dimensions: ['orders.city'] };
+const expectedRows = [{ city: 'Berlin', count: 2 }, { city: 'Austin', count: 1 }];
+
+describe('OpenAI adapter', () => {
+  it('describes tools for Chat Completions', () => {
+    const { tools } = createOpenAITools(client());
+    const query = tools.find((t) => t.function.name === 'query')!;
+    expect(query.type).toBe('function');
+    expect(query.function.parameters).toMatchObject({ type: 'object', additionalProperties: false });
+  });
+
+  it('runs Chat Completions tool calls and skips other tools', async () => {
+    const bonnard = createOpenAITools(client());
+    const messages = await bonnard.handleToolCalls({
+      choices: [{
+        message: {
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'query', arguments: JSON.stringify(queryArgs) } },
+            { id: 'call_2', type: 'function', function: { name: 'get_weather', arguments: '{}' } },
+            { id: 'call_3', type: 'function', function: { name: 'query', arguments: '{"measures":' } },
+          ],
+        },
+      }],
+    });
+    expect(messages.map((m) => m.tool_call_id)).toEqual(['call_1', 'call_3']);
+    expect(messages[0]!.role).toBe('tool');
+    expect(JSON.parse(messages[0]!.content).results).toEqual(expectedRows);
+    expect(JSON.parse(messages[1]!.content).error).toMatch(/not valid JSON/);
+  });
+
+  it('runs Responses API function calls', async () => {
+    const bonnard = createOpenAITools(client(), { api: 'responses' });
+    expect(bonnard.tools[0]).toMatchObject({ type: 'function', strict: false });
+    const outputs = await bonnard.handleToolCalls({
+      output: [
+        { type: 'message' },
+        { type: 'function_call', call_id: 'fc_1', name: 'query', arguments: JSON.stringify(queryArgs) },
+      ],
+    });
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0]).toMatchObject({ type: 'function_call_output', call_id: 'fc_1' });
+    expect(JSON.parse(outputs[0]!.output).results).toEqual(expectedRows);
+  });
+});
+
+describe('Anthropic adapter', () => {
+  it('describes tools with an object input schema', () => {
+    const { tools } = createAnthropicTools(client());
+    expect(tools.find((t) => t.name === 'query')!.input_schema.type).toBe('object');
+  });
+
+  it('answers tool_use blocks with one user message of tool results', async () => {
+    const bonnard = createAnthropicTools(client());
+    const message = await bonnard.handleToolCalls({
+      content: [
+        { type: 'text' },
+        { type: 'tool_use', id: 'toolu_1', name: 'query', input: queryArgs },
+        { type: 'tool_use', id: 'toolu_2', name: 'query', input: { measures: 'orders.count' } },
+        { type: 'tool_use', id: 'toolu_3', name: 'get_weather', input: {} },
+      ],
+    });
+    expect(message!.role).toBe('user');
+    expect(message!.content.map((b) => [b.tool_use_id, b.is_error])).toEqual([['toolu_1', undefined], ['toolu_2', true]]);
+    expect(JSON.parse(message!.content[0]!.content).results).toEqual(expectedRows);
+    expect(JSON.parse(message!.content[1]!.content).error).toMatch(/^Invalid arguments: measures/);
+  });
+
+  it('resolves to null without Bonnard tool calls', async () => {
+    expect(await createAnthropicTools(client()).handleToolCalls({ content: [{ type: 'text' }] })).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createClient } from '../src/client.js';
+import { QueryValidationError } from '../src/errors.js';
+import type { CubeQuery } from '../src/types.js';
+
+type Handler = (query: CubeQuery | CubeQuery[]) => { status: number; body: unknown };
+
+/** A client over a fake `/api/cube/query` that records each request body. */
+function clientWith(handler: Handler) {
+  const requests: Array<CubeQuery | CubeQuery[]> = [];
+  const client = createClient({
+    apiKey: 'bon_pk_test',
+    baseUrl: 'http://bonnard.test',
+    retry: false,
+    fetch: async (_input, init) => {
+      const { query } = JSON.parse(String(init?.body)) as { query: CubeQuery | CubeQuery[] };
+      requests.push(query);
+      const { status, body } = handler(query);
+      return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    },
+  });
+  return { client, requests };
+}
+
+const rows = (query: CubeQuery) => ({ data: [{ [query.measures![0]!]: 1 }] });
+const queries = [{ measures: ['orders.count'] }, { measures: ['orders.revenue'] }];
+
+describe('batch', () => {
+  it('sends one array request when the server accepts it', async () => {
+    const { client, requests } = clientWith((q) => ({ status: 200, body: { results: (q as CubeQuery[]).map(rows) } }));
+    const results = await client.batch(queries);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'fulfilled']);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops sending arrays after the server rejects a batch of valid queries', async () => {
+    const { client, requests } = clientWith((q) =>
+      Array.isArray(q) ? { status: 400, body: { error: 'Invalid query format' } } : { status: 200, body: rows(q) }
+    );
+
+    const first = await client.batch(queries);
+    expect(first.map((r) => r.status)).toEqual(['fulfilled', 'fulfilled']);
+    expect(requests.map(Array.isArray)).toEqual([true, false, false]);
+
+    requests.length = 0;
+    await client.batch(queries);
+    expect(requests.map(Array.isArray)).toEqual([false, false]);
+  });
+
+  it('isolates an invalid query and keeps trying arrays', async () => {
+    const isInvalid = (q: CubeQuery) => q.measures?.[0] === 'orders.nope';
+    const { client, requests } = clientWith((q) => {
+      if (Array.isArray(q)) {
+        return q.some(isInvalid) ? { status: 400, body: { error: "'orders.nope' not found" } } : { status: 200, body: { results: q.map(rows) } };
+      }
+      return isInvalid(q) ? { status: 400, body: { error: "'orders.nope' not found" } } : { status: 200, body: rows(q) };
+    });
+
+    const results = await client.batch([{ measures: ['orders.count'] }, { measures: ['orders.nope'] }]);
+    expect(results[0]!.status).toBe('fulfilled');
+    expect(results[1]!.status === 'rejected' && results[1]!.error).toBeInstanceOf(QueryValidationError);
+
+    requests.length = 0;
+    await client.batch(queries);
+    expect(requests.map(Array.isArray)).toEqual([true]);
+  });
+
+  it('fails every query alike when the array request fails for another reason', async () => {
+    const { client, requests } = clientWith(() => ({ status: 401, body: { error: 'Invalid API key' } }));
+    const results = await client.batch(queries);
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    expect(requests).toHaveLength(1);
+  });
+});
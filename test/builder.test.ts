@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createQueryBuilder } from '../src/builder.js';
+import { createClient } from '../src/client.js';
+import { BonnardError } from '../src/errors.js';
+
+const noRun = async () => ({ data: [] });
+
+describe('query builder', () => {
+  it('returns a new builder from every method, leaving the base unchanged', () => {
+    const base = createQueryBuilder('orders', noRun).measures('revenue').by('city');
+    const before = base.toQueryOptions();
+
+    const berlin = base.where('city').equals('Berlin');
+    const monthly = base.over('created_at', 'month').last('6 months');
+    base.orderBy('revenue', 'desc').limit(10).offset(5);
+
+    expect(base.toQueryOptions()).toEqual(before);
+    expect(berlin.toQueryOptions().filters).toEqual([{ dimension: 'orders.city', operator: 'equals', values: ['Berlin'] }]);
+    expect(monthly.toQueryOptions().filters).toBeUndefined();
+    expect(berlin.toQueryOptions().timeDimension).toBeUndefined();
+  });
+
+  it('hands out copies of its options', () => {
+    const builder = createQueryBuilder('orders', noRun).measures('revenue');
+    builder.toQueryOptions().measures!.push('orders.count');
+    expect(builder.toQueryOptions().measures).toEqual(['orders.revenue']);
+  });
+
+  it('qualifies short names with the view and keeps full names', () => {
+    const options = createQueryBuilder('orders', noRun)
+      .measures('revenue', 'customers.count')
+      .by('status')
+      .segments('completed')
+      .over('created_at', 'week')
+      .orderBy('revenue', 'desc')
+      .where('customers.city').set()
+      .toQueryOptions();
+
+    expect(options).toEqual({
+      measures: ['orders.revenue', 'customers.count'],
+      dimensions: ['orders.status'],
+      segments: ['orders.completed'],
+      timeDimension: { dimension: 'orders.created_at', granularity: 'week' },
+      orderBy: { 'orders.revenue': 'desc' },
+      filters: [{ dimension: 'customers.city', operator: 'set' }],
+    });
+  });
+
+  it('keeps the date range when the time dimension changes and requires over() first', () => {
+    const builder = createQueryBuilder('orders', noRun);
+    expect(() => builder.last('7 days')).toThrow(BonnardError);
+    const ranged = builder.over('created_at').between('2025-01-01', '2025-01-31').over('created_at', 'day');
+    expect(ranged.toQueryOptions().timeDimension).toEqual({
+      dimension: 'orders.created_at',
+      granularity: 'day',
+      dateRange: ['2025-01-01', '2025-01-31'],
+    });
+  });
+
+  it('compiles to a Cube query and runs it through the client', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ data: [{ 'orders.revenue': '10' }] }), { status: 200 }));
+    const bon = createClient({ apiKey: 'bon_pk_test', baseUrl: 'http://bonnard.test', retry: false, fetch });
+    const query = bon.from('orders').measures('revenue').over('created_at', 'month').during('this year').limit(3);
+
+    expect(query.toCubeQuery()).toEqual({
+      measures: ['orders.revenue'],
+      timeDimensions: [{ dimension: 'orders.created_at', granularity: 'month', dateRange: 'this year' }],
+      limit: 3,
+    });
+    const result = await query.run();
+    expect(result.data).toEqual([{ 'orders.revenue': '10' }]);
+    expect(JSON.parse(String((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body))).toEqual({ query: query.toCubeQuery() });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createClient } from '../src/client.js';
+import { createMemoryStorage, createQueryCache, stableStringify, tokenIdentity } from '../src/cache.js';
+
+/** A client with the cache on over a fake `/api/cube/query` that counts requests. */
+function cachedClient(apiKey = 'bon_pk_test') {
+  let requests = 0;
+  const client = createClient({
+    apiKey,
+    baseUrl: 'http://bonnard.test',
+    retry: false,
+    cache: true,
+    fetch: async () => {
+      requests++;
+      return new Response(JSON.stringify({ data: [{ 'orders.count': String(requests) }] }), { status: 200 });
+    },
+  });
+  return { client, requests: () => requests };
+}
+
+const jwt = (claims: Record<string, unknown>) =>
+  `e30.${btoa(JSON.stringify(claims)).replace(/=+$/, '')}.sig`;
+
+describe('cache', () => {
+  it('serves a repeated query from the cache', async () => {
+    const { client, requests } = cachedClient();
+    const first = await client.query({ measures: ['orders.count'] });
+    const second = await client.query({ measures: ['orders.count'] });
+    expect(second.data).toEqual(first.data);
+    expect(requests()).toBe(1);
+  });
+
+  it('shares one request between concurrent identical queries', async () => {
+    const { client, requests } = cachedClient();
+    const results = await Promise.all([
+      client.query({ measures: ['orders.count'], dimensions: ['orders.status'] }),
+      client.rawQuery({ dimensions: ['orders.status'], measures: ['orders.count'] }),
+    ]);
+    expect(results[0].data).toEqual(results[1].data);
+    expect(requests()).toBe(1);
+  });
+
+  it('bypasses the cache with cache: false', async () => {
+    const { client, requests } = cachedClient();
+    await client.query({ measures: ['orders.count'] });
+    const fresh = await client.query({ measures: ['orders.count'] }, { cache: false });
+    expect(fresh.data).toEqual([{ 'orders.count': '2' }]);
+    expect(requests()).toBe(2);
+  });
+
+  it('serves stale entries while refreshing them in the background', async () => {
+    const cache = createQueryCache({ ttlMs: 0, staleWhileRevalidateMs: 60_000 });
+    let loads = 0;
+    const load = async () => ++loads;
+
+    expect(await cache.get('k', load)).toBe(1);
+    expect(await cache.get('k', load)).toBe(1);
+    expect(loads).toBe(2);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await cache.get('k', load)).toBe(2);
+  });
+
+  it('reloads expired entries and drops failed loads', async () => {
+    const cache = createQueryCache({ ttlMs: 0 });
+    await expect(cache.get('k', () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+    expect(await cache.get('k', async () => 'a')).toBe('a');
+    expect(await cache.get('k', async () => 'b')).toBe('b');
+  });
+
+  it('keys queries by content, not property order', () => {
+    expect(stableStringify({ b: 1, a: { d: [2], c: 3 } })).toBe(stableStringify({ a: { c: 3, d: [2] }, b: 1 }));
+  });
+
+  it('shares entries across refreshed tokens for the same claims', async () => {
+    const before = await tokenIdentity(jwt({ sub: 'u1', tenant: 'acme', exp: 1, iat: 0 }));
+    const after = await tokenIdentity(jwt({ sub: 'u1', tenant: 'acme', exp: 2, iat: 1 }));
+    expect(before).toBe(after);
+    expect(before).toMatch(/^[0-9a-f]{64}$/);
+    expect(await tokenIdentity(jwt({ sub: 'u2', tenant: 'acme', exp: 1 }))).not.toBe(before);
+  });
+
+  it('keeps separate entries per token', async () => {
+    let requests = 0;
+    const fetch = async () => new Response(JSON.stringify({ data: [{ n: ++requests }] }), { status: 200 });
+    const storage = createMemoryStorage();
+    const config = { baseUrl: 'http://bonnard.test', retry: false, cache: { storage }, fetch } as const;
+    const acme = createClient({ ...config, apiKey: 'bon_pk_acme' });
+    const globex = createClient({ ...config, apiKey: 'bon_pk_globex' });
+
+    expect((await acme.query({ measures: ['orders.count'] })).data).toEqual([{ n: 1 }]);
+    expect((await globex.query({ measures: ['orders.count'] })).data).toEqual([{ n: 2 }]);
+    expect((await acme.query({ measures: ['orders.count'] })).data).toEqual([{ n: 1 }]);
+  });
+
+  it('bypasses the cache where SHA-256 is unavailable', async () => {
+    vi.stubGlobal('crypto', {});
+    try {
+      const { client, requests } = cachedClient();
+      await client.query({ measures: ['orders.count'] });
+      await client.query({ measures: ['orders.count'] });
+      expect(requests()).toBe(2);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { suggestChart } from '../src/chart.js';
+import type { QueryResult } from '../src/types.js';
+
+const annotation: QueryResult['annotation'] = {
+  measures: {
+    'orders.revenue': { title: 'Orders Revenue', shortTitle: 'Revenue', type: 'number', aggType: 'sum' },
+    'orders.count': { title: 'Orders Count', shortTitle: 'Count', type: 'number', aggType: 'count' },
+  },
+  dimensions: {},
+};
+
+describe('suggestChart kpi', () => {
+  it('renders every measure in the Vega-Lite spec', () => {
+    const chart = suggestChart({ data: [{ 'orders.revenue': '1200', 'orders.count': '3' }], annotation });
+    expect(chart.type).toBe('kpi');
+    expect(chart.kpi!.map((k) => k.value)).toEqual([1200, 3]);
+
+    const cards = (chart.vegaLite as { hconcat: Array<{ title: string; data: { values: unknown[] } }> }).hconcat;
+    expect(cards).toHaveLength(2);
+    expect(cards.map((c) => c.title)).toEqual(chart.kpi!.map((k) => k.title));
+    expect(cards.map((c) => c.data.values)).toEqual(chart.kpi!.map((k) => [{ value: k.formatted }]));
+  });
+
+  it('keeps a single measure as one text mark', () => {
+    const chart = suggestChart({ data: [{ 'orders.count': '3' }], annotation });
+    expect(chart.vegaLite).toMatchObject({ mark: { type: 'text' }, data: { values: [{ value: chart.kpi![0]!.formatted }] } });
+    expect(chart.vegaLite).not.toHaveProperty('hconcat');
+  });
+});
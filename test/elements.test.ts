@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll } from 'vitest';
+import { defineElements, parseFilters, queryFromAttributes, type BonnardLoadDetail } from '../src/elements.js';
+import { createMockClient } from '../src/testing.js';
+import type { ExploreMeta } from '../src/types.js';
+
+function el(attributes: Record<string, string>): Element {
+  const element = document.createElement('div');
+  for (const [name, value] of Object.entries(attributes)) element.setAttribute(name, value);
+  return element;
+}
+
+describe('parseFilters', () => {
+  it('parses ;-separated conditions', () => {
+    expect(parseFilters("orders.status = paid; orders.city in Berlin, 'Bad Homburg'; orders.amount >= 100; orders.email set; orders.note contains x")).toEqual([
+      { dimension: 'orders.status', operator: 'equals', values: ['paid'] },
+      { dimension: 'orders.city', operator: 'equals', values: ['Berlin', 'Bad Homburg'] },
+      { dimension: 'orders.amount', operator: 'gte', values: ['100'] },
+      { dimension: 'orders.email', operator: 'set' },
+      { dimension: 'orders.note', operator: 'contains', values: ['x'] },
+    ]);
+    expect(parseFilters(null)).toEqual([]);
+    expect(parseFilters('  ')).toEqual([]);
+  });
+
+  it('rejects conditions it cannot read', () => {
+    expect(() => parseFilters('status')).toThrow(/Invalid filter 'status'; use e.g./);
+  });
+
+  it('accepts JSON filters, including nested groups', () => {
+    const filters = [{ or: [{ dimension: 'orders.city', operator: 'equals', values: ['Berlin'] }, { dimension: 'orders.email', operator: 'notSet' }] }];
+    expect(parseFilters(JSON.stringify(filters))).toEqual(filters);
+    expect(parseFilters('{"dimension": "orders.city", "operator": "equals", "values": ["Berlin"]}')).toHaveLength(1);
+  });
+
+  it('explains malformed JSON with the attribute name and an example', () => {
+    expect(() => parseFilters('[{"dimension": "orders.city",]')).toThrow(/^Invalid JSON in 'filters' \(.+\); use e\.g\. \[\{"dimension"/);
+  });
+
+  it('rejects JSON that is not a filter', () => {
+    expect(() => parseFilters('[1]')).toThrow("Invalid filter at [0] in 'filters': expected an object");
+    expect(() => parseFilters('[{"dimension": "orders.city", "operator": "equals"}]')).toThrow(/'values' must be an array/);
+    expect(() => parseFilters('[{"or": [{"operator": "set"}]}]')).toThrow(/at \[0\]\.or\[0\] in 'filters': 'dimension' must be/);
+    expect(() => parseFilters('[{"and": {}}]')).toThrow(/'and' must be an array/);
+  });
+});
+
+describe('queryFromAttributes', () => {
+  it('builds a query from every attribute', () => {
+    expect(queryFromAttributes(el({
+      measures: 'orders.revenue, orders.count',
+      dimensions: 'orders.city',
+      'time-dimension': 'orders.created_at',
+      granularity: 'month',
+      'date-range': '2025-01-01, 2025-03-31',
+      filters: 'orders.status = paid',
+      segments: 'orders.completed',
+      order: 'orders.revenue desc, orders.city',
+      limit: '10',
+    }))).toEqual({
+      measures: ['orders.revenue', 'orders.count'],
+      dimensions: ['orders.city'],
+      timeDimension: { dimension: 'orders.created_at', granularity: 'month', dateRange: ['2025-01-01', '2025-03-31'] },
+      filters: [{ dimension: 'orders.status', operator: 'equals', values: ['paid'] }],
+      segments: ['orders.completed'],
+      orderBy: { 'orders.revenue': 'desc', 'orders.city': 'asc' },
+      limit: 10,
+    });
+  });
+
+  it('takes a single measure and a relative date range', () => {
+    expect(queryFromAttributes(el({ measure: 'orders.revenue', 'time-dimension': 'orders.created_at', 'date-range': 'last 30 days' }))).toEqual({
+      measures: ['orders.revenue'],
+      timeDimension: { dimension: 'orders.created_at', dateRange: 'last 30 days' },
+    });
+  });
+
+  it('requires a time dimension for a date range', () => {
+    expect(() => queryFromAttributes(el({ measure: 'orders.revenue', 'date-range': 'last 30 days' }))).toThrow(/needs a 'time-dimension'/);
+  });
+});
+
+describe('<bonnard-metric>', () => {
+  const meta: ExploreMeta = {
+    cubes: [{
+      name: 'orders',
+      measures: [{ name: 'orders.revenue', title: 'Revenue', type: 'number', aggType: 'sum' }],
+      dimensions: [{ name: 'orders.city', type: 'string' }],
+      segments: [],
+    }],
+  };
+
+  beforeAll(() => defineElements());
+
+  it('renders the value and reports load and error states', async () => {
+    const provider = document.createElement('bonnard-provider') as HTMLElement & { client: unknown };
+    provider.client = createMockClient({ meta, tables: { orders: [{ city: 'Berlin', revenue: 1200 }, { city: 'Paris', revenue: 300 }] } });
+    provider.innerHTML = '<bonnard-metric label="Berlin" measure="orders.revenue" filters="orders.city = Berlin"></bonnard-metric>';
+    const metric = provider.querySelector('bonnard-metric')!;
+    const loaded = new Promise<BonnardLoadDetail>((resolve) => metric.addEventListener('bonnard-load', (e) => resolve((e as CustomEvent).detail)));
+    document.body.append(provider);
+
+    const { result } = await loaded;
+    expect(result.data).toHaveLength(1);
+    expect(metric.getAttribute('state')).toBe('ready');
+    expect(metric.querySelector('.bonnard-label')!.textContent).toBe('Berlin');
+    expect(metric.querySelector('.bonnard-value')!.textContent).toBe('1,200');
+
+    const failed = new Promise<Error>((resolve) => metric.addEventListener('bonnard-error', (e) => resolve((e as CustomEvent).detail)));
+    metric.setAttribute('filters', '[{"dimension": ');
+    expect((await failed).message).toMatch(/^Invalid JSON in 'filters'/);
+    expect(metric.getAttribute('state')).toBe('error');
+    expect(metric.querySelector('.bonnard-error')!.textContent).toMatch(/use e\.g\./);
+    provider.remove();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createClient } from '../src/client.js';
+import {
+  AuthError,
+  BonnardError,
+  NetworkError,
+  QueryValidationError,
+  RateLimitError,
+  ServerError,
+  errorFromResponse,
+  parseRetryAfter,
+} from '../src/errors.js';
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('errorFromResponse', () => {
+  it.each([
+    [401, AuthError, 'auth'],
+    [403, AuthError, 'auth'],
+    [429, RateLimitError, 'rate_limit'],
+    [400, QueryValidationError, 'query_validation'],
+    [422, QueryValidationError, 'query_validation'],
+    [500, ServerError, 'server'],
+    [503, ServerError, 'server'],
+    [404, BonnardError, 'http'],
+  ] as const)('classifies %i as %s', async (status, type, code) => {
+    const err = await errorFromResponse(json(status, { error: 'Nope' }), '/api/cube/query', 'Query failed');
+    expect(err).toBeInstanceOf(type);
+    expect(err).toBeInstanceOf(BonnardError);
+    expect(err).toMatchObject({ code, status, endpoint: '/api/cube/query', message: 'Nope', body: { error: 'Nope' } });
+  });
+
+  it('reads Retry-After and the request ID', async () => {
+    const err = await errorFromResponse(
+      json(429, { error: 'Slow down' }, { 'Retry-After': '2', 'X-Request-Id': 'req_1' }),
+      '/api/cube/query',
+      'Query failed'
+    ) as RateLimitError;
+    expect(err.retryAfterMs).toBe(2000);
+    expect(err.requestId).toBe('req_1');
+
+    const fromBody = await errorFromResponse(json(500, { error: 'Boom', requestId: 'req_2' }), '/api/cube/query', 'Query failed');
+    expect(fromBody.requestId).toBe('req_2');
+  });
+
+  it('falls back to the raw text, the status text and the fallback message', async () => {
+    const text = await errorFromResponse(new Response('Bad gateway', { status: 502 }), '/api/cube/meta', 'Request failed');
+    expect(text).toMatchObject({ message: 'Bad gateway', body: 'Bad gateway' });
+
+    const statusText = await errorFromResponse(new Response('', { status: 500, statusText: 'Internal Server Error' }), '/api/cube/meta', 'Request failed');
+    expect(statusText.message).toBe('Internal Server Error');
+
+    const fallback = await errorFromResponse(new Response(null, { status: 500 }), '/api/cube/meta', 'Request failed');
+    expect(fallback.message).toBe('Request failed');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    vi.useFakeTimers({ now: Date.UTC(2025, 0, 1) });
+    expect(parseRetryAfter('1.5')).toBe(1500);
+    expect(parseRetryAfter(new Date(Date.UTC(2025, 0, 1, 0, 0, 30)).toUTCString())).toBe(30_000);
+    expect(parseRetryAfter('Wed, 01 Jan 2020 00:00:00 GMT')).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('client errors', () => {
+  it('throws the typed error for a failed response', async () => {
+    const client = createClient({
+      apiKey: 'bon_pk_test',
+      baseUrl: 'http://bonnard.test',
+      retry: false,
+      fetch: async () => json(401, { error: 'Invalid API key' }),
+    });
+    await expect(client.query({ measures: ['orders.count'] })).rejects.toMatchObject({
+      name: 'AuthError',
+      code: 'auth',
+      status: 401,
+      message: 'Invalid API key',
+    });
+  });
+
+  it('wraps fetch failures in a NetworkError with the cause', async () => {
+    const cause = new TypeError('fetch failed');
+    const client = createClient({
+      apiKey: 'bon_pk_test',
+      baseUrl: 'http://bonnard.test',
+      retry: false,
+      fetch: async () => { throw cause; },
+    });
+    const err = await client.explore().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err).toMatchObject({ code: 'network', endpoint: '/api/cube/meta', cause });
+    expect((err as Error).message).toBe('Request to /api/cube/meta failed: fetch failed');
+  });
+
+  it('rejects a client without credentials with a config error', async () => {
+    const client = createClient({ baseUrl: 'http://bonnard.test', retry: false, fetch: async () => json(200, {}) });
+    await expect(client.explore()).rejects.toMatchObject({ code: 'config' });
+  });
+});
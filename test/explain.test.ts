@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createClient } from '../src/client.js';
+import { createTools } from '../src/ai/tools.js';
+import { QueryValidationError } from '../src/errors.js';
+import type { CubeQuery } from '../src/types.js';
+
+const meta = {
+  cubes: [{
+    name: 'orders',
+    type: 'view',
+    measures: [{ name: 'orders.revenue', type: 'number', aggType: 'sum' }],
+    dimensions: [{ name: 'orders.city', type: 'string' }, { name: 'orders.created_at', type: 'time' }],
+    segments: [],
+  }],
+};
+
+/** Stand-in for the Bonnard API: answers `/api/cube/sql` and `/api/cube/dry-run` like Cube. */
+const requests: Array<{ url: string; authorization?: string; query: CubeQuery }> = [];
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.url === '/api/cube/meta') return reply(200, meta);
+
+    const { query } = JSON.parse(raw) as { query: CubeQuery };
+    requests.push({ url: req.url!, authorization: req.headers.authorization, query });
+    if (query.measures?.includes('orders.profit')) return reply(400, { error: "'orders.profit' not found" });
+
+    if (req.url === '/api/cube/sql') {
+      return reply(200, {
+        sql: {
+          sql: ['SELECT "orders".city "orders__city", sum("orders".amount) "orders__revenue" FROM orders WHERE ("orders".city = $1) GROUP BY 1', ['Berlin']],
+          aliasNameToMember: { orders__city: 'orders.city', orders__revenue: 'orders.revenue' },
+          dataSource: 'default',
+        },
+      });
+    }
+    if (req.url === '/api/cube/dry-run') {
+      const normalized = { ...query, order: [['orders.revenue', 'desc']], limit: 10000, timezone: 'UTC' };
+      return reply(200, { queryType: 'regularQuery', normalizedQueries: [normalized], queryOrder: [{ 'orders.revenue': 'desc' }] });
+    }
+    reply(404, { error: 'Not found' });
+  });
+});
+
+let baseUrl = '';
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const client = () => createClient({ apiKey: 'bon_pk_test', baseUrl, retry: false });
+const options = {
+  measures: ['orders.revenue'],
+  dimensions: ['orders.city'],
+  filters: [{ dimension: 'orders.city', operator: 'equals' as const, values: ['Berlin'] }],
+};
+
+describe('explain', () => {
+  it('returns the compiled SQL, its parameters and the member of each column', async () => {
+    requests.length = 0;
+    const result = await client().explain(options);
+    expect(result).toEqual({
+      sql: expect.stringContaining('GROUP BY 1'),
+      params: ['Berlin'],
+      members: { orders__city: 'orders.city', orders__revenue: 'orders.revenue' },
+      dataSource: 'default',
+      preAggregations: [],
+    });
+    expect(requests).toEqual([{
+      url: '/api/cube/sql',
+      authorization: 'Bearer bon_pk_test',
+      query: {
+        measures: ['orders.revenue'],
+        dimensions: ['orders.city'],
+        filters: [{ member: 'orders.city', operator: 'equals', values: ['Berlin'] }],
+      },
+    }]);
+  });
+
+  it('sends Cube queries unchanged', async () => {
+    requests.length = 0;
+    const cubeQuery: CubeQuery = { measures: ['orders.revenue'], timeDimensions: [{ dimension: 'orders.created_at', granularity: 'month' }] };
+    await client().explain(cubeQuery);
+    expect(requests[0]!.query).toEqual(cubeQuery);
+  });
+});
+
+describe('dryRun', () => {
+  it('returns the query as the server normalized it', async () => {
+    const result = await client().dryRun(options);
+    expect(result.queryType).toBe('regularQuery');
+    expect(result.normalizedQueries[0]).toMatchObject({ limit: 10000, timezone: 'UTC', order: [['orders.revenue', 'desc']] });
+  });
+
+  it('rejects invalid queries with a QueryValidationError', async () => {
+    await expect(client().dryRun({ measures: ['orders.profit'] })).rejects.toBeInstanceOf(QueryValidationError);
+  });
+});
+
+describe('explain_query tool', () => {
+  it('is only offered when enabled', () => {
+    expect(createTools(client()).map((t) => t.name)).not.toContain('explain_query');
+    expect(createTools(client(), { explain: true }).map((t) => t.name)).toContain('explain_query');
+  });
+
+  it('returns the SQL and the normalized query without running it', async () => {
+    requests.length = 0;
+    const tool = createTools(client(), { explain: true }).find((t) => t.name === 'explain_query')!;
+    const response = await tool.execute({ measures: ['orders.revenue'], dimensions: ['orders.city'] }) as Record<string, any>;
+    expect(response.params).toEqual(['Berlin']);
+    expect(response.members).toEqual({ orders__city: 'orders.city', orders__revenue: 'orders.revenue' });
+    expect(response.normalized_query).toMatchObject({ timezone: 'UTC' });
+    expect(requests.map((r) => r.url).sort()).toEqual(['/api/cube/dry-run', '/api/cube/sql']);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { tableFromIPC } from 'apache-arrow';
+import { toCSV, toJSONL, toMarkdownTable, streamCSV, streamJSONL } from '../src/export.js';
+import { toArrow, streamArrow } from '../src/arrow.js';
+import type { QueryResult } from '../src/types.js';
+
+const annotation: QueryResult['annotation'] = {
+  measures: {
+    'orders.count': { title: 'Orders Count', shortTitle: 'Count', type: 'number' },
+    'customers.count': { title: 'Orders Count', shortTitle: 'Count', type: 'number' },
+  },
+  dimensions: { 'orders.note': { title: 'Orders Note', shortTitle: 'Note', type: 'string' } },
+  segments: {},
+  timeDimensions: {},
+};
+
+const result: QueryResult = {
+  data: [
+    { 'orders.note': 'plain', 'orders.count': '3', 'customers.count': '2' },
+    { 'orders.note': 'says "hi", then\nleaves | fast \\o/', 'orders.count': '10', 'customers.count': null },
+  ],
+  annotation,
+};
+
+async function* pagesOf<T>(pages: T[][]) {
+  for (const page of pages) yield page;
+}
+
+async function collect<T>(chunks: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const chunk of chunks) out.push(chunk);
+  return out;
+}
+
+describe('toCSV', () => {
+  it('quotes fields with delimiters, quotes and newlines and uses titles by default', () => {
+    expect(toCSV(result)).toBe(
+      'Orders Note,Orders Count,Orders Count\r\n' +
+      'plain,3,2\r\n' +
+      '"says ""hi"", then\nleaves | fast \\o/",10,\r\n'
+    );
+  });
+
+  it('honors the delimiter, newline, columns and header options', () => {
+    expect(toCSV(result, { delimiter: '|', newline: '\n', columns: ['orders.note'], header: 'shortKey' })).toBe(
+      'note\nplain\n"says ""hi"", then\nleaves | fast \\o/"\n'
+    );
+    expect(toCSV(result, { columns: ['orders.count'], header: false })).toBe('3\r\n10\r\n');
+  });
+
+  it('writes the header once when streaming pages', async () => {
+    const chunks = await collect(streamCSV(pagesOf([[{ a: 1 }], [{ a: 2 }]])));
+    expect(chunks.join('')).toBe('a\r\n1\r\n2\r\n');
+  });
+});
+
+describe('toJSONL', () => {
+  it('writes one object per row keyed by member, with bigints as strings', () => {
+    const lines = toJSONL({ data: [{ id: 9007199254740993n, name: 'a\nb', missing: undefined }] });
+    expect(lines).toBe('{"id":"9007199254740993","name":"a\\nb","missing":null}\n');
+  });
+
+  it('streams rows from pages', async () => {
+    expect((await collect(streamJSONL(pagesOf([[{ a: 1 }, { a: 2 }], [{ a: 3 }]])))).join('')).toBe('{"a":1}\n{"a":2}\n{"a":3}\n');
+  });
+});
+
+describe('toMarkdownTable', () => {
+  it('escapes pipes, backslashes and newlines and right-aligns measures', () => {
+    expect(toMarkdownTable(result, { columns: ['orders.note', 'orders.count'] })).toBe(
+      '| Orders Note | Orders Count |\n' +
+      '| --- | ---: |\n' +
+      '| plain | 3 |\n' +
+      '| says "hi", then<br>leaves \\| fast \\\\o/ | 10 |\n'
+    );
+  });
+});
+
+describe('toArrow', () => {
+  it('types columns from the annotation', () => {
+    const table = tableFromIPC(toArrow(result));
+    expect(table.schema.fields.map((f) => [f.name, String(f.type)])).toEqual([
+      ['orders.note', 'Utf8'],
+      ['orders.count', 'Float64'],
+      ['customers.count', 'Float64'],
+    ]);
+    expect(table.getChild('orders.count')!.toArray()).toEqual(new Float64Array([3, 10]));
+    expect(table.getChild('customers.count')!.get(1)).toBeNull();
+  });
+
+  it('keeps columns whose headers collide', () => {
+    const table = tableFromIPC(toArrow(result, { header: 'title', format: 'file' }));
+    expect(table.schema.fields.map((f) => f.name)).toEqual(['Orders Note', 'Orders Count', 'Orders Count (customers.count)']);
+    expect(table.getChild('Orders Count')!.get(0)).toBe(3);
+    expect(table.getChild('Orders Count (customers.count)')!.get(0)).toBe(2);
+  });
+
+  it('keeps column order for integer-like names and parses SQL timestamps', () => {
+    const table = tableFromIPC(toArrow({
+      data: [{ b: 'x', 1: 5, at: '2025-01-02T03:04:05.000' }],
+      schema: [{ name: 'b', type: 'varchar' }, { name: '1', type: 'int' }, { name: 'at', type: 'timestamp' }],
+    }, { columns: ['b', '1', 'at'] }));
+    expect(table.schema.fields.map((f) => f.name)).toEqual(['b', '1', 'at']);
+    expect(table.getChild('at')!.get(0)).toBe(Date.UTC(2025, 0, 2, 3, 4, 5));
+  });
+});
+
+describe('streamArrow', () => {
+  it('writes one record batch per page', async () => {
+    const chunks = await collect(streamArrow(pagesOf([[{ a: 1 }, { a: 2 }], [{ a: 3 }]])));
+    const table = tableFromIPC(chunks);
+    expect(table.batches).toHaveLength(2);
+    expect(table.getChild('a')!.toArray()).toEqual(new Float64Array([1, 2, 3]));
+  });
+
+  it('stops fetching pages when the consumer stops early', async () => {
+    let fetched = 0;
+    let closed = false;
+    async function* slowPages() {
+      try {
+        for (let i = 0; i < 100; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          fetched++;
+          yield [{ a: i }];
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    for await (const chunk of streamArrow(slowPages())) {
+      expect(chunk).toBeInstanceOf(Uint8Array);
+      break;
+    }
+    expect(closed).toBe(true);
+    expect(fetched).toBeLessThan(5);
+  });
+});
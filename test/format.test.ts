@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createFormatter } from '../src/format.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const meta: ExploreMeta = {
+  cubes: [{
+    name: 'orders',
+    type: 'view',
+    measures: [
+      { name: 'orders.revenue', type: 'number', format: 'currency' },
+      { name: 'orders.revenue_eur', type: 'number', format: 'currency', meta: { currency: 'EUR', decimals: 0 } },
+      { name: 'orders.margin', type: 'number', format: 'percent' },
+      { name: 'orders.count', type: 'number', meta: { compact: true } },
+      { name: 'orders.average', type: 'number' },
+    ],
+    dimensions: [
+      { name: 'orders.id', type: 'number', format: 'id' },
+      { name: 'orders.created_at', type: 'time' },
+      { name: 'orders.status', type: 'string' },
+    ],
+    segments: [],
+  }],
+};
+
+// Intl separates numbers from units with (narrow) no-break spaces
+const spaces = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ');
+
+describe('createFormatter', () => {
+  const en = createFormatter(meta, { locale: 'en-US' });
+  const de = createFormatter(meta, { locale: 'de-DE' });
+
+  it('formats numbers by the field format and meta hints', () => {
+    expect(en.format('orders.revenue', '1234.5')).toBe('$1,234.50');
+    expect(en.format('orders.revenue_eur', 1234.5)).toBe('€1,235');
+    expect(en.format('orders.margin', '12.345')).toBe('12.3%');
+    expect(en.format('orders.count', '1234567')).toBe('1.23M');
+    expect(en.format('orders.average', '1234.5678')).toBe('1,234.57');
+    expect(en.format('orders.id', '1234567')).toBe('1234567');
+    expect(en.format('orders.status', '1234')).toBe('1234');
+  });
+
+  it('follows the locale', () => {
+    expect(spaces(de.format('orders.revenue', '1234.5'))).toBe('1.234,50 $');
+    expect(spaces(de.format('orders.revenue_eur', 1234.5))).toBe('1.235 €');
+    expect(spaces(de.format('orders.margin', '12.345'))).toBe('12,3 %');
+    expect(de.format('orders.average', '1234.5678')).toBe('1.234,57');
+  });
+
+  it('formats time dimensions by granularity', () => {
+    expect(en.format('orders.created_at.year', '2025-01-01T00:00:00.000')).toBe('2025');
+    expect(en.format('orders.created_at.quarter', '2025-08-15T00:00:00.000')).toBe('Q3 2025');
+    expect(en.format('orders.created_at.month', '2025-03-01T00:00:00.000')).toBe('Mar 2025');
+    expect(en.format('orders.created_at.week', '2025-03-17T00:00:00.000')).toBe('Week 12, 2025');
+    expect(en.format('orders.created_at', '2025-03-17T14:30:00.000')).toBe('Mar 17, 2025');
+    expect(de.format('orders.created_at.month', '2025-03-01T00:00:00.000')).toBe('März 2025');
+    expect(en.format('orders.created_at', '2025-03-17T14:30:00.000', { granularity: 'hour' })).toMatch(/^Mar 17, 2025, 2:30\sPM$/);
+  });
+
+  it('applies the client options', () => {
+    const custom = createFormatter(meta, { locale: 'en-US', currency: 'GBP', percentScale: 1, nullText: '—', timezone: 'America/New_York' });
+    expect(custom.format('orders.revenue', 5)).toBe('£5.00');
+    expect(custom.format('orders.margin', 0.25)).toBe('25%');
+    expect(custom.format('orders.revenue', null)).toBe('—');
+    expect(custom.format('orders.created_at.hour', '2025-03-17T14:30:00.000')).toMatch(/^Mar 17, 2025, 10:30\sAM$/);
+    expect(en.format('orders.revenue', undefined)).toBe('');
+  });
+
+  it('formats whole rows and resolves granularity keys to their field', () => {
+    expect(en.formatRow({ 'orders.count': 1500, 'orders.status': 'done' }, { compact: false })).toEqual({
+      'orders.count': '1,500',
+      'orders.status': 'done',
+    });
+    expect(en.field('orders.created_at.month')?.type).toBe('time');
+    expect(en.field('orders.unknown')).toBeUndefined();
+  });
+});
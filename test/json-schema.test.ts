@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { toJsonSchema } from '../src/ai/json-schema.js';
+
+describe('toJsonSchema', () => {
+  it('marks optional and defaulted properties as not required', () => {
+    const schema = z.object({
+      view: z.string().describe('View name'),
+      limit: z.number().int().min(1).max(5000).optional(),
+      verbose: z.boolean().default(false),
+    });
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        view: { type: 'string', description: 'View name' },
+        limit: { type: 'integer', minimum: 1, maximum: 5000 },
+        verbose: { type: 'boolean', default: false },
+      },
+      required: ['view'],
+      additionalProperties: false,
+    });
+  });
+
+  it('converts nullable, enum, literal and union types', () => {
+    expect(toJsonSchema(z.string().nullable())).toEqual({ anyOf: [{ type: 'string' }, { type: 'null' }] });
+    expect(toJsonSchema(z.enum(['asc', 'desc']))).toEqual({ type: 'string', enum: ['asc', 'desc'] });
+    expect(toJsonSchema(z.literal('view'))).toEqual({ const: 'view' });
+    expect(toJsonSchema(z.union([z.string(), z.number().gt(0)]))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number', exclusiveMinimum: 0 }],
+    });
+  });
+
+  it('converts arrays with bounds, records and nested objects', () => {
+    const schema = z.object({
+      filters: z.array(z.object({ member: z.string(), values: z.array(z.string()).optional() })).min(1).max(10),
+      meta: z.record(z.number()),
+    });
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        filters: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { member: { type: 'string' }, values: { type: 'array', items: { type: 'string' } } },
+            required: ['member'],
+            additionalProperties: false,
+          },
+          minItems: 1,
+          maxItems: 10,
+        },
+        meta: { type: 'object', additionalProperties: { type: 'number' } },
+      },
+      required: ['filters', 'meta'],
+      additionalProperties: false,
+    });
+  });
+
+  it('sees through refinements and falls back to an empty schema', () => {
+    expect(toJsonSchema(z.string().refine((s) => s.length > 0))).toEqual({ type: 'string' });
+    expect(toJsonSchema(z.any())).toEqual({});
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { createMcpServer } from '../src/ai/mcp.js';
+import { createMockClient } from '../src/testing.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const meta: ExploreMeta = {
+  cubes: [{
+    name: 'orders',
+    type: 'view',
+    measures: [{ name: 'orders.count', type: 'number', aggType: 'count' }],
+    dimensions: [{ name: 'orders.city', type: 'string' }],
+    segments: [],
+  }],
+};
+
+const server = (options?: Parameters<typeof createMcpServer>[1]) => createMcpServer(createMockClient({
+  meta,
+  tables: { orders: [{ city: 'Berlin' }, { city: 'Berlin' }, { city: 'Austin' }] },
+  docs: [{ id: 'getting-started', title: 'Getting started', category: 'guides', content: '# Hello' }],
+}), options);
+
+const rpc = (method: string, params?: unknown, id = 1) => ({ jsonrpc: '2.0', id, method, params });
+const notification = (method: string) => ({ jsonrpc: '2.0', method });
+
+const post = (body: string, headers: Record<string, string> = {}) =>
+  new Request('http://127.0.0.1:3000/mcp', { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+
+describe('MCP JSON-RPC dispatch', () => {
+  it('negotiates the protocol version on initialize', async () => {
+    const mcp = server({ name: 'acme', version: '1.2.3', instructions: 'Use views' });
+    const known = await mcp.handle(rpc('initialize', { protocolVersion: '2025-03-26' })) as any;
+    expect(known.result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      serverInfo: { name: 'acme', version: '1.2.3' },
+      instructions: 'Use views',
+      capabilities: { tools: {}, resources: {} },
+    });
+    const unknown = await mcp.handle(rpc('initialize', { protocolVersion: '1999-01-01' })) as any;
+    expect(unknown.result.protocolVersion).toBe('2025-06-18');
+  });
+
+  it('lists tools with JSON Schema inputs', async () => {
+    const { result } = await server().handle(rpc('tools/list')) as any;
+    const names = result.tools.map((t: { name: string }) => t.name);
+    expect(names).toContain('query');
+    expect(names).not.toContain('explain_query');
+    const query = result.tools.find((t: { name: string }) => t.name === 'query');
+    expect(query.inputSchema).toMatchObject({ type: 'object', properties: { measures: { type: 'array' } } });
+  });
+
+  it('calls a tool and returns its result as text', async () => {
+    const { result } = await server().handle(rpc('tools/call', {
+      name: 'query',
+      arguments: { measures: ['orders.count'], dimensions: ['orders.city'] },
+    })) as any;
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].type).toBe('text');
+    expect(JSON.parse(result.content[0].text).results).toEqual([
+      { city: 'Berlin', count: 2 },
+      { city: 'Austin', count: 1 },
+    ]);
+  });
+
+  it('marks failed tool calls as errors instead of failing the request', async () => {
+    const { result, error } = await server().handle(rpc('tools/call', { name: 'query', arguments: { measures: 'orders.count' } })) as any;
+    expect(error).toBeUndefined();
+    expect(result.isError).toBe(true);
+  });
+
+  it('answers with JSON-RPC error codes', async () => {
+    const mcp = server();
+    expect((await mcp.handle(rpc('tools/call', { name: 'drop_tables' })) as any).error.code).toBe(-32602);
+    expect((await mcp.handle(rpc('sampling/createMessage')) as any).error).toEqual({ code: -32601, message: 'Method not found: sampling/createMessage' });
+    expect((await mcp.handle({ id: 7, method: 'ping' })) as any).toEqual({ jsonrpc: '2.0', id: 7, error: { code: -32600, message: 'Invalid request' } });
+    expect((await mcp.handle(rpc('resources/read', { uri: 'file:///etc/passwd' })) as any).error.code).toBe(-32002);
+    expect((await mcp.handle([]) as any).error.code).toBe(-32600);
+  });
+
+  it('answers batches and skips notifications', async () => {
+    const mcp = server();
+    expect(await mcp.handle(notification('notifications/initialized'))).toBeNull();
+    const responses = await mcp.handle([rpc('ping', undefined, 1), notification('notifications/initialized'), rpc('ping', undefined, 2)]);
+    expect(responses).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }, { jsonrpc: '2.0', id: 2, result: {} }]);
+  });
+
+  it('serves docs topics as resources', async () => {
+    const mcp = server();
+    const { result: list } = await mcp.handle(rpc('resources/list')) as any;
+    expect(list.resources).toEqual([{ uri: 'bonnard://docs/getting-started', name: 'getting-started', title: 'Getting started', mimeType: 'text/markdown' }]);
+    const { result: read } = await mcp.handle(rpc('resources/read', { uri: 'bonnard://docs/getting-started' })) as any;
+    expect(read.contents[0].text).toBe('# Hello');
+    const missing = await mcp.handle(rpc('resources/read', { uri: 'bonnard://docs/nope' })) as any;
+    expect(missing.error.code).toBe(-32002);
+  });
+});
+
+describe('MCP HTTP transport', () => {
+  it('answers POSTed JSON-RPC with JSON', async () => {
+    const res = await server().handleHttp(post(JSON.stringify(rpc('ping'))));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+  });
+
+  it('accepts notifications with 202 and rejects other methods and bad JSON', async () => {
+    const mcp = server();
+    expect((await mcp.handleHttp(post(JSON.stringify(notification('notifications/initialized'))))).status).toBe(202);
+    const get = await mcp.handleHttp(new Request('http://127.0.0.1:3000/mcp'));
+    expect(get.status).toBe(405);
+    expect(get.headers.get('allow')).toBe('POST');
+    const bad = await mcp.handleHttp(post('{"jsonrpc":'));
+    expect(bad.status).toBe(400);
+    expect((await bad.json()).error.code).toBe(-32700);
+  });
+
+  it('rejects browser origins that are neither local nor allowed', async () => {
+    const mcp = server({ allowedOrigins: ['https://app.example.com'] });
+    const body = JSON.stringify(rpc('ping'));
+    expect((await mcp.handleHttp(post(body, { Origin: 'https://evil.example' }))).status).toBe(403);
+    expect((await mcp.handleHttp(post(body, { Origin: 'http://attacker.localhost.evil.example' }))).status).toBe(403);
+    expect((await mcp.handleHttp(post(body, { Origin: 'http://localhost:5173' }))).status).toBe(200);
+    expect((await mcp.handleHttp(post(body, { Origin: 'https://app.example.com' }))).status).toBe(200);
+    expect((await mcp.handleHttp(post(body))).status).toBe(200);
+  });
+
+  it('serves the handler on a local Node server', async () => {
+    const { url, close } = await server().serveHttp({ port: 0 });
+    try {
+      expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+      const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(rpc('ping')) });
+      expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+      const blocked = await fetch(url, { method: 'POST', headers: { Origin: 'https://evil.example' }, body: JSON.stringify(rpc('ping')) });
+      expect(blocked.status).toBe(403);
+      expect((await fetch(new URL('/other', url))).status).toBe(404);
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe('MCP stdio transport', () => {
+  it('answers one line per request and reports parse errors', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.on('data', (chunk: Buffer) => lines.push(...chunk.toString().split('\n').filter(Boolean)));
+
+    const done = server().serveStdio({ input, output });
+    input.end(`${JSON.stringify(rpc('ping'))}\nnot json\n\n`);
+    await done;
+
+    expect(lines.map((l) => JSON.parse(l))).toEqual(expect.arrayContaining([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+    ]));
+    expect(lines).toHaveLength(2);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMetaLoader, estimateTokens, fitToTokens, searchFields } from '../src/ai/meta.js';
+import { createPolicy } from '../src/ai/policy.js';
+import { createTools } from '../src/ai/tools.js';
+import { createMockClient } from '../src/testing.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const meta: ExploreMeta = {
+  cubes: [
+    {
+      name: 'orders_raw',
+      type: 'cube',
+      measures: [{ name: 'orders_raw.total_revenue', type: 'number', title: 'Total Revenue' }],
+      dimensions: [{ name: 'orders_raw.status', type: 'string' }],
+      segments: [],
+    },
+    {
+      name: 'orders',
+      type: 'view',
+      measures: [
+        { name: 'orders.revenue', type: 'number', title: 'Revenue', description: 'Sum of order totals' },
+        { name: 'orders.total_revenue', type: 'number', title: 'Total Revenue' },
+        { name: 'orders.count', type: 'number', title: 'Count', meta: { synonyms: 'volume, number of orders' } },
+      ],
+      dimensions: [
+        { name: 'orders.status', type: 'string', title: 'Status' },
+        { name: 'orders.created_at', type: 'time', title: 'Created At', description: 'When revenue was booked' },
+      ],
+      segments: [],
+    },
+    {
+      name: 'customers',
+      type: 'view',
+      measures: [{ name: 'customers.count', type: 'number' }],
+      dimensions: [{ name: 'customers.city', type: 'string' }],
+      segments: [],
+    },
+  ],
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createMetaLoader', () => {
+  const counted = () => {
+    const client = createMockClient({ meta });
+    const explore = vi.spyOn(client, 'explore');
+    return { client, explore };
+  };
+
+  it('reuses one fetch within the TTL and shares concurrent calls', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const { client, explore } = counted();
+    const load = createMetaLoader(client, { metaTtlMs: 1000 }, createPolicy());
+
+    const [a, b] = await Promise.all([load(), load()]);
+    expect(a).toBe(b);
+    vi.setSystemTime(999);
+    await load();
+    expect(explore).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(1000);
+    await load();
+    expect(explore).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches every call with a TTL of 0 and retries after a failure', async () => {
+    const { client, explore } = counted();
+    const load = createMetaLoader(client, { metaTtlMs: 0 }, createPolicy());
+    await load();
+    await load();
+    expect(explore).toHaveBeenCalledTimes(2);
+
+    explore.mockRejectedValueOnce(new Error('offline'));
+    const retrying = createMetaLoader(client, {}, createPolicy());
+    await expect(retrying()).rejects.toThrow('offline');
+    await expect(retrying()).resolves.toMatchObject({ cubes: expect.any(Array) });
+  });
+
+  it('narrows to visible sources and members', async () => {
+    const load = createMetaLoader(
+      createMockClient({ meta }),
+      { viewsOnly: true, sources: ['orders', 'orders_raw'] },
+      createPolicy({ deniedMembers: ['orders.revenue'] }, ['orders', 'orders_raw'])
+    );
+    const { cubes } = await load();
+    expect(cubes.map((c) => c.name)).toEqual(['orders']);
+    expect(cubes[0]!.measures.map((m) => m.name)).toEqual(['orders.total_revenue', 'orders.count']);
+  });
+});
+
+describe('fitToTokens', () => {
+  const items = Array.from({ length: 10 }, (_, i) => ({ name: `field_${i}` }));
+
+  it('keeps the longest prefix that fits the budget', () => {
+    const each = JSON.stringify(items[0]).length + 1;
+    expect(fitToTokens(items, (each * 3) / 4)).toEqual(items.slice(0, 3));
+    expect(fitToTokens(items, (each * 3) / 4, 1)).toEqual(items.slice(0, 2));
+    expect(fitToTokens(items, 10_000)).toEqual(items);
+    expect(fitToTokens(items, 0)).toEqual([]);
+  });
+
+  it('estimates about four characters per token', () => {
+    expect(estimateTokens({ a: 'b' })).toBe(Math.ceil('{"a":"b"}'.length / 4));
+    expect(estimateTokens(undefined)).toBe(0);
+  });
+});
+
+describe('searchFields', () => {
+  const fields = (query: string, limit = 10) => searchFields(meta, query, limit).map((h) => h.field);
+
+  it('ranks name matches over title, synonym and description matches', () => {
+    expect(fields('revenue')).toEqual([
+      'orders.revenue',
+      'orders.total_revenue',
+      'orders_raw.total_revenue',
+      'orders.created_at',
+    ]);
+  });
+
+  it('requires every term and favors the whole query naming a field', () => {
+    // 'orders.revenue' only matches "total" through its description
+    expect(fields('total revenue')).toEqual(['orders.total_revenue', 'orders_raw.total_revenue', 'orders.revenue']);
+    expect(fields('number of orders')).toEqual(['orders.count']);
+  });
+
+  it('matches prefixes and single typos, and respects the limit', () => {
+    expect(fields('stat')).toEqual(['orders.status', 'orders_raw.status']);
+    expect(fields('revenu', 1)).toEqual(['orders.revenue']);
+    expect(fields('reveneu')).toContain('orders.revenue');
+    expect(fields('  ')).toEqual([]);
+  });
+});
+
+describe('tool source allowlist', () => {
+  const tools = createTools(createMockClient({ meta, tables: { customers: [{ city: 'Berlin' }] } }), {
+    viewsOnly: true,
+    sources: ['orders'],
+  });
+  const tool = (name: string) => tools.find((t) => t.name === name)!;
+
+  it('rejects queries on sources outside the allowlist', async () => {
+    const response = await tool('query').execute({ measures: ['customers.count'] }) as Record<string, any>;
+    expect(response.code).toBe('policy_violation');
+    expect(response.violations[0].message).toBe("Source 'customers' is not available to this agent");
+  });
+
+  it('rejects SQL on sources outside the allowlist', async () => {
+    const response = await tool('sql_query').execute({ sql: 'SELECT city FROM customers' }) as Record<string, any>;
+    expect(response.code).toBe('policy_violation');
+  });
+
+  it('treats cubes hidden by viewsOnly as unknown', async () => {
+    const tools = createTools(createMockClient({ meta }), { viewsOnly: true });
+    const query = tools.find((t) => t.name === 'query')!;
+    const response = await query.execute({ measures: ['orders_raw.total_revenue'] }) as Record<string, any>;
+    expect(response.code).toBe('query_validation');
+    expect(JSON.stringify(response)).toContain('orders.total_revenue');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { createClient } from '../src/client.js';
+import { ServerError } from '../src/errors.js';
+import type { BonnardConfig, Middleware, Span, Tracer } from '../src/types.js';
+
+const query = { measures: ['orders.count'] };
+
+/** A client whose fake fetch answers with `statuses` in order, logging every step to `log`. */
+function tracedClient(statuses: number[], config: Partial<BonnardConfig> = {}) {
+  const log: string[] = [];
+  const spans: Array<{ name: string; attributes: Record<string, unknown>; status?: { code: number; message?: string } }> = [];
+  let calls = 0;
+
+  const tracer: Tracer = {
+    startSpan(name, options) {
+      const record = { name, attributes: { ...options?.attributes } as Record<string, unknown>, status: undefined as { code: number } | undefined };
+      spans.push(record);
+      log.push(`span start ${spans.length}`);
+      const span: Span = {
+        setAttribute: (key, value) => { record.attributes[key] = value; },
+        setStatus: (status) => { record.status = status; },
+        recordException: () => undefined,
+        end: () => log.push(`span end ${spans.indexOf(record) + 1}`),
+      };
+      return span;
+    },
+  };
+  const layer = (name: string): Middleware => async (request, next) => {
+    log.push(`${name} in ${request.attempt}`);
+    const res = await next({ ...request, headers: { ...request.headers, [`x-${name}`]: '1' } });
+    log.push(`${name} out ${res.status}`);
+    return res;
+  };
+
+  const client = createClient({
+    apiKey: 'bon_pk_test',
+    baseUrl: 'http://bonnard.test',
+    retry: { initialDelayMs: 1, maxDelayMs: 1 },
+    tracer,
+    middleware: [layer('outer'), layer('inner')],
+    onRequest: (e) => log.push(`request ${e.endpoint}`),
+    onResponse: (e) => log.push(`response ${e.attempts} ${e.rowCount}`),
+    onError: (e) => log.push(`error ${e.attempts} ${(e.error as Error).name}`),
+    fetch: async (_input, init) => {
+      const headers = init?.headers as Record<string, string>;
+      log.push(`fetch ${headers['x-outer']}${headers['x-inner']}`);
+      const status = statuses[Math.min(calls++, statuses.length - 1)]!;
+      return new Response(JSON.stringify(status === 200 ? { data: [{ 'orders.count': '3' }] } : { error: 'down' }), { status });
+    },
+    ...config,
+  });
+  return { client, log, spans };
+}
+
+describe('middleware and hooks', () => {
+  it('runs hooks around the call and middleware around each attempt, inside its span', async () => {
+    const { client, log, spans } = tracedClient([503, 200]);
+    await client.query(query);
+
+    expect(log).toEqual([
+      'request /api/cube/query',
+      'span start 1', 'outer in 1', 'inner in 1', 'fetch 11', 'inner out 503', 'outer out 503', 'span end 1',
+      'span start 2', 'outer in 2', 'inner in 2', 'fetch 11', 'inner out 200', 'outer out 200', 'span end 2',
+      'response 2 1',
+    ]);
+    expect(spans.map((s) => s.name)).toEqual(['POST', 'POST']);
+    expect(spans[0]).toMatchObject({
+      attributes: { 'http.response.status_code': 503, 'error.type': 'server', 'bonnard.endpoint': '/api/cube/query', 'server.port': 80 },
+      status: { code: 2 },
+    });
+    expect(spans[0]!.attributes['http.request.resend_count']).toBeUndefined();
+    expect(spans[1]!.attributes).toMatchObject({ 'http.request.resend_count': 1, 'bonnard.row_count': 1 });
+    expect(spans[1]!.status).toBeUndefined();
+  });
+
+  it('reports a failed call to onError after the last attempt', async () => {
+    const { client, log } = tracedClient([503], { retry: { maxAttempts: 2, initialDelayMs: 1 } });
+    await expect(client.query(query)).rejects.toBeInstanceOf(ServerError);
+    expect(log.filter((l) => /^(request|response|error)/.test(l))).toEqual(['request /api/cube/query', 'error 2 ServerError']);
+  });
+
+  it('lets middleware answer without calling next', async () => {
+    const cached: Middleware = async () => new Response(JSON.stringify({ data: [{ 'orders.count': '9' }] }), { status: 200 });
+    const { client, log } = tracedClient([500], { middleware: [cached] });
+    const result = await client.query(query);
+    expect(result.data).toEqual([{ 'orders.count': '9' }]);
+    expect(log).not.toContainEqual(expect.stringMatching(/^fetch/));
+  });
+
+  it('keeps going when a hook throws', async () => {
+    const { client } = tracedClient([200], {
+      onRequest: () => { throw new Error('observer bug'); },
+      onResponse: () => { throw new Error('observer bug'); },
+    });
+    await expect(client.query(query)).resolves.toMatchObject({ data: [{ 'orders.count': '3' }] });
+  });
+
+  it('reports token refreshes before the first attempt', async () => {
+    const { client, log } = tracedClient([200], {
+      apiKey: undefined,
+      fetchToken: async () => 'token',
+      onTokenRefresh: (e) => log.push(`token ${e.error ? 'failed' : 'ok'}`),
+    });
+    await client.query(query);
+    expect(log.slice(0, 3)).toEqual(['request /api/cube/query', 'token ok', 'span start 1']);
+  });
+});
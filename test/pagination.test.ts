@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createClient } from '../src/client.js';
+import { toSqlPage } from '../src/pagination.js';
+import { QueryValidationError } from '../src/errors.js';
+import type { CubeQuery } from '../src/types.js';
+
+const TOTAL = 7;
+const allRows = Array.from({ length: TOTAL }, (_, i) => ({ 'orders.id': String(i) }));
+
+/** A client over a fake `/api/cube/query` holding `TOTAL` rows, recording each page request. */
+function pagedClient() {
+  const requests: Array<{ query?: CubeQuery; sql?: string }> = [];
+  const client = createClient({
+    apiKey: 'bon_pk_test',
+    baseUrl: 'http://bonnard.test',
+    retry: false,
+    fetch: async (_input, init) => {
+      const body = JSON.parse(String(init?.body)) as { query?: CubeQuery; sql?: string };
+      requests.push(body);
+      let limit: number;
+      let offset: number;
+      if (body.sql) {
+        const match = /LIMIT (\d+) OFFSET (\d+)$/.exec(body.sql)!;
+        [limit, offset] = [Number(match[1]), Number(match[2])];
+      } else {
+        [limit, offset] = [body.query!.limit!, body.query!.offset ?? 0];
+      }
+      const data = allRows.slice(offset, offset + limit);
+      return new Response(JSON.stringify(body.sql ? { data, schema: [{ name: 'orders.id' }] } : { data }), { status: 200 });
+    },
+  });
+  return { client, requests };
+}
+
+const pageShape = (requests: Array<{ query?: CubeQuery }>) => requests.map((r) => [r.query!.limit, r.query!.offset ?? 0]);
+
+describe('pagination', () => {
+  it('yields pages until a short page comes back', async () => {
+    const { client, requests } = pagedClient();
+    const pages: unknown[][] = [];
+    for await (const page of client.queryPages({ dimensions: ['orders.id'] }, { pageSize: 3 })) pages.push(page);
+
+    expect(pages.map((p) => p.length)).toEqual([3, 3, 1]);
+    expect(pageShape(requests)).toEqual([[3, 0], [3, 3], [3, 6]]);
+  });
+
+  it('collects every page with queryAll', async () => {
+    const { client } = pagedClient();
+    const result = await client.queryAll({ dimensions: ['orders.id'] }, { pageSize: 2 });
+    expect(result.data).toEqual(allRows);
+  });
+
+  it('caps the total at maxRows and the query limit', async () => {
+    const { client, requests } = pagedClient();
+    const capped = await client.queryAll({ dimensions: ['orders.id'] }, { pageSize: 3, maxRows: 4 });
+    expect(capped.data).toHaveLength(4);
+    expect(pageShape(requests)).toEqual([[3, 0], [1, 3]]);
+
+    const limited = await client.queryAll({ dimensions: ['orders.id'], limit: 2 }, { pageSize: 3 });
+    expect(limited.data).toHaveLength(2);
+  });
+
+  it('starts at the query offset', async () => {
+    const { client } = pagedClient();
+    const result = await client.queryAll({ dimensions: ['orders.id'], offset: 5 }, { pageSize: 3 });
+    expect(result.data).toEqual(allRows.slice(5));
+  });
+
+  it('stops after an exactly full last page with one empty request', async () => {
+    const { client, requests } = pagedClient();
+    const pages: unknown[][] = [];
+    for await (const page of client.queryPages({ dimensions: ['orders.id'], offset: 1 }, { pageSize: 3 })) pages.push(page);
+    expect(pages.map((p) => p.length)).toEqual([3, 3]);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('pages SQL by adding LIMIT and OFFSET to the statement, keeping its ORDER BY', async () => {
+    const { client, requests } = pagedClient();
+    const result = await client.sqlAll('SELECT id FROM orders ORDER BY id;', { pageSize: 4 });
+    expect(result.data).toEqual(allRows);
+    expect(result.schema).toEqual([{ name: 'orders.id' }]);
+    expect(requests.map((r) => r.sql)).toEqual([
+      'SELECT id FROM orders ORDER BY id\nLIMIT 4 OFFSET 0',
+      'SELECT id FROM orders ORDER BY id\nLIMIT 4 OFFSET 4',
+    ]);
+  });
+
+  it('drops every trailing semicolon and keeps a trailing comment off the LIMIT', () => {
+    expect(toSqlPage('  SELECT 1;; \n', 10, 20)).toBe('SELECT 1\nLIMIT 10 OFFSET 20');
+    expect(toSqlPage('SELECT 1 -- one', 10, 0)).toBe('SELECT 1 -- one\nLIMIT 10 OFFSET 0');
+  });
+
+  it('ignores ORDER BY and LIMIT inside subqueries and windows', () => {
+    expect(toSqlPage('SELECT * FROM (SELECT id FROM orders LIMIT 5) t', 2, 0)).toBe('SELECT * FROM (SELECT id FROM orders LIMIT 5) t\nLIMIT 2 OFFSET 0');
+    expect(toSqlPage("SELECT RANK() OVER (ORDER BY id), 'limit' FROM orders", 2, 0)).toMatch(/\nLIMIT 2 OFFSET 0$/);
+  });
+
+  it('pages a statement with its own LIMIT as a subquery', () => {
+    expect(toSqlPage('SELECT id FROM orders LIMIT 100', 10, 20)).toBe('SELECT * FROM (SELECT id FROM orders LIMIT 100) AS bonnard_page LIMIT 10 OFFSET 20');
+  });
+
+  it('rejects a statement whose own LIMIT would lose its ORDER BY', async () => {
+    expect(() => toSqlPage('SELECT id FROM orders ORDER BY id LIMIT 100', 10, 0)).toThrow(QueryValidationError);
+    const { client, requests } = pagedClient();
+    await expect(client.sqlAll('SELECT id FROM orders ORDER BY id OFFSET 2')).rejects.toThrow(/maxRows/);
+    expect(requests).toHaveLength(0);
+  });
+});
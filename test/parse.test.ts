@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { toNumber, toDate, toBoolean, parseRows, columnsFromAnnotation } from '../src/parse.js';
+import type { QueryAnnotation } from '../src/types.js';
+
+const annotation: QueryAnnotation = {
+  measures: {
+    'orders.count': { title: 'Orders Count', shortTitle: 'Count', type: 'number' },
+    'orders.total': { title: 'Orders Total', shortTitle: 'Total', type: 'sum', format: 'currency' },
+  },
+  dimensions: {
+    'orders.id': { title: 'Orders Id', shortTitle: 'Id', type: 'number' },
+    'orders.status': { title: 'Orders Status', shortTitle: 'Status', type: 'string' },
+    'orders.paid': { title: 'Orders Paid', shortTitle: 'Paid', type: 'boolean' },
+  },
+  segments: {},
+  timeDimensions: {
+    'orders.created_at': { title: 'Orders Created at', shortTitle: 'Created at', type: 'time' },
+    'orders.created_at.month': { title: 'Orders Created at', shortTitle: 'Created at', type: 'time' },
+  },
+};
+
+describe('toNumber', () => {
+  it('keeps integers beyond 2^53 exact as bigint', () => {
+    expect(toNumber('9007199254740993')).toBe(9007199254740993n);
+    expect(toNumber(' -9007199254740993 ')).toBe(-9007199254740993n);
+    expect(toNumber('9007199254740991')).toBe(9007199254740991);
+  });
+
+  it('falls back to a number when bigints are off or the value is not an integer string', () => {
+    expect(toNumber('9007199254740993', false)).toBe(9007199254740992);
+    expect(toNumber('1e20')).toBe(1e20);
+    expect(toNumber('12.5')).toBe(12.5);
+  });
+
+  it('returns null for empty and non-numeric values', () => {
+    expect(toNumber('')).toBeNull();
+    expect(toNumber(null)).toBeNull();
+    expect(toNumber('abc')).toBeNull();
+    expect(toNumber({})).toBeNull();
+  });
+});
+
+describe('toDate', () => {
+  it('reads timestamps without a zone as UTC', () => {
+    expect(toDate('2025-03-01T10:00:00.000')!.toISOString()).toBe('2025-03-01T10:00:00.000Z');
+    expect(toDate('2025-03-01')!.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('honors an explicit zone', () => {
+    expect(toDate('2025-03-01T10:00:00+02:00')!.toISOString()).toBe('2025-03-01T08:00:00.000Z');
+    expect(toDate('2025-03-01T10:00:00Z')!.toISOString()).toBe('2025-03-01T10:00:00.000Z');
+  });
+
+  it('returns null for values that are not dates', () => {
+    expect(toDate('not a date')).toBeNull();
+    expect(toDate('')).toBeNull();
+    expect(toDate(true)).toBeNull();
+  });
+});
+
+describe('toBoolean', () => {
+  it('accepts booleans, strings and 0/1', () => {
+    expect([true, 'true', 1, '1'].map(toBoolean)).toEqual([true, true, true, true]);
+    expect([false, 'false', 0, '0'].map(toBoolean)).toEqual([false, false, false, false]);
+    expect(toBoolean('yes')).toBeNull();
+  });
+});
+
+describe('parseRows', () => {
+  const rows = [{
+    'orders.count': '9007199254740993',
+    'orders.total': '12.50',
+    'orders.id': '42',
+    'orders.status': '007',
+    'orders.paid': 'false',
+    'orders.created_at.month': '2025-03-01T00:00:00.000',
+    extra: '1',
+  }];
+
+  it('coerces each column by its annotated type and kind', () => {
+    const [row] = parseRows(rows, annotation);
+    expect(row).toEqual({
+      'orders.count': 9007199254740993n,
+      'orders.total': 12.5,
+      'orders.id': 42,
+      'orders.status': '007',
+      'orders.paid': false,
+      'orders.created_at.month': new Date(Date.UTC(2025, 2, 1)),
+      extra: '1',
+    });
+    expect(rows[0]!['orders.count']).toBe('9007199254740993');
+  });
+
+  it('follows the bigint and dates options', () => {
+    const [row] = parseRows<Record<string, unknown>>(rows, annotation, { bigint: false, dates: false });
+    expect(row!['orders.count']).toBe(9007199254740992);
+    expect(row!['orders.created_at.month']).toBe('2025-03-01T00:00:00.000');
+  });
+
+  it('leaves rows alone without an annotation', () => {
+    expect(parseRows(rows, undefined)).toBe(rows);
+  });
+});
+
+describe('columnsFromAnnotation', () => {
+  it('lists columns in row order with kind, format and granularity', () => {
+    const columns = columnsFromAnnotation(annotation, [{ 'orders.created_at.month': null, 'orders.total': null, missing: null }]);
+    expect(columns).toEqual([
+      { key: 'orders.created_at.month', title: 'Orders Created at', shortTitle: 'Created at', type: 'time', kind: 'timeDimension', granularity: 'month' },
+      { key: 'orders.total', title: 'Orders Total', shortTitle: 'Total', type: 'sum', kind: 'measure', format: 'currency' },
+    ]);
+  });
+
+  it('uses annotation order without rows', () => {
+    expect(columnsFromAnnotation(annotation).map((c) => c.key)).toEqual([
+      'orders.count', 'orders.total', 'orders.id', 'orders.status', 'orders.paid', 'orders.created_at', 'orders.created_at.month',
+    ]);
+  });
+});
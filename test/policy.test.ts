@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { createPolicy, REDACTED } from '../src/ai/policy.js';
+import { createTools } from '../src/ai/tools.js';
+import { createMockClient } from '../src/testing.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const values = (violations: Array<{ value: string }>) => violations.map((v) => v.value);
+
+describe('policy query checks', () => {
+  const policy = createPolicy({
+    deniedSources: ['salaries'],
+    deniedMembers: ['*.cost_price'],
+    redact: ['customers.email'],
+    maxRows: 100,
+    mandatoryFilters: [{ member: 'orders.created_at', operator: 'afterDate', values: ['2024-01-01'] }],
+  });
+
+  it('rejects denied sources and members and filters on redacted members', () => {
+    const violations = policy.checkQuery({
+      measures: ['orders.cost_price', 'salaries.total'],
+      dimensions: ['customers.email'],
+      filters: [{ or: [{ member: 'customers.email', operator: 'contains', values: ['@'] }] }],
+    });
+    expect(violations.map((v) => v.path)).toEqual(['measures[0]', 'measures[1]', 'filters[0].or[0].member']);
+  });
+
+  it('rejects sorting on a redacted member and date ranges on a redacted time dimension', () => {
+    const timed = createPolicy({ redact: ['customers.city', 'customers.signed_up_at'] });
+    const violations = timed.checkQuery({
+      dimensions: ['customers.city'],
+      timeDimensions: [
+        { dimension: 'customers.signed_up_at', granularity: 'month', dateRange: 'last 30 days' },
+        { dimension: 'customers.signed_up_at', granularity: 'month' },
+      ],
+      order: { 'customers.city': 'asc', 'customers.signed_up_at.month': 'desc', 'customers.count': 'desc' },
+    });
+    expect(violations.map((v) => v.path)).toEqual([
+      'timeDimensions[0].dateRange',
+      'order["customers.city"]',
+      'order["customers.signed_up_at.month"]',
+    ]);
+    expect(violations[1]!.message).toBe("'customers.city' is redacted and can't be sorted on");
+  });
+
+  it('skips empty mandatory filter groups', () => {
+    const grouped = createPolicy({ mandatoryFilters: [{ and: [] }, { or: [] }] });
+    expect(grouped.enforceQuery({ measures: ['orders.count'] })).toEqual({ measures: ['orders.count'], limit: 5000 });
+  });
+
+  it('caps the limit and adds mandatory filters for the sources used', () => {
+    expect(policy.enforceQuery({ measures: ['orders.count'], limit: 5000 })).toEqual({
+      measures: ['orders.count'],
+      limit: 100,
+      filters: [{ member: 'orders.created_at', operator: 'afterDate', values: ['2024-01-01'] }],
+    });
+    expect(policy.enforceQuery({ measures: ['customers.count'] })).toEqual({ measures: ['customers.count'], limit: 100 });
+  });
+
+  it('redacts query rows by member, including time granularities', () => {
+    const timed = createPolicy({ redact: ['customers.signed_up_at'] });
+    const rows = [{ 'customers.signed_up_at.month': '2025-01-01', 'customers.count': '3' }];
+    expect(timed.redactRows(rows)).toEqual([{ 'customers.signed_up_at.month': REDACTED, 'customers.count': '3' }]);
+  });
+});
+
+describe('policy SQL checks', () => {
+  const policy = createPolicy({ deniedMembers: ['customers.ssn'], redact: ['customers.email'] });
+
+  it('allows plain SELECTs that list permitted columns', () => {
+    expect(policy.checkSql('SELECT city, email, MEASURE(count) FROM customers GROUP BY 1, 2')).toEqual([]);
+    expect(policy.checkSql('WITH t AS (SELECT city, MEASURE(revenue) AS r FROM orders GROUP BY 1) SELECT * FROM t')).toEqual([]);
+  });
+
+  it('rejects writes, extra statements and non-SELECT statements', () => {
+    expect(values(policy.checkSql('DELETE FROM orders'))).toEqual(['delete']);
+    expect(values(policy.checkSql('SELECT city INTO backup FROM orders'))).toEqual(['into']);
+    expect(policy.checkSql('SELECT 1; DROP TABLE orders').map((v) => v.message)).toHaveLength(2);
+  });
+
+  it('ignores keywords in strings, comments and quoted identifiers', () => {
+    expect(policy.checkSql(`SELECT "into", MEASURE(count) FROM orders WHERE note = 'drop' GROUP BY 1 -- update`)).toEqual([]);
+  });
+
+  it('rejects denied columns wherever they appear', () => {
+    expect(values(policy.checkSql('SELECT city FROM customers WHERE ssn IS NOT NULL'))).toEqual(['customers.ssn']);
+    expect(values(policy.checkSql('SELECT c.ssn AS x FROM customers c'))).toEqual(['customers.ssn']);
+  });
+
+  it('rejects * and untraceable projections on sources with restricted members', () => {
+    expect(values(policy.checkSql('SELECT * FROM customers'))).toEqual(['*']);
+    expect(values(policy.checkSql('SELECT c.* FROM customers c'))).toEqual(['*']);
+    expect(values(policy.checkSql('WITH t AS (SELECT city FROM customers) SELECT city FROM t'))).toEqual(['customers']);
+    expect(values(policy.checkSql('SELECT city FROM customers UNION SELECT city FROM orders'))).toEqual(['customers']);
+    expect(values(policy.checkSql('SELECT customers FROM customers'))).toEqual(['customers']);
+    // COUNT(*) is not a projection
+    expect(policy.checkSql('SELECT city, COUNT(*) FROM customers GROUP BY 1')).toEqual([]);
+  });
+
+  it('treats members outside allowedMembers as restricted', () => {
+    const allowlist = createPolicy({ allowedMembers: ['orders.*', 'customers.city'] });
+    expect(allowlist.checkSql('SELECT * FROM orders')).toEqual([]);
+    expect(values(allowlist.checkSql('SELECT * FROM customers'))).toEqual(['*']);
+  });
+
+  it('rejects redacted columns in WHERE, HAVING and ORDER BY, also through aliases and positions', () => {
+    const rejected = [
+      "SELECT city FROM customers WHERE email LIKE 'a%'",
+      "SELECT city, MEASURE(count) FROM customers GROUP BY 1 HAVING MAX(email) > 'm'",
+      'SELECT email AS e FROM customers ORDER BY e',
+      'SELECT city, email FROM customers ORDER BY 2',
+      'SELECT city FROM customers ORDER BY LENGTH(email)',
+    ];
+    for (const sql of rejected) expect(values(policy.checkSql(sql)), sql).toEqual(['customers.email']);
+    expect(policy.checkSql('SELECT email, MEASURE(count) FROM customers GROUP BY email')).toEqual([]);
+  });
+
+  it('reads keyword-named members listed in the policy as columns', () => {
+    const dated = createPolicy({ redact: ['events.date'] });
+    expect(values(dated.checkSql('SELECT city FROM events WHERE date > 1'))).toEqual(['events.date']);
+  });
+});
+
+describe('policy SQL redaction', () => {
+  const policy = createPolicy({ redact: ['customers.email'] });
+
+  it('redacts output columns by their source, not their key', () => {
+    const rows = [{ e: 'a@b.c', city: 'Berlin' }];
+    expect(policy.redactRows(rows, 'SELECT email AS e, city FROM customers')).toEqual([{ e: REDACTED, city: 'Berlin' }]);
+    expect(policy.redactRows([{ 'upper(email)': 'A@B.C', n: '1' }], 'SELECT UPPER(email), MEASURE(count) n FROM customers GROUP BY 1'))
+      .toEqual([{ 'upper(email)': REDACTED, n: '1' }]);
+  });
+
+  it('leaves columns of other sources and unrelated columns alone', () => {
+    const rows = [{ email: 'a@b.c' }];
+    expect(policy.redactRows(rows, 'SELECT email FROM orders')).toEqual(rows);
+    expect(policy.redactRows([{ city: 'Berlin' }], 'SELECT city FROM customers')).toEqual([{ city: 'Berlin' }]);
+  });
+
+  it('redacts every column when the output cannot be matched to the select list', () => {
+    const rows = [{ x: 'a@b.c', y: 'Berlin' }];
+    expect(policy.redactRows(rows, 'SELECT email AS e, city FROM customers')).toEqual([{ x: REDACTED, y: REDACTED }]);
+  });
+});
+
+describe('sql_query tool', () => {
+  const meta: ExploreMeta = {
+    cubes: [{
+      name: 'customers',
+      type: 'view',
+      measures: [{ name: 'customers.count', type: 'number', aggType: 'count' }],
+      dimensions: [{ name: 'customers.email', type: 'string' }, { name: 'customers.city', type: 'string' }],
+      segments: [],
+    }],
+  };
+  const rows = Array.from({ length: 30 }, (_, i) => ({ e: `user${i}@example.com`, city: 'Berlin' }));
+  const sqlQuery = (options: Parameters<typeof createTools>[1]) => {
+    const client = createMockClient({ meta, sql: () => rows });
+    return createTools(client, options).find((t) => t.name === 'sql_query')!;
+  };
+
+  it('caps SQL results at maxRows and redacts aliased columns', async () => {
+    const tool = sqlQuery({ policy: { maxRows: 10, redact: ['customers.email'] } });
+    const response = await tool.execute({ sql: 'SELECT email AS e, city FROM customers' }) as Record<string, any>;
+    expect(response.data_completeness).toBe('partial');
+    expect(response.rows_shown).toBe(10);
+    expect(response.results[0]).toEqual({ e: REDACTED, city: 'Berlin' });
+  });
+
+  it('blocks SELECT * on a source with redacted members', async () => {
+    const tool = sqlQuery({ policy: { redact: ['customers.email'] } });
+    const response = await tool.execute({ sql: 'SELECT * FROM customers' }) as Record<string, any>;
+    expect(response.code).toBe('policy_violation');
+  });
+});
+
+describe('query tool', () => {
+  it('blocks sorting on a redacted member', async () => {
+    const meta: ExploreMeta = {
+      cubes: [{ name: 'orders', type: 'view', measures: [], dimensions: [{ name: 'orders.city', type: 'string' }], segments: [] }],
+    };
+    const client = createMockClient({ meta, tables: { orders: [{ city: 'Berlin' }, { city: 'Austin' }] } });
+    const tool = createTools(client, { policy: { redact: ['orders.city'] } }).find((t) => t.name === 'query')!;
+    const response = await tool.execute({
+      dimensions: ['orders.city'],
+      order: [{ field: 'orders.city', direction: 'asc' }],
+    }) as Record<string, any>;
+    expect(response.code).toBe('policy_violation');
+    expect(response.violations[0].path).toBe('order["orders.city"]');
+  });
+});
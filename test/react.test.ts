@@ -0,0 +1,228 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { act, createElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { BonnardProvider, useBonnardClient, useQuery, useSql, useExplore } from '../src/react.js';
+import { BonnardError } from '../src/errors.js';
+import type { BonnardClient } from '../src/client.js';
+import type { ExploreMeta, QueryOptions, RequestOptions } from '../src/types.js';
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  options: RequestOptions;
+}
+
+/** A client whose calls stay pending until the test resolves them. */
+function pendingClient() {
+  const calls: Array<Deferred<unknown> & { method: string; args: unknown }> = [];
+  const record = (method: string) => vi.fn((args: unknown, options: RequestOptions) => {
+    let resolve!: (value: unknown) => void;
+    const promise = new Promise((r) => { resolve = r; });
+    calls.push({ method, args, promise, resolve, options });
+    return promise;
+  });
+  const client = { query: record('query'), sql: record('sql'), explore: record('explore') };
+  return { client: client as unknown as BonnardClient, calls };
+}
+
+let root: Root | undefined;
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = undefined;
+});
+
+/** Render `hook` under a provider and return a ref to its latest result. */
+function renderHook<P, R>(client: BonnardClient, hook: (props: P) => R, props: P) {
+  const result: { current: R } = { current: undefined as R };
+  function Probe(p: { props: P }) {
+    result.current = hook(p.props);
+    return null;
+  }
+  const render = (next: P) => createElement(BonnardProvider, { client }, createElement(Probe, { props: next }));
+  root = createRoot(document.createElement('div'));
+  act(() => root!.render(render(props)));
+  return { result, rerender: (next: P) => act(() => root!.render(render(next))) };
+}
+
+const revenueByCity: QueryOptions = { measures: ['orders.revenue'], dimensions: ['orders.city'] };
+
+describe('useQuery', () => {
+  it('reports loading, then the rows and annotation', async () => {
+    const { client, calls } = pendingClient();
+    const { result } = renderHook(client, (q: QueryOptions) => useQuery(q), revenueByCity);
+
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.data).toBeUndefined();
+    expect(calls).toHaveLength(1);
+
+    const annotation = { measures: {}, dimensions: {} };
+    await act(async () => calls[0]!.resolve({ data: [{ 'orders.revenue': 10 }], annotation }));
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.data).toEqual([{ 'orders.revenue': 10 }]);
+    expect(result.current.annotation).toBe(annotation);
+  });
+
+  it('aborts the request a changed query supersedes and ignores its late result', async () => {
+    const { client, calls } = pendingClient();
+    const { result, rerender } = renderHook(client, (q: QueryOptions) => useQuery(q), revenueByCity);
+
+    rerender({ ...revenueByCity, limit: 5 });
+    expect(calls).toHaveLength(2);
+    expect(calls[0]!.options.signal!.aborted).toBe(true);
+    expect(calls[1]!.options.signal!.aborted).toBe(false);
+
+    await act(async () => calls[0]!.resolve({ data: [{ stale: true }] }));
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.data).toBeUndefined();
+
+    await act(async () => calls[1]!.resolve({ data: [{ fresh: true }] }));
+    expect(result.current.data).toEqual([{ fresh: true }]);
+  });
+
+  it('does not refetch for an equivalent query', () => {
+    const { client, calls } = pendingClient();
+    const { rerender } = renderHook(client, (q: QueryOptions) => useQuery(q), revenueByCity);
+    rerender({ dimensions: ['orders.city'], measures: ['orders.revenue'] });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('aborts the request in flight on unmount', () => {
+    const { client, calls } = pendingClient();
+    renderHook(client, (q: QueryOptions) => useQuery(q), revenueByCity);
+    act(() => root!.unmount());
+    root = undefined;
+    expect(calls[0]!.options.signal!.aborted).toBe(true);
+  });
+
+  it('refetch bypasses the client cache', async () => {
+    const { client, calls } = pendingClient();
+    const { result } = renderHook(client, (q: QueryOptions) => useQuery(q), revenueByCity);
+    await act(async () => calls[0]!.resolve({ data: [] }));
+    expect(calls[0]!.options.cache).toBeUndefined();
+
+    act(() => void result.current.refetch());
+    expect(calls).toHaveLength(2);
+    expect(calls[1]!.options.cache).toBe(false);
+  });
+
+  it('keeps the previous rows while a changed query loads with keepPreviousData', async () => {
+    const { client, calls } = pendingClient();
+    const { result, rerender } = renderHook(client, (q: QueryOptions) => useQuery(q, { keepPreviousData: true }), revenueByCity);
+    await act(async () => calls[0]!.resolve({ data: [{ n: 1 }] }));
+
+    rerender({ ...revenueByCity, limit: 5 });
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.data).toEqual([{ n: 1 }]);
+  });
+
+  it('does not fetch while disabled', () => {
+    const { client, calls } = pendingClient();
+    const { result } = renderHook(client, (q: QueryOptions) => useQuery(q, { enabled: false }), revenueByCity);
+    expect(calls).toHaveLength(0);
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('surfaces errors', async () => {
+    const client = { query: vi.fn().mockRejectedValue(new Error('boom')) } as unknown as BonnardClient;
+    const { result } = renderHook(client, (q: QueryOptions) => useQuery(q), revenueByCity);
+    await act(async () => {});
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.error?.message).toBe('boom');
+  });
+});
+
+describe('useSql', () => {
+  it('returns rows and schema, and refetches when the SQL changes', async () => {
+    const { client, calls } = pendingClient();
+    const { result, rerender } = renderHook(client, (sql: string) => useSql(sql), 'SELECT 1' as string);
+    expect(result.current.isLoading).toBe(true);
+
+    const schema = [{ name: 'n', type: 'number' }];
+    await act(async () => calls[0]!.resolve({ data: [{ n: 1 }], schema }));
+    expect(result.current.data).toEqual([{ n: 1 }]);
+    expect(result.current.schema).toBe(schema);
+
+    rerender('SELECT 2');
+    expect(calls).toHaveLength(2);
+    expect(calls[1]!.args).toBe('SELECT 2');
+    expect(result.current.data).toBeUndefined();
+  });
+
+  it('refetch bypasses the client cache', async () => {
+    const { client, calls } = pendingClient();
+    const { result } = renderHook(client, (sql: string) => useSql(sql), 'SELECT 1' as string);
+    act(() => void result.current.refetch());
+    expect(calls[0]!.options.signal!.aborted).toBe(true);
+    expect(calls[1]!.options.cache).toBe(false);
+  });
+});
+
+describe('useExplore', () => {
+  const meta: ExploreMeta = {
+    cubes: [{
+      name: 'orders',
+      measures: [{ name: 'orders.revenue', type: 'number' }],
+      dimensions: [{ name: 'orders.city', type: 'string' }, { name: 'orders.created_at', type: 'time' }],
+      segments: [{ name: 'orders.completed' }],
+    }],
+  };
+
+  it('flattens fields by kind', async () => {
+    const { client, calls } = pendingClient();
+    const { result } = renderHook(client, () => useExplore(), undefined);
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.measures).toEqual([]);
+    expect(calls[0]!.args).toEqual({ viewsOnly: true });
+
+    await act(async () => calls[0]!.resolve(meta));
+    expect(result.current.measures.map((m) => m.name)).toEqual(['orders.revenue']);
+    expect(result.current.dimensions.map((d) => d.name)).toEqual(['orders.city']);
+    expect(result.current.timeDimensions.map((d) => d.name)).toEqual(['orders.created_at']);
+    expect(result.current.segments.map((s) => s.name)).toEqual(['orders.completed']);
+  });
+
+  it('aborts on unmount and refetches without the cache', async () => {
+    const { client, calls } = pendingClient();
+    const { result } = renderHook(client, () => useExplore({ viewsOnly: false }), undefined);
+    expect(calls[0]!.args).toEqual({ viewsOnly: false });
+    await act(async () => calls[0]!.resolve(meta));
+
+    act(() => void result.current.refetch());
+    expect(calls[1]!.options.cache).toBe(false);
+
+    act(() => root!.unmount());
+    root = undefined;
+    expect(calls[1]!.options.signal!.aborted).toBe(true);
+  });
+});
+
+describe('useBonnardClient', () => {
+  it('throws a BonnardError outside a provider', () => {
+    let error: unknown;
+    function Orphan() {
+      try {
+        useBonnardClient();
+      } catch (err) {
+        error = err;
+      }
+      return null;
+    }
+    root = createRoot(document.createElement('div'));
+    act(() => root!.render(createElement(Orphan)));
+    expect(error).toBeInstanceOf(BonnardError);
+    expect(error).toMatchObject({ code: 'config', message: expect.stringContaining('<BonnardProvider') });
+  });
+
+  it('returns the provided client', () => {
+    const { client } = pendingClient();
+    const { result } = renderHook(client, () => useBonnardClient(), undefined);
+    expect(result.current).toBe(client);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { totals } from '../src/results.js';
+import type { QueryResult } from '../src/types.js';
+
+// Shape of a Cube `/load` response: measures are `type: 'number'` with the aggregation in `aggType`
+const loadResponse: QueryResult = {
+  data: [
+    { 'orders.city': 'Berlin', 'orders.status': 'paid', 'orders.revenue': '120.5', 'orders.count': '3', 'orders.avg_value': '40.17', 'orders.max_value': '80', 'orders.customers': '2' },
+    { 'orders.city': 'Berlin', 'orders.status': 'open', 'orders.revenue': '30', 'orders.count': '1', 'orders.avg_value': '30', 'orders.max_value': '30', 'orders.customers': '1' },
+    { 'orders.city': 'Paris', 'orders.status': 'paid', 'orders.revenue': '50', 'orders.count': '2', 'orders.avg_value': '25', 'orders.max_value': '35', 'orders.customers': '2' },
+  ],
+  annotation: {
+    measures: {
+      'orders.revenue': { title: 'Orders Revenue', shortTitle: 'Revenue', type: 'number', aggType: 'sum', format: 'currency' },
+      'orders.count': { title: 'Orders Count', shortTitle: 'Count', type: 'number', aggType: 'count' },
+      'orders.avg_value': { title: 'Orders Avg Value', shortTitle: 'Avg Value', type: 'number', aggType: 'avg' },
+      'orders.max_value': { title: 'Orders Max Value', shortTitle: 'Max Value', type: 'number', aggType: 'max' },
+      'orders.customers': { title: 'Orders Customers', shortTitle: 'Customers', type: 'number', aggType: 'countDistinct' },
+    },
+    dimensions: {
+      'orders.city': { title: 'Orders City', shortTitle: 'City', type: 'string' },
+      'orders.status': { title: 'Orders Status', shortTitle: 'Status', type: 'string' },
+    },
+    segments: {},
+    timeDimensions: {},
+  },
+};
+
+describe('totals', () => {
+  it('rolls up measures by their aggType', () => {
+    expect(totals(loadResponse).total).toEqual({
+      'orders.revenue': 200.5,
+      'orders.count': 6,
+      'orders.avg_value': null,
+      'orders.max_value': 80,
+      'orders.customers': null,
+    });
+  });
+
+  it('computes subtotals per group', () => {
+    const { subtotals } = totals(loadResponse, { measures: ['orders.revenue', 'orders.max_value'], groupBy: 'orders.city' });
+    expect(subtotals).toEqual({
+      Berlin: { 'orders.revenue': 150.5, 'orders.max_value': 80 },
+      Paris: { 'orders.revenue': 50, 'orders.max_value': 35 },
+    });
+  });
+
+  it('sums a number measure without an aggType', () => {
+    const result: QueryResult = {
+      data: [{ 'orders.revenue': 1 }, { 'orders.revenue': 2 }],
+      annotation: { measures: { 'orders.revenue': { title: 'Revenue', type: 'number' } }, dimensions: {} },
+    };
+    expect(totals(result).total).toEqual({ 'orders.revenue': 3 });
+  });
+
+  it('does not total calculated measures', () => {
+    const result: QueryResult = {
+      data: [{ 'orders.margin': 0.2 }, { 'orders.margin': 0.4 }],
+      annotation: { measures: { 'orders.margin': { title: 'Margin', type: 'number', aggType: 'number' } }, dimensions: {} },
+    };
+    expect(totals(result).total).toEqual({ 'orders.margin': null });
+  });
+
+  it('sums every numeric column without an annotation', () => {
+    const total = totals({ data: [{ city: 'Berlin', revenue: 1 }, { city: 'Paris', revenue: 2 }] }).total;
+    expect(total).toEqual({ revenue: 3 });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createClient } from '../src/client.js';
+import { QueryValidationError, RateLimitError, ServerError, TimeoutError } from '../src/errors.js';
+import { backoffDelay, resolveRetryOptions } from '../src/retry.js';
+import type { RetryOptions } from '../src/types.js';
+
+type Reply = { status: number; body: unknown };
+
+/** A client whose fake fetch answers with `replies` in order, repeating the last. */
+function clientWith(replies: Reply[], retry: boolean | RetryOptions = { initialDelayMs: 1, maxDelayMs: 5 }) {
+  let calls = 0;
+  const client = createClient({
+    apiKey: 'bon_pk_test',
+    baseUrl: 'http://bonnard.test',
+    retry,
+    fetch: async () => {
+      const { status, body } = replies[Math.min(calls++, replies.length - 1)]!;
+      return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    },
+  });
+  return { client, calls: () => calls };
+}
+
+const ok: Reply = { status: 200, body: { data: [{ 'orders.count': '3' }] } };
+const unavailable: Reply = { status: 503, body: { error: 'Service unavailable' } };
+const continueWait: Reply = { status: 200, body: { error: 'Continue wait' } };
+const query = { measures: ['orders.count'] };
+
+describe('retry', () => {
+  it('retries transient server errors until a request succeeds', async () => {
+    const { client, calls } = clientWith([unavailable, unavailable, ok]);
+    const result = await client.query(query);
+    expect(result.data).toEqual([{ 'orders.count': '3' }]);
+    expect(calls()).toBe(3);
+  });
+
+  it('gives up after maxAttempts with the last error', async () => {
+    const { client, calls } = clientWith([unavailable], { maxAttempts: 2, initialDelayMs: 1 });
+    await expect(client.query(query)).rejects.toBeInstanceOf(ServerError);
+    expect(calls()).toBe(2);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const { client, calls } = clientWith([{ status: 400, body: { error: 'Unknown member' } }, ok]);
+    await expect(client.query(query)).rejects.toBeInstanceOf(QueryValidationError);
+    expect(calls()).toBe(1);
+  });
+
+  it('makes a single attempt with retry: false', async () => {
+    const { client, calls } = clientWith([unavailable, ok], false);
+    await expect(client.query(query)).rejects.toBeInstanceOf(ServerError);
+    expect(calls()).toBe(1);
+  });
+
+  it('polls Continue wait responses until the result is ready', async () => {
+    const { client, calls } = clientWith([continueWait, continueWait, ok]);
+    const result = await client.query(query);
+    expect(result.data).toHaveLength(1);
+    expect(calls()).toBe(3);
+  });
+
+  it('rejects with a TimeoutError on Continue wait when polling is off', async () => {
+    const { client, calls } = clientWith([continueWait, ok], false);
+    await expect(client.query(query)).rejects.toBeInstanceOf(TimeoutError);
+    expect(calls()).toBe(1);
+  });
+
+  it('rejects with a TimeoutError once polling would pass the deadline', async () => {
+    const { client } = clientWith([continueWait], { initialDelayMs: 50, maxDelayMs: 50, deadlineMs: 0 });
+    await expect(client.query(query)).rejects.toThrow(/did not complete within 0ms/);
+  });
+
+  it('waits at least as long as Retry-After on rate limits', () => {
+    const options = resolveRetryOptions({ initialDelayMs: 10, maxDelayMs: 10 });
+    const err = new RateLimitError('Too many requests', { status: 429, retryAfterMs: 2000 });
+    expect(backoffDelay(0, options, err)).toBeGreaterThanOrEqual(2000);
+    expect(backoffDelay(3, options)).toBeLessThanOrEqual(10);
+  });
+});
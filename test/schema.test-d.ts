@@ -0,0 +1,111 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { createClient } from '../src/client.js';
+import { createMockClient } from '../src/testing.js';
+
+type Schema = {
+  orders: {
+    measures: { 'orders.revenue': number; 'orders.last_order_at': Date };
+    dimensions: { 'orders.city': string; 'orders.created_at': Date };
+    timeDimensions: { 'orders.created_at': Date };
+    segments: 'orders.completed';
+  };
+};
+
+const config = { apiKey: 'bon_pk_test' };
+const query = {
+  measures: ['orders.revenue' as const],
+  dimensions: ['orders.city' as const],
+  timeDimension: { dimension: 'orders.created_at' as const, granularity: 'month' as const },
+};
+
+describe('typed rows', () => {
+  it('are unparsed by default', async () => {
+    const { data } = await createClient<Schema>(config).query(query);
+    expectTypeOf(data[0]!['orders.revenue']).toEqualTypeOf<string>();
+    expectTypeOf(data[0]!['orders.city']).toEqualTypeOf<string>();
+    expectTypeOf(data[0]!['orders.created_at.month']).toEqualTypeOf<string>();
+  });
+
+  it('follow a client-wide parse setting', async () => {
+    const { data } = await createClient<Schema, true>({ ...config, parse: true }).query(query);
+    expectTypeOf(data[0]!['orders.revenue']).toEqualTypeOf<number>();
+    expectTypeOf(data[0]!['orders.created_at.month']).toEqualTypeOf<Date>();
+  });
+
+  it('follow a per-call parse setting', async () => {
+    const bon = createClient<Schema>(config);
+    const parsed = await bon.query(query, { parse: true });
+    expectTypeOf(parsed.data[0]!['orders.created_at']).toEqualTypeOf<Date>();
+
+    const noDates = await bon.query(query, { parse: { dates: false } });
+    expectTypeOf(noDates.data[0]!['orders.revenue']).toEqualTypeOf<number>();
+    expectTypeOf(noDates.data[0]!['orders.created_at.month']).toEqualTypeOf<string>();
+
+    const { data } = await createClient<Schema, true>({ ...config, parse: true }).query(query, { parse: false });
+    expectTypeOf(data[0]!['orders.revenue']).toEqualTypeOf<string>();
+  });
+
+  it('reject a client-wide parse setting the type does not declare', () => {
+    // @ts-expect-error rows would be typed as unparsed
+    createClient<Schema>({ ...config, parse: true });
+  });
+
+  it('apply to the mock client', async () => {
+    const bon = createMockClient<Schema, true>({ meta: { cubes: [] }, parse: true });
+    const { data } = await bon.query({ measures: ['orders.last_order_at'] });
+    expectTypeOf(data[0]!['orders.last_order_at']).toEqualTypeOf<Date>();
+  });
+});
+
+describe('typed query paths', () => {
+  const bon = createClient<Schema>(config);
+
+  it('type rawQuery rows and check its members', async () => {
+    const { data } = await bon.rawQuery({
+      measures: ['orders.revenue'],
+      timeDimensions: [{ dimension: 'orders.created_at', granularity: 'month' }],
+      filters: [{ or: [{ member: 'orders.city', operator: 'equals', values: ['Berlin'] }] }],
+      order: { 'orders.created_at.month': 'asc' },
+    }, { parse: true });
+    expectTypeOf(data[0]!['orders.revenue']).toEqualTypeOf<number>();
+    expectTypeOf(data[0]!['orders.created_at.month']).toEqualTypeOf<Date>();
+
+    // @ts-expect-error misspelled measure
+    bon.rawQuery({ measures: ['orders.revnue'] });
+    // @ts-expect-error misspelled filter member
+    bon.rawQuery({ filters: [{ member: 'orders.cty', operator: 'set' }] });
+    // @ts-expect-error misspelled order key
+    bon.rawQuery({ order: [['orders.revnue', 'desc']] });
+  });
+
+  it('type queryAll and queryPages rows', async () => {
+    const all = await bon.queryAll(query, { pageSize: 100, parse: true });
+    expectTypeOf(all.data[0]!['orders.revenue']).toEqualTypeOf<number>();
+    for await (const page of bon.queryPages(query)) {
+      expectTypeOf(page[0]!['orders.city']).toEqualTypeOf<string>();
+    }
+
+    // @ts-expect-error misspelled dimension
+    bon.queryAll({ dimensions: ['orders.cty'] });
+    // @ts-expect-error misspelled measure
+    bon.queryPages({ measures: ['orders.revnue'] });
+  });
+
+  it('check batch members', () => {
+    bon.batch([query, { measures: ['orders.revenue'], segments: ['orders.completed'] }]);
+    // @ts-expect-error misspelled segment
+    bon.batch([{ measures: ['orders.revenue'], segments: ['orders.complete'] }]);
+  });
+
+  it('check builder members against the view, by full or short name', () => {
+    bon.from('orders').measures('revenue', 'orders.revenue').by('city').over('created_at', 'month').where('city').equals('Berlin').orderBy('revenue').limit(10);
+    // @ts-expect-error unknown view
+    bon.from('ordrs');
+    // @ts-expect-error misspelled measure
+    bon.from('orders').measures('revnue');
+    // @ts-expect-error a measure is not a time dimension
+    bon.from('orders').over('revenue');
+    // @ts-expect-error misspelled filter member
+    bon.from('orders').limit(5).where('cty');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { createClient } from '../src/client.js';
+import { AbortError, TimeoutError } from '../src/errors.js';
+import { createCallSignal, raceSignal } from '../src/signal.js';
+import type { BonnardConfig } from '../src/types.js';
+
+const query = { measures: ['orders.count'] };
+
+/** A client whose fake fetch never answers, but rejects once its signal aborts. */
+function hangingClient(config: Partial<BonnardConfig> = {}) {
+  const signals: AbortSignal[] = [];
+  const client = createClient({
+    apiKey: 'bon_pk_test',
+    baseUrl: 'http://bonnard.test',
+    retry: false,
+    fetch: (_input, init) => new Promise<Response>((_resolve, reject) => {
+      const signal = init!.signal!;
+      signals.push(signal);
+      signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    }),
+    ...config,
+  });
+  return { client, signals };
+}
+
+describe('cancellation', () => {
+  it('aborts the request in flight when the caller aborts', async () => {
+    const { client, signals } = hangingClient();
+    const controller = new AbortController();
+    const pending = client.query(query, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    controller.abort('navigated away');
+
+    const err = await pending.catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(AbortError);
+    expect((err as AbortError).cause).toBe('navigated away');
+    expect(signals[0]!.aborted).toBe(true);
+  });
+
+  it('does not send a request for an already aborted signal', async () => {
+    const { client, signals } = hangingClient();
+    await expect(client.explore(undefined, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(AbortError);
+    expect(signals).toHaveLength(0);
+  });
+
+  it('stops retrying when aborted during backoff', async () => {
+    let calls = 0;
+    const client = createClient({
+      apiKey: 'bon_pk_test',
+      baseUrl: 'http://bonnard.test',
+      retry: { initialDelayMs: 10_000, maxDelayMs: 10_000 },
+      fetch: async () => {
+        calls++;
+        return new Response(JSON.stringify({ error: 'down' }), { status: 503 });
+      },
+    });
+    const controller = new AbortController();
+    const pending = client.query(query, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(calls).toBe(1);
+  });
+
+  it('rejects a caller waiting on a shared token fetch without cancelling it', async () => {
+    let release!: (token: string) => void;
+    const { client } = hangingClient({
+      apiKey: undefined,
+      fetchToken: () => new Promise<string>((resolve) => { release = resolve; }),
+    });
+    const controller = new AbortController();
+    const first = client.query(query, { signal: controller.signal });
+    const second = client.query(query, { timeoutMs: 50 });
+    controller.abort();
+    await expect(first).rejects.toBeInstanceOf(AbortError);
+    release('token');
+    await expect(second).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
+
+describe('timeouts', () => {
+  it('fails with a TimeoutError after the per-call timeout', async () => {
+    const { client, signals } = hangingClient();
+    const err = await client.query(query, { timeoutMs: 20 }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect((err as TimeoutError).message).toBe('Request timed out after 20ms');
+    expect(signals[0]!.aborted).toBe(true);
+  });
+
+  it('uses the client default, which a call can override', async () => {
+    const { client } = hangingClient({ timeoutMs: 20 });
+    await expect(client.query(query)).rejects.toThrow('Request timed out after 20ms');
+    await expect(client.query(query, { timeoutMs: 30 })).rejects.toThrow('Request timed out after 30ms');
+  });
+});
+
+describe('createCallSignal', () => {
+  it('detaches from the caller signal and clears its timer on dispose', async () => {
+    const controller = new AbortController();
+    const call = createCallSignal({ signal: controller.signal, timeoutMs: 10 }, undefined);
+    call.dispose();
+    controller.abort();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(call.signal.aborted).toBe(false);
+  });
+
+  it('races a promise against the signal', async () => {
+    const controller = new AbortController();
+    const never = new Promise<never>(() => undefined);
+    const raced = raceSignal(never, controller.signal);
+    controller.abort(new AbortError('stop'));
+    await expect(raced).rejects.toThrow('stop');
+    await expect(raceSignal(Promise.resolve(1), undefined)).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { lintSql } from '../src/sql-lint.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const meta: ExploreMeta = {
+  cubes: [
+    {
+      name: 'orders',
+      type: 'view',
+      measures: [
+        { name: 'orders.revenue', type: 'number', aggType: 'sum' },
+        { name: 'orders.count', type: 'number', aggType: 'count' },
+      ],
+      dimensions: [
+        { name: 'orders.city', type: 'string' },
+        { name: 'orders.status', type: 'string' },
+        { name: 'orders.created_at', type: 'time' },
+      ],
+      segments: [{ name: 'orders.completed' }],
+    },
+    {
+      name: 'customers',
+      type: 'view',
+      measures: [{ name: 'customers.count', type: 'number', aggType: 'count' }],
+      dimensions: [{ name: 'customers.email', type: 'string' }],
+      segments: [],
+    },
+  ],
+};
+
+const codes = (sql: string) => lintSql(sql, meta).issues.map((i) => i.code);
+
+describe('lintSql', () => {
+  it('accepts valid Cube SQL', () => {
+    expect(lintSql('SELECT city, MEASURE(revenue) FROM orders GROUP BY 1', meta)).toEqual({ valid: true, issues: [] });
+    expect(lintSql("SELECT o.city AS c, SUM(o.revenue) FROM orders o WHERE status = 'paid' GROUP BY c ORDER BY 2 DESC", meta).valid).toBe(true);
+    expect(lintSql("SELECT DATE_TRUNC('month', created_at), MEASURE(count) FROM orders GROUP BY 1", meta).valid).toBe(true);
+  });
+
+  it('reports unknown views with a fix', () => {
+    const lint = lintSql('SELECT MEASURE(revenue) FROM order', meta);
+    expect(lint.issues[0]).toMatchObject({ code: 'unknown_table', clause: 'from', value: 'order', suggestions: ['orders'] });
+    expect(lint.fixedSql).toBe('SELECT MEASURE(revenue) FROM orders');
+  });
+
+  it('ignores CTE names and FROM inside functions', () => {
+    expect(codes('WITH t AS (SELECT city, MEASURE(revenue) AS r FROM orders GROUP BY 1) SELECT * FROM t')).toEqual([]);
+    expect(codes('SELECT EXTRACT(year FROM created_at), MEASURE(count) FROM orders GROUP BY 1')).toEqual([]);
+  });
+
+  it('reports unknown columns with suggestions', () => {
+    const lint = lintSql('SELECT citty, MEASURE(revenue) FROM orders GROUP BY 1', meta);
+    expect(lint.issues[0]).toMatchObject({ code: 'unknown_column', clause: 'select', value: 'citty', suggestions: ['city'] });
+    expect(lint.fixedSql).toBe('SELECT city, MEASURE(revenue) FROM orders GROUP BY 1');
+  });
+
+  it('does not treat aliases, qualifiers or keywords as columns', () => {
+    expect(codes('SELECT city AS town, MEASURE(revenue) AS total FROM orders AS o GROUP BY town ORDER BY total DESC LIMIT 5')).toEqual([]);
+    expect(codes("SELECT CASE WHEN city = 'Berlin' THEN 'B' ELSE 'other' END label, MEASURE(count) FROM orders GROUP BY 1")).toEqual([]);
+    expect(codes('SELECT CAST(created_at AS date), MEASURE(count) FROM orders GROUP BY 1')).toEqual([]);
+  });
+
+  it('wraps measures in MEASURE()', () => {
+    const lint = lintSql('SELECT city, revenue FROM orders GROUP BY 1', meta);
+    expect(lint.issues.map((i) => i.code)).toEqual(['measure_not_wrapped']);
+    expect(lint.fixedSql).toBe('SELECT city, MEASURE(revenue) FROM orders GROUP BY 1');
+  });
+
+  it('unwraps dimensions passed to MEASURE()', () => {
+    const lint = lintSql('SELECT MEASURE(city), MEASURE(revenue) FROM orders GROUP BY 1', meta);
+    expect(lint.issues.map((i) => i.code)).toEqual(['not_a_measure']);
+    expect(lint.fixedSql).toBe('SELECT city, MEASURE(revenue) FROM orders GROUP BY 1');
+  });
+
+  it('rebuilds GROUP BY without measures and with missing dimensions', () => {
+    const missing = lintSql('SELECT city, status, MEASURE(revenue) FROM orders GROUP BY city', meta);
+    expect(missing.issues.map((i) => i.code)).toEqual(['missing_group_by']);
+    expect(missing.fixedSql).toBe('SELECT city, status, MEASURE(revenue) FROM orders GROUP BY city, 2');
+
+    const added = lintSql('SELECT city, MEASURE(revenue) FROM orders ORDER BY 2 DESC', meta);
+    expect(added.fixedSql).toBe('SELECT city, MEASURE(revenue) FROM orders GROUP BY 1 ORDER BY 2 DESC');
+
+    const measure = lintSql('SELECT city, MEASURE(revenue) FROM orders GROUP BY 1, revenue', meta);
+    expect(measure.issues.map((i) => i.code)).toEqual(['measure_in_group_by']);
+    expect(measure.fixedSql).toBe('SELECT city, MEASURE(revenue) FROM orders GROUP BY 1');
+  });
+
+  it('flags JOINs without a fix', () => {
+    const lint = lintSql('SELECT MEASURE(o.count) FROM orders o JOIN customers c ON o.city = c.email', meta);
+    expect(lint.issues.map((i) => i.code)).toContain('unsupported_join');
+    expect(lint.fixedSql).toBeUndefined();
+  });
+
+  it('only checks the first statement and skips non-SELECT statements', () => {
+    expect(codes('SELECT MEASURE(count) FROM orders; SELECT nope FROM nowhere')).toEqual([]);
+    expect(codes('SHOW TABLES')).toEqual([]);
+  });
+
+  it('gives offsets into the SQL', () => {
+    const sql = 'SELECT MEASURE(revenue) FROM ordrs';
+    const [issue] = lintSql(sql, meta).issues;
+    expect(sql.slice(issue!.offset)).toBe('ordrs');
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createMockClient, resolveDateRange } from '../src/testing.js';
+import type { MockFixtures } from '../src/testing.js';
+import { QueryValidationError } from '../src/errors.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const meta: ExploreMeta = {
+  cubes: [{
+    name: 'orders',
+    type: 'view',
+    measures: [
+      { name: 'orders.count', type: 'number', aggType: 'count' },
+      { name: 'orders.customers', type: 'number', aggType: 'countDistinct' },
+      { name: 'orders.revenue', type: 'number', aggType: 'sum' },
+      { name: 'orders.avg_amount', type: 'number', aggType: 'avg' },
+      { name: 'orders.min_amount', type: 'number', aggType: 'min' },
+      { name: 'orders.max_amount', type: 'number', aggType: 'max' },
+    ],
+    dimensions: [
+      { name: 'orders.id', type: 'number' },
+      { name: 'orders.city', type: 'string' },
+      { name: 'orders.status', type: 'string' },
+      { name: 'orders.created_at', type: 'time' },
+    ],
+    segments: [],
+  }],
+};
+
+const orders = [
+  { id: 1, city: 'Berlin', status: 'paid', customer: 'a', amount: 10, created_at: '2025-01-15T10:00:00.000Z' },
+  { id: 2, city: 'Berlin', status: 'open', customer: 'a', amount: 30, created_at: '2025-03-02T08:00:00.000Z' },
+  { id: 3, city: 'Austin', status: 'paid', customer: 'b', amount: 20, created_at: '2025-04-20T12:00:00.000Z' },
+  { id: 4, city: 'Lisbon', status: 'void', customer: 'c', amount: 5, created_at: '2025-05-05T00:00:00.000Z' },
+  { id: 5, city: 'Austin', status: 'paid', customer: 'b', amount: 40, created_at: '2025-05-30T23:00:00.000Z' },
+];
+
+// Each measure reads its per-row value from the column of its short name
+const tables = {
+  orders: orders.map((o) => ({
+    ...o,
+    customers: o.customer,
+    revenue: o.amount,
+    avg_amount: o.amount,
+    min_amount: o.amount,
+    max_amount: o.amount,
+  })),
+};
+
+const now = () => new Date('2025-06-10T09:00:00.000Z');
+const mockClient = () => createMockClient({ meta, tables, now });
+
+describe('createMockClient in memory mode', () => {
+  it('aggregates each measure by its aggregation type', async () => {
+    const { data } = await mockClient().query({
+      measures: ['orders.count', 'orders.customers', 'orders.revenue', 'orders.avg_amount', 'orders.min_amount', 'orders.max_amount'],
+    });
+    expect(data).toEqual([{
+      'orders.count': '5',
+      'orders.customers': '3',
+      'orders.revenue': '105',
+      'orders.avg_amount': '21',
+      'orders.min_amount': '5',
+      'orders.max_amount': '40',
+    }]);
+  });
+
+  it('groups by dimensions and orders by the first measure by default', async () => {
+    const { data } = await mockClient().query({ measures: ['orders.revenue'], dimensions: ['orders.city'] });
+    expect(data).toEqual([
+      { 'orders.city': 'Austin', 'orders.revenue': '60' },
+      { 'orders.city': 'Berlin', 'orders.revenue': '40' },
+      { 'orders.city': 'Lisbon', 'orders.revenue': '5' },
+    ]);
+  });
+
+  it('filters relative date ranges and truncates to the granularity', async () => {
+    const { data } = await mockClient().query({
+      measures: ['orders.count'],
+      timeDimension: { dimension: 'orders.created_at', granularity: 'month', dateRange: 'last 3 months' },
+    });
+    expect(data).toEqual([
+      { 'orders.created_at': '2025-03-01T00:00:00.000', 'orders.created_at.month': '2025-03-01T00:00:00.000', 'orders.count': '1' },
+      { 'orders.created_at': '2025-04-01T00:00:00.000', 'orders.created_at.month': '2025-04-01T00:00:00.000', 'orders.count': '1' },
+      { 'orders.created_at': '2025-05-01T00:00:00.000', 'orders.created_at.month': '2025-05-01T00:00:00.000', 'orders.count': '2' },
+    ]);
+  });
+
+  it('resolves last N units to whole periods before the current one', () => {
+    expect(resolveDateRange('last 3 months', now())).toEqual([
+      new Date('2025-03-01T00:00:00.000Z'),
+      new Date('2025-06-01T00:00:00.000Z'),
+    ]);
+    expect(resolveDateRange(['2025-01-01', '2025-01-31'])[1]).toEqual(new Date('2025-02-01T00:00:00.000Z'));
+  });
+
+  it('matches rows against OR groups nested in AND', async () => {
+    const { data } = await mockClient().query({
+      dimensions: ['orders.id'],
+      filters: [
+        { or: [{ dimension: 'orders.city', operator: 'equals', values: ['Lisbon'] }, { dimension: 'orders.status', operator: 'equals', values: ['open'] }] },
+        { dimension: 'orders.id', operator: 'gt', values: [1] },
+      ],
+    });
+    expect(data.map((r) => r['orders.id'])).toEqual([2, 4]);
+  });
+
+  it('pages through every row with queryAll', async () => {
+    const { data } = await mockClient().queryAll(
+      { dimensions: ['orders.id'], orderBy: { 'orders.id': 'desc' } },
+      { pageSize: 2 },
+    );
+    expect(data.map((r) => r['orders.id'])).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it('rejects unknown members like the server', async () => {
+    await expect(mockClient().query({ measures: ['orders.profit'] })).rejects.toBeInstanceOf(QueryValidationError);
+  });
+});
+
+describe('createMockClient record and replay', () => {
+  it('replays recorded responses from a fixtures object', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'bonnard-fixtures-'));
+    const path = join(dir, 'fixtures.json');
+    try {
+      const live = mockClient();
+      const recorder = createMockClient({
+        mode: 'record',
+        fixtures: path,
+        apiKey: 'bon_pk_live',
+        baseUrl: 'http://bonnard.test',
+        retry: false,
+        // Stand in for the real API with the in-memory engine
+        fetch: async (_input, init) => {
+          const { query } = JSON.parse(String(init?.body));
+          const result = await live.rawQuery(query);
+          return new Response(JSON.stringify(result), { status: 200 });
+        },
+      });
+      const query = { measures: ['orders.revenue'], dimensions: ['orders.city'] };
+      const recorded = await recorder.query(query);
+
+      const fixtures = JSON.parse(await readFile(path, 'utf8')) as MockFixtures;
+      expect(Object.keys(fixtures)).toHaveLength(1);
+
+      const replay = createMockClient({ mode: 'replay', fixtures });
+      expect(await replay.query(query)).toEqual(recorded);
+      await expect(replay.query({ measures: ['orders.count'] })).rejects.toThrow(/No recorded response/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
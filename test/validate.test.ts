@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { validateQuery, didYouMean, editDistance } from '../src/validate.js';
+import { createClient } from '../src/client.js';
+import { QueryValidationError } from '../src/errors.js';
+import type { ExploreMeta } from '../src/types.js';
+
+const meta: ExploreMeta = {
+  cubes: [
+    {
+      name: 'orders',
+      type: 'view',
+      measures: [{ name: 'orders.revenue', type: 'number' }, { name: 'orders.count', type: 'number' }],
+      dimensions: [
+        { name: 'orders.city', type: 'string' },
+        { name: 'orders.created_at', type: 'time' },
+        { name: 'orders.shipped_at', type: 'time' },
+      ],
+      segments: [{ name: 'orders.completed' }],
+    },
+    {
+      name: 'customers',
+      type: 'view',
+      measures: [{ name: 'customers.count', type: 'number' }],
+      dimensions: [{ name: 'customers.city', type: 'string' }],
+      segments: [{ name: 'customers.completed' }],
+    },
+  ],
+};
+
+describe('editDistance and didYouMean', () => {
+  it('counts an adjacent transposition as one edit', () => {
+    expect(editDistance('revenue', 'revneue')).toBe(1);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+
+  it('matches by whole name or by short name, best first', () => {
+    const measures = ['orders.revenue', 'orders.count', 'customers.count'];
+    expect(didYouMean('orders.revnue', measures)).toEqual(['orders.revenue']);
+    expect(didYouMean('sales.revenue', measures)).toEqual(['orders.revenue']);
+    expect(didYouMean('orders.cnt', measures)).toEqual(['orders.count']);
+    expect(didYouMean('count', measures)).toEqual(['customers.count', 'orders.count']);
+    expect(didYouMean('orders.margin', measures)).toEqual([]);
+  });
+});
+
+describe('validateQuery', () => {
+  it('accepts a valid query, including a time dimension without a granularity', () => {
+    expect(validateQuery({
+      measures: ['orders.revenue'],
+      dimensions: ['orders.city'],
+      timeDimension: { dimension: 'orders.created_at', dateRange: 'last 7 days' },
+      segments: ['orders.completed'],
+      orderBy: { 'orders.revenue': 'desc' },
+    }, meta)).toEqual({ valid: true, issues: [] });
+  });
+
+  it('reports unknown members with suggestions', () => {
+    const { valid, issues } = validateQuery({ measures: ['orders.revnue'] }, meta);
+    expect(valid).toBe(false);
+    expect(issues).toEqual([{
+      code: 'unknown_member',
+      path: 'measures[0]',
+      value: 'orders.revnue',
+      message: "'orders.revnue' not found. Did you mean 'orders.revenue'?",
+      suggestions: ['orders.revenue'],
+    }]);
+  });
+
+  it('reports measures used as dimensions and dimensions used as measures', () => {
+    const { issues } = validateQuery({ measures: ['orders.city'], dimensions: ['orders.revenue'] }, meta);
+    expect(issues.map((i) => [i.code, i.path, i.message])).toEqual([
+      ['not_a_measure', 'measures[0]', "'orders.city' is a dimension; move it to dimensions"],
+      ['not_a_dimension', 'dimensions[0]', "'orders.revenue' is a measure; move it to measures"],
+    ]);
+  });
+
+  it('reports non-time dimensions used as time dimensions, suggesting those of the same view', () => {
+    const { issues } = validateQuery({ measures: ['orders.count'], timeDimensions: [{ dimension: 'orders.city', granularity: 'month' }] }, meta);
+    expect(issues).toEqual([expect.objectContaining({
+      code: 'not_a_time_dimension',
+      path: 'timeDimensions[0].dimension',
+      suggestions: ['orders.created_at', 'orders.shipped_at'],
+    })]);
+  });
+
+  it('reports operators that do not fit the field type', () => {
+    const { issues } = validateQuery({
+      measures: ['orders.count'],
+      filters: [
+        { dimension: 'orders.created_at', operator: 'gt', values: ['2025-01-01'] },
+        { or: [{ dimension: 'orders.city', operator: 'containz' as 'contains', values: ['Ber'] }] },
+      ],
+    }, meta);
+    expect(issues.map((i) => [i.code, i.path, i.suggestions])).toEqual([
+      ['invalid_operator', 'filters[0].operator', ['afterDate']],
+      ['unknown_operator', 'filters[1].or[0].operator', ['contains']],
+    ]);
+  });
+
+  it('reports segments from a view the query does not use', () => {
+    const { issues } = validateQuery({ measures: ['orders.count'], segments: ['customers.completed'] }, meta);
+    expect(issues).toEqual([expect.objectContaining({ code: 'segment_source_mismatch', suggestions: ['orders.completed'] })]);
+  });
+});
+
+describe('strict validation', () => {
+  it('rejects an invalid query with its issues before sending it', async () => {
+    const requests: string[] = [];
+    const client = createClient({
+      apiKey: 'bon_pk_test',
+      baseUrl: 'http://bonnard.test',
+      retry: false,
+      validate: 'strict',
+      fetch: async (input) => {
+        const path = new URL(String(input)).pathname;
+        requests.push(path);
+        return new Response(JSON.stringify(path === '/api/cube/meta' ? meta : { data: [] }), { status: 200 });
+      },
+    });
+
+    const error = await client.query({ measures: ['orders.revnue'] }).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QueryValidationError);
+    expect((error as QueryValidationError).issues!.map((i) => i.suggestions)).toEqual([['orders.revenue']]);
+    expect(requests).toEqual(['/api/cube/meta']);
+
+    await client.query({ measures: ['orders.revenue'] });
+    expect(requests).toEqual(['/api/cube/meta', '/api/cube/query']);
+  });
+});